@@ -1,60 +1,292 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import './App.css';
 import {
   generateRoundRobinSchedule,
-  generate12PlayerSchedule,
+  generateTeamSchedule,
+  getDefaultSocialRoundCount,
+  MIN_SOCIAL_PLAYERS,
+  MAX_SOCIAL_PLAYERS,
+  MIN_TEAMS,
+  MAX_TEAMS,
   calculatePayoutsWithSideBets,
   calculate12PlayerPayoutsWithSideBets,
   calculatePlayerStats,
-  calculateTeamStats,
-  calculateSideBetTotals,
+  calculatePrizePlacings,
+  calculateTeamPrizePlacings,
+  getPlayerStandings,
+  getTeamStandings,
+  getNextGameId,
+  mergeSubstitutes,
+  type PlayerRanking,
   type Round,
   type Game,
-  type SideBet,
+  type GameScore,
   type TournamentFormat,
 } from './utils/scheduler';
-import { updateURL, getStateFromURL, clearURLState } from './utils/urlState';
+import {
+  calculateSideBetTotals,
+  resolveSideBet,
+  validateSideBet,
+  describeSideBetTerms,
+  SIDE_BET_TYPE_LABELS,
+  type SideBet,
+  type SideBetType,
+} from './utils/sideBets';
+import { scheduleCourts, getMaxCourts } from './utils/courtScheduler';
+import {
+  generateDynamicRound,
+  areRoundsComplete,
+  countDrawnRounds,
+  type DynamicPairingMode,
+} from './utils/dynamicPairing';
+import {
+  getGameScores,
+  getMatchResult,
+  setMatchScores,
+  validateMatchScores,
+  withMatchLength,
+  type MatchLength,
+} from './utils/match';
+import {
+  pairSeededPlayers,
+  createBracket,
+  setPlayoffMatchScores,
+  getPlayoffPlacement,
+  type BracketSize,
+  type PlayoffBracket,
+} from './utils/playoffs';
+import {
+  DEFAULT_ENTRY_FEE,
+  DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+  DEFAULT_TEAM_PRIZE_SPLIT,
+  getPrizeAmounts,
+  toCents,
+  validatePrizeConfig,
+  type PrizeConfig,
+  type PrizeSplitType,
+} from './utils/prizes';
+import {
+  DEFAULT_CAPS,
+  DEFAULT_SCORING_RULES,
+  GAME_TARGETS,
+  validateScoringRules,
+  type GameTarget,
+  type ScoringRules,
+} from './utils/scoring';
+import {
+  DEFAULT_TIEBREAKERS,
+  TIEBREAKER_LABELS,
+  type StandingsEntry,
+  type Tiebreaker,
+} from './utils/tiebreakers';
+import { calculateSettlement, formatSettlement } from './utils/settlement';
+import {
+  exportTournamentJSON,
+  gamesToCSV,
+  importTournamentJSON,
+  payoutsToCSV,
+  playerStatsToCSV,
+  teamStatsToCSV,
+} from './utils/tournamentExport';
+import {
+  addToRoster,
+  fillPlayerSlots,
+  loadRoster,
+  normalizeName,
+  parseNameList,
+  removeFromRoster,
+  validatePlayerNames,
+} from './utils/roster';
+import { updateURL, getStateFromURL, clearURLState, type TournamentState } from './utils/urlState';
+import { createNameLookup, createPlayers, formatTeam, resizePlayers, type Player } from './utils/players';
+import { analyzeSchedule, getGamesSpread, type PairCount } from './utils/scheduleAnalysis';
+import { searchScheduleInBackground } from './utils/scheduleSearch';
+import { createRandom, createRandomAt, createSeed, parseSeed } from './utils/random';
+import {
+  getActivePlayers,
+  getWithdrawalPayoutOptions,
+  substitutePlayer,
+  withdrawPlayer,
+  type Withdrawal,
+} from './utils/withdrawals';
+import {
+  createSessionId,
+  deleteSession,
+  duplicateSession,
+  loadSessions,
+  saveSession,
+  type SavedSession,
+} from './utils/history';
+import {
+  SEASON_RANKING_LABELS,
+  calculateSeasonStats,
+  createSeason,
+  deleteSeason,
+  exportSeasonJSON,
+  formatSeasonRankingValue,
+  loadSeasons,
+  rankSeasonPlayers,
+  saveSeason,
+  seasonStandingsToCSV,
+  type Season,
+  type SeasonRanking,
+} from './utils/season';
+import {
+  createUndoHistory,
+  recordChange,
+  redoChange,
+  undoChange,
+  type UndoHistory,
+} from './utils/undo';
+
+type Stage = 'input' | 'playing' | 'playoffs' | 'results';
 
-type Stage = 'input' | 'playing' | 'results';
+// Blank scoresheets for playing off paper, or the final results report
+type PrintView = 'scoresheets' | 'report';
+
+// Pages shown in place of the current tournament
+type Panel = 'history' | 'seasons';
 
 function App() {
+  const [sessionId, setSessionId] = useState<string>(createSessionId);
+  const [panel, setPanel] = useState<Panel | null>(null);
   const [stage, setStage] = useState<Stage>('input');
   const [format, setFormat] = useState<TournamentFormat>('8-player');
-  const [playerNames, setPlayerNames] = useState<string[]>(Array(8).fill(''));
-  const entryFee = 2; // Fixed entry fee of $2
+  const [players, setPlayers] = useState<Player[]>(() => createPlayers(Array(8).fill('')));
+  const [prizeConfig, setPrizeConfig] = useState<PrizeConfig>({
+    entryFee: DEFAULT_ENTRY_FEE,
+    split: DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+  });
+  const entryFee = prizeConfig.entryFee;
   const [rounds, setRounds] = useState<Round[]>([]);
   const [currentRound, setCurrentRound] = useState<number>(0);
   const [sideBets, setSideBets] = useState<SideBet[]>([]);
   const [customPairing, setCustomPairing] = useState<boolean>(false);
   const [customTeams, setCustomTeams] = useState<Array<[string, string]>>([]);
+  const [courtCount, setCourtCount] = useState<number>(getMaxCourts(8));
+  const [pairingMode, setPairingMode] = useState<DynamicPairingMode>('americano');
+  const [totalRounds, setTotalRounds] = useState<number>(getDefaultSocialRoundCount(8));
+  const [playoff, setPlayoff] = useState<PlayoffBracket | null>(null);
+  const [bracketSize, setBracketSize] = useState<BracketSize>(2);
+  const [balanceOpponents, setBalanceOpponents] = useState<boolean>(false);
+  const [searching, setSearching] = useState<boolean>(false);
+  // Left empty, a seed is picked when the schedule is drawn
+  const [drawSeed, setDrawSeed] = useState<number | undefined>(createSeed);
+  const [tiebreakers, setTiebreakers] = useState<Tiebreaker[]>(DEFAULT_TIEBREAKERS);
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [matchLength, setMatchLength] = useState<MatchLength>(1);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [playoffMatchLength, setPlayoffMatchLength] = useState<MatchLength>(1);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory<TournamentState>>(createUndoHistory);
+  const [printView, setPrintView] = useState<PrintView | null>(null);
+  const [roster, setRoster] = useState<string[]>(() => loadRoster());
+
+  // Games, stats and bets refer to players by id; names are for display
+  const playerNames = players.map(({ name }) => name);
+  const playerIds = players.map(({ id }) => id);
+  const nameOf = createNameLookup(players);
+  // Players still in the draw, after any withdrawals and substitutions
+  const activeIds = getActivePlayers(playerIds, withdrawals);
+  // Custom teams don't come from the seeded draw
+  const usesDrawSeed = format !== '12-player' || !customPairing;
+  // Draws made part-way through, like the next Americano round, follow on
+  // from the tournament's seed
+  const randomAt = (step: number) => (drawSeed === undefined ? Math.random : createRandomAt(drawSeed, step));
+
+  const tournamentState = useMemo((): TournamentState => ({
+    sessionId,
+    stage,
+    format,
+    players,
+    rounds,
+    currentRound,
+    sideBets,
+    customPairing,
+    customTeams,
+    courtCount,
+    pairingMode,
+    totalRounds,
+    playoff,
+    prizeConfig,
+    tiebreakers,
+    scoringRules,
+    matchLength,
+    withdrawals,
+    drawSeed,
+    balanceOpponents,
+  }), [sessionId, stage, format, players, rounds, currentRound, sideBets, customPairing, customTeams, courtCount, pairingMode, totalRounds, playoff, prizeConfig, tiebreakers, scoringRules, matchLength, withdrawals, drawSeed, balanceOpponents]);
+
+  // Call before any change that Undo should be able to reverse
+  const recordUndo = () => {
+    setUndoHistory((history) => recordChange(history, tournamentState));
+  };
 
   const handleFormatChange = (newFormat: TournamentFormat) => {
     setFormat(newFormat);
-    const playerCount = newFormat === '8-player' ? 8 : 12;
-    setPlayerNames(Array(playerCount).fill(''));
+    const playerCount = newFormat === '12-player' ? 12 : 8;
+    setPlayers(createPlayers(Array(playerCount).fill('')));
     setCustomPairing(false);
     setCustomTeams([]);
+    setCourtCount(getMaxCourts(playerCount));
+    setTotalRounds(getDefaultSocialRoundCount(playerCount));
+    setPrizeConfig({
+      entryFee,
+      split: newFormat === '12-player' ? DEFAULT_TEAM_PRIZE_SPLIT : DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+    });
+  };
+
+  const handlePlayerCountChange = (count: number) => {
+    // Keep names already typed in when growing or shrinking the list
+    setPlayers(resizePlayers(players, count));
+    setCustomTeams([]);
+    setCourtCount(getMaxCourts(count));
+    setTotalRounds(getDefaultSocialRoundCount(count));
   };
 
   const handlePlayerNameChange = (index: number, name: string) => {
-    const newNames = [...playerNames];
-    newNames[index] = name;
-    setPlayerNames(newNames);
+    setPlayers(players.map((player, i) => (i === index ? { ...player, name } : player)));
+  };
+
+  const fillPlayerNames = (names: string[]) => {
+    const { names: filled, overflow } = fillPlayerSlots(playerNames, names);
+    setPlayers(players.map((player, index) => ({ ...player, name: filled[index] })));
+    if (overflow.length > 0) {
+      alert(`No empty slots left for: ${overflow.join(', ')}`);
+    }
+  };
+
+  // Names can change mid-tournament; games, stats and bets keep pointing at
+  // the same player ids
+  const renamePlayers = (names: string[]) => {
+    recordUndo();
+    setPlayers(players.map((player, index) => ({ ...player, name: normalizeName(names[index]) })));
+    setRoster(addToRoster(names));
   };
 
   const startTournament = () => {
-    const expectedCount = format === '8-player' ? 8 : 12;
-    const filledNames = playerNames.filter((name) => name.trim() !== '');
+    const nameError = validatePlayerNames(playerNames);
+    if (nameError) {
+      alert(nameError);
+      return;
+    }
+
+    const prizeError = validatePrizeConfig(prizeConfig, playerNames.length, playersPerPlace);
+    if (prizeError) {
+      alert(prizeError);
+      return;
+    }
 
-    if (filledNames.length !== expectedCount) {
-      alert(`Please enter exactly ${expectedCount} player names`);
+    const scoringError = validateScoringRules(scoringRules);
+    if (scoringError) {
+      alert(scoringError);
       return;
     }
 
-    // For 12-player mode with custom pairing, validate teams
+    // For team mode with custom pairing, validate teams
     if (format === '12-player' && customPairing) {
-      if (customTeams.length !== 6) {
-        alert('Please create exactly 6 teams');
+      const teamCount = playerNames.length / 2;
+      if (customTeams.length !== teamCount) {
+        alert(`Please create exactly ${teamCount} teams`);
         return;
       }
 
@@ -65,123 +297,496 @@ function App() {
         assignedPlayers.add(team[1]);
       });
 
-      const allPlayers = playerNames.filter(name => name.trim() !== '');
-      if (assignedPlayers.size !== allPlayers.length) {
+      if (playerIds.some(id => !assignedPlayers.has(id))) {
         alert('All players must be assigned to a team');
         return;
       }
     }
 
-    const schedule = format === '8-player'
-      ? generateRoundRobinSchedule(playerNames)
-      : generate12PlayerSchedule(playerNames, customPairing ? customTeams : undefined);
-    setRounds(schedule);
-    setCurrentRound(0);
-    setStage('playing');
+    const seed = drawSeed ?? createSeed();
+    if (format === 'dynamic') {
+      // Only the first round is drawn up front; the rest follow as scores come in
+      const firstRound = generateDynamicRound(playerIds, [], pairingMode, createRandom(seed));
+      recordUndo();
+      setDrawSeed(seed);
+      setRoster(addToRoster(playerNames));
+      setRounds(scheduleCourts(withMatchLength([firstRound], matchLength), courtCount));
+      setCurrentRound(0);
+      setStage('playing');
+      return;
+    }
+
+    const begin = (schedule: Round[]) => {
+      recordUndo();
+      setDrawSeed(seed);
+      setRoster(addToRoster(playerNames));
+      setRounds(scheduleCourts(withMatchLength(schedule, matchLength), courtCount));
+      setCurrentRound(0);
+      setStage('playing');
+    };
+
+    if (format === '8-player' && balanceOpponents) {
+      // The search runs in a worker; keep the setup on screen until it's done
+      setSearching(true);
+      searchScheduleInBackground(playerIds, { seed })
+        .then((result) => {
+          begin(result.rounds);
+          if (result.timedOut) {
+            alert('The search ran out of time before finishing, so this seed may give a different schedule on another device.');
+          }
+        })
+        .catch((error: Error) => alert(`Could not generate a schedule: ${error.message}`))
+        .finally(() => setSearching(false));
+      return;
+    }
+
+    const random = createRandom(seed);
+    begin(format === '8-player'
+      ? generateRoundRobinSchedule(playerIds, getDefaultSocialRoundCount(playerIds.length), random)
+      : generateTeamSchedule(playerIds, customPairing ? customTeams : undefined, random));
   };
 
-  const setGameScore = (gameId: number, team1Score: number, team2Score: number) => {
-    setRounds((prevRounds) =>
-      prevRounds.map((round) => ({
+  const setGameScore = (gameId: number, scores: GameScore[]) => {
+    recordUndo();
+    setRounds((prevRounds) => {
+      const updatedRounds = prevRounds.map((round) => ({
         ...round,
         games: round.games.map((game) =>
-          game.id === gameId ? { ...game, team1Score, team2Score } : game
+          game.id === gameId ? setMatchScores(game, scores) : game
         ),
-      }))
-    );
+      }));
+
+      // Americano/Mexicano: draw the next round once every score is in
+      if (
+        format === 'dynamic' &&
+        areRoundsComplete(updatedRounds) &&
+        countDrawnRounds(activeIds.length, updatedRounds) < totalRounds
+      ) {
+        const nextRound = generateDynamicRound(
+          activeIds,
+          updatedRounds,
+          pairingMode,
+          randomAt(getNextGameId(updatedRounds))
+        );
+        const nextSlots = scheduleCourts(withMatchLength([nextRound], matchLength), courtCount).map((slot, index) => ({
+          ...slot,
+          roundNumber: updatedRounds.length + index + 1,
+        }));
+        return [...updatedRounds, ...nextSlots];
+      }
+
+      return updatedRounds;
+    });
   };
 
   const goToNextRound = () => {
     if (currentRound < rounds.length - 1) {
+      recordUndo();
       setCurrentRound(currentRound + 1);
     }
   };
 
   const goToPreviousRound = () => {
     if (currentRound > 0) {
+      recordUndo();
       setCurrentRound(currentRound - 1);
     }
   };
 
   const finishTournament = () => {
+    recordUndo();
     setStage('results');
   };
 
+  const backToRoundRobin = () => {
+    recordUndo();
+    setStage('playing');
+  };
+
+  // A player leaves part-way through and someone new takes over their
+  // remaining games
+  const substitute = (playerId: string, name: string) => {
+    const nameError = validatePlayerNames([...playerNames, name]);
+    if (nameError) {
+      alert(nameError);
+      return;
+    }
+
+    const [newPlayer] = createPlayers([normalizeName(name)], players);
+    const change = substitutePlayer(rounds, sideBets, playerId, newPlayer.id);
+    if (change.cancelledBets > 0 && !window.confirm(
+      `${change.cancelledBets} side bet${change.cancelledBets === 1 ? '' : 's'} on ${nameOf(playerId)}'s remaining games will be cancelled. Continue?`
+    )) {
+      return;
+    }
+
+    recordUndo();
+    setPlayers([...players, newPlayer]);
+    setRounds(change.rounds);
+    setSideBets(change.sideBets);
+    setWithdrawals([...withdrawals, { player: playerId, substitute: newPlayer.id }]);
+    setRoster(addToRoster([name]));
+  };
+
+  // A player leaves with no one to replace them; the games they hadn't
+  // started are redrawn for everyone else
+  const withdraw = (playerId: string) => {
+    let change;
+    try {
+      change = withdrawPlayer(rounds, sideBets, playerId, {
+        format,
+        players: activeIds,
+        pairingMode,
+        matchLength,
+        courtCount,
+        totalRounds,
+        random: randomAt(getNextGameId(rounds)),
+      });
+    } catch (error) {
+      alert((error as Error).message);
+      return;
+    }
+
+    const cancelled = change.cancelledBets > 0
+      ? ` ${change.cancelledBets} side bet${change.cancelledBets === 1 ? '' : 's'} on dropped games will be cancelled.`
+      : '';
+    if (!window.confirm(
+      `Withdraw ${nameOf(playerId)}? Their scored games stand, and the games still to play are redrawn for the other players.${cancelled}`
+    )) {
+      return;
+    }
+
+    recordUndo();
+    setRounds(change.rounds);
+    setSideBets(change.sideBets);
+    setTotalRounds(change.totalRounds);
+    setCurrentRound(Math.min(currentRound, change.rounds.length - 1));
+    setWithdrawals([...withdrawals, { player: playerId }]);
+  };
+
+  const startPlayoffs = () => {
+    recordUndo();
+    // Resume an existing bracket rather than reseeding it
+    if (!playoff) {
+      // Substitutes play on for the players they replaced, and anyone else
+      // who only played part of the tournament can't qualify
+      const { substitutes = {}, partialEntries = {} } = withdrawalOptions;
+      const stillPlaying = (player: string) =>
+        Object.keys(substitutes).find((id) => substitutes[id] === player && activeIds.includes(id)) ?? player;
+      const seeds = format === '12-player'
+        ? getTeamStandings(teamRounds, tiebreakers, scoringRules)
+            .slice(0, bracketSize)
+            .map(({ item: team }): [string, string] => [stillPlaying(team.players[0]), stillPlaying(team.players[1])])
+        : pairSeededPlayers(
+            getPlayerStandings(rounds, ranking, tiebreakers, scoringRules)
+              .map(({ item: [player] }) => player)
+              .filter((player) => !(player in partialEntries)),
+            bracketSize
+          );
+      setPlayoff(createBracket(seeds, getNextGameId(rounds), playoffMatchLength));
+    }
+    setStage('playoffs');
+  };
+
+  const setPlayoffGameScore = (gameId: number, scores: GameScore[]) => {
+    recordUndo();
+    setPlayoff((prevPlayoff) =>
+      prevPlayoff ? setPlayoffMatchScores(prevPlayoff, gameId, scores) : prevPlayoff
+    );
+  };
+
+  const cancelPlayoffs = () => {
+    const confirmed = window.confirm(
+      'Cancel the playoffs? Playoff scores will be lost and prizes will follow the round-robin standings.'
+    );
+
+    if (confirmed) {
+      recordUndo();
+      setPlayoff(null);
+      setStage('playing');
+    }
+  };
+
   const resetTournament = () => {
     const confirmed = window.confirm(
-      'Are you sure you want to reset the tournament? All progress, scores, and side bets will be lost.'
+      'Start a new tournament? This one stays in History, where you can reopen it.'
     );
 
     if (confirmed) {
-      const playerCount = format === '8-player' ? 8 : 12;
-      setPlayerNames(Array(playerCount).fill(''));
+      recordUndo();
+      setSessionId(createSessionId());
+      setPlayers(createPlayers(Array(players.length).fill('')));
       setRounds([]);
       setCurrentRound(0);
       setSideBets([]);
       setCustomPairing(false);
       setCustomTeams([]);
+      setPlayoff(null);
+      setWithdrawals([]);
+      setDrawSeed(createSeed());
       setStage('input');
       clearURLState();
     }
   };
 
+  const restoreState = useCallback((savedState: TournamentState) => {
+    setSessionId(savedState.sessionId ?? createSessionId());
+    setStage(savedState.stage);
+    setFormat(savedState.format ?? '8-player');
+    setPlayers(savedState.players);
+    setRounds(savedState.rounds);
+    setCurrentRound(savedState.currentRound);
+    setSideBets(savedState.sideBets);
+    setCustomPairing(savedState.customPairing ?? false);
+    setCustomTeams(savedState.customTeams ?? []);
+    setCourtCount(savedState.courtCount ?? getMaxCourts(savedState.players.length));
+    setPairingMode(savedState.pairingMode ?? 'americano');
+    setTotalRounds(savedState.totalRounds ?? getDefaultSocialRoundCount(savedState.players.length));
+    setPlayoff(savedState.playoff ?? null);
+    if (savedState.prizeConfig) setPrizeConfig(savedState.prizeConfig);
+    setTiebreakers(savedState.tiebreakers ?? DEFAULT_TIEBREAKERS);
+    setScoringRules(savedState.scoringRules ?? DEFAULT_SCORING_RULES);
+    setMatchLength(savedState.matchLength ?? 1);
+    setWithdrawals(savedState.withdrawals ?? []);
+    setDrawSeed(savedState.drawSeed);
+    setBalanceOpponents(savedState.balanceOpponents ?? false);
+  }, []);
+
   // Load state from URL on mount
   useEffect(() => {
-    const urlState = getStateFromURL();
-    if (urlState) {
-      setStage(urlState.stage);
-      if (urlState.format) setFormat(urlState.format);
-      setPlayerNames(urlState.playerNames);
-      setRounds(urlState.rounds);
-      setCurrentRound(urlState.currentRound);
-      setSideBets(urlState.sideBets);
-      if (urlState.customPairing !== undefined) setCustomPairing(urlState.customPairing);
-      if (urlState.customTeams) setCustomTeams(urlState.customTeams);
+    try {
+      const urlState = getStateFromURL();
+      if (urlState) {
+        restoreState(urlState);
+      }
+    } catch (error) {
+      alert(`This tournament link can't be opened: ${(error as Error).message}`);
     }
-  }, []);
+  }, [restoreState]);
+
+  const reopenSession = (session: SavedSession) => {
+    restoreState({ ...session.state, sessionId: session.id });
+    setUndoHistory(createUndoHistory());
+    setPanel(null);
+  };
+
+  // Imported files become a new session, so they never overwrite the
+  // history entry they were exported from
+  const importTournament = (importedState: TournamentState) => {
+    restoreState({ ...importedState, sessionId: createSessionId() });
+    setUndoHistory(createUndoHistory());
+    setPanel(null);
+  };
 
-  // Sync state to URL whenever it changes
+  // Sync state to the URL and the local history whenever it changes
   useEffect(() => {
-    if (stage !== 'input' || playerNames.some(name => name.trim() !== '')) {
-      updateURL({
-        stage,
-        format,
-        playerNames,
-        rounds,
-        currentRound,
-        sideBets,
-        customPairing,
-        customTeams,
-      });
+    const { sessionId: id, stage: currentStage, players: currentPlayers } = tournamentState;
+    if (id && (currentStage !== 'input' || currentPlayers.some(({ name }) => name.trim() !== ''))) {
+      updateURL(tournamentState);
+      saveSession(id, tournamentState);
+    }
+  }, [tournamentState]);
+
+  const undo = () => {
+    const step = undoChange(undoHistory, tournamentState);
+    if (step) {
+      restoreState(step.state);
+      setUndoHistory(step.history);
+    }
+  };
+
+  const redo = () => {
+    const step = redoChange(undoHistory, tournamentState);
+    if (step) {
+      restoreState(step.state);
+      setUndoHistory(step.history);
     }
-  }, [stage, format, playerNames, rounds, currentRound, sideBets, customPairing, customTeams]);
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields
+  // keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   const addSideBet = (sideBet: SideBet) => {
+    recordUndo();
     setSideBets([...sideBets, sideBet]);
   };
 
   const updateSideBet = (id: number, winner: 1 | 2) => {
+    recordUndo();
     setSideBets(sideBets.map(bet =>
       bet.id === id ? { ...bet, winner } : bet
     ));
   };
 
   const deleteSideBet = (id: number) => {
+    recordUndo();
     setSideBets(sideBets.filter(bet => bet.id !== id));
   };
 
-  const allGamesCompleted = rounds.every((round) =>
-    round.games.every((game) => game.team1Score !== undefined && game.team2Score !== undefined)
-  );
+  const allGamesCompleted = areRoundsComplete(rounds) &&
+    (format !== 'dynamic' || countDrawnRounds(activeIds.length, rounds) >= totalRounds);
+
+  const ranking: PlayerRanking = format === 'dynamic' ? 'most-points-scored' : 'fewest-points-lost';
+  const playersPerPlace = format === '12-player' ? 2 : 1;
+
+  const withdrawalOptions = getWithdrawalPayoutOptions(format, rounds, withdrawals);
+  // Team standings credit each substitute's games to the player they replaced
+  const teamRounds = mergeSubstitutes(rounds, withdrawalOptions.substitutes ?? {});
+
+  // Semifinals need 4 teams, which takes 8 players in every format
+  const playoffEntrants = format === '12-player'
+    ? activeIds.length
+    : playerIds.filter((id) => !(id in (withdrawalOptions.partialEntries ?? {}))).length;
+  const canPlaySemifinals = playoffEntrants >= 8;
+  const playoffPlacement = playoff ? getPlayoffPlacement(playoff) ?? undefined : undefined;
+  const payoutOptions = {
+    prizeSplit: prizeConfig.split,
+    ranking,
+    placement: playoffPlacement,
+    tiebreakers,
+    scoringRules,
+    ...withdrawalOptions,
+  };
+
+  if (printView) {
+    return (
+      <div className="print-view">
+        <div className="print-toolbar">
+          <button onClick={() => window.print()}>Print</button>
+          <button onClick={() => setPrintView(null)}>Close</button>
+        </div>
+
+        {printView === 'scoresheets' ? (
+          <ScoreSheets rounds={rounds} nameOf={nameOf} />
+        ) : (
+          <div className="print-report">
+            <h1>Tournament Results</h1>
+            <p className="print-date">{new Date().toLocaleDateString()}</p>
+
+            {playoff && getPlayoffPlacement(playoff) && (
+              <section>
+                <h3>Playoff Results</h3>
+                <PlayoffResults placement={getPlayoffPlacement(playoff)!} nameOf={nameOf} />
+              </section>
+            )}
+
+            <section>
+              <h3>{format === '12-player' ? 'Team Standings' : 'Player Statistics'}</h3>
+              {format === '12-player' ? (
+                <TeamStatsTable rounds={teamRounds} tiebreakers={tiebreakers} scoringRules={scoringRules} nameOf={nameOf} />
+              ) : (
+                <StatsTable
+                  rounds={rounds}
+                  ranking={ranking}
+                  tiebreakers={tiebreakers}
+                  scoringRules={scoringRules}
+                  nameOf={nameOf}
+                />
+              )}
+              <p className="tiebreak-chain">{describeTiebreakers(tiebreakers)}</p>
+            </section>
+
+            {sideBets.length > 0 && (
+              <section>
+                <h3>Side Bets</h3>
+                <SideBetSummary sideBets={sideBets} rounds={rounds} nameOf={nameOf} />
+              </section>
+            )}
+
+            <section>
+              <h3>Payment Calculation</h3>
+              <p className="wager-reminder">Entry Fee: ${entryFee} per player</p>
+              <PayoutsTable
+                rounds={rounds}
+                prizeConfig={prizeConfig}
+                sideBets={sideBets}
+                format={format}
+                ranking={ranking}
+                placement={playoffPlacement}
+                tiebreakers={tiebreakers}
+                scoringRules={scoringRules}
+                partialEntries={withdrawalOptions.partialEntries}
+                substitutes={withdrawalOptions.substitutes}
+                nameOf={nameOf}
+              />
+            </section>
+
+            <section>
+              <h3>Who Pays Whom</h3>
+              <SettlementPlan
+                payouts={format === '12-player'
+                  ? calculate12PlayerPayoutsWithSideBets(rounds, entryFee, sideBets, payoutOptions)
+                  : calculatePayoutsWithSideBets(rounds, entryFee, sideBets, payoutOptions)}
+                nameOf={nameOf}
+              />
+            </section>
+          </div>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div className="app">
       <header>
         <h1>🏸 Badminton Match Maker</h1>
         <p>Round-robin doubles tournament with payment calculation</p>
+        <div className="header-actions">
+          <button
+            className="history-button"
+            onClick={undo}
+            disabled={undoHistory.past.length === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="history-button"
+            onClick={redo}
+            disabled={undoHistory.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷ Redo
+          </button>
+          <button className="history-button" onClick={() => setPanel(panel === 'history' ? null : 'history')}>
+            {panel === 'history' ? 'Back to Tournament' : 'History'}
+          </button>
+          <button className="history-button" onClick={() => setPanel(panel === 'seasons' ? null : 'seasons')}>
+            {panel === 'seasons' ? 'Back to Tournament' : 'Seasons'}
+          </button>
+        </div>
       </header>
 
-      {stage === 'input' && (
+      {panel === 'history' && (
+        <SessionHistory
+          currentSessionId={sessionId}
+          onReopen={reopenSession}
+          onImport={importTournament}
+        />
+      )}
+
+      {panel === 'seasons' && <SeasonManager />}
+
+      {!panel && stage === 'input' && (
         <div className="input-stage">
           <div className="format-selection">
             <h2>Select Tournament Format</h2>
@@ -190,20 +795,161 @@ function App() {
                 className={`format-button ${format === '8-player' ? 'active' : ''}`}
                 onClick={() => handleFormatChange('8-player')}
               >
-                8 Players (Social Doubles)
+                Social Doubles (4–16 Players)
               </button>
               <button
                 className={`format-button ${format === '12-player' ? 'active' : ''}`}
                 onClick={() => handleFormatChange('12-player')}
               >
-                12 Players (Team Round-Robin)
+                Team Round-Robin (4–16 Players)
+              </button>
+              <button
+                className={`format-button ${format === 'dynamic' ? 'active' : ''}`}
+                onClick={() => handleFormatChange('dynamic')}
+              >
+                Americano / Mexicano
               </button>
             </div>
             <p className="format-description">
               {format === '8-player'
-                ? 'Each player partners with every other player exactly once across 7 rounds.'
-                : 'Players are randomly paired into 6 teams. Each team plays all other teams once across 5 rounds.'}
+                ? describeSocialFormat(playerNames.length)
+                : format === '12-player'
+                  ? describeTeamFormat(playerNames.length / 2)
+                  : describeDynamicFormat(pairingMode)}
             </p>
+            {format === '8-player' && (
+              <div className="player-count-row">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={balanceOpponents}
+                    onChange={(e) => setBalanceOpponents(e.target.checked)}
+                  />
+                  Balance opponents (takes a few seconds)
+                </label>
+              </div>
+            )}
+            {format === 'dynamic' && (
+              <>
+                <div className="format-buttons pairing-mode-buttons">
+                  <button
+                    className={`format-button ${pairingMode === 'americano' ? 'active' : ''}`}
+                    onClick={() => setPairingMode('americano')}
+                  >
+                    Americano
+                  </button>
+                  <button
+                    className={`format-button ${pairingMode === 'mexicano' ? 'active' : ''}`}
+                    onClick={() => setPairingMode('mexicano')}
+                  >
+                    Mexicano
+                  </button>
+                </div>
+                <div className="player-count-row">
+                  <label htmlFor="total-rounds">Number of rounds:</label>
+                  <input
+                    id="total-rounds"
+                    type="number"
+                    min="1"
+                    value={totalRounds}
+                    onChange={(e) => setTotalRounds(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+              </>
+            )}
+            <div className="player-count-row">
+              <label htmlFor="player-count">Number of players:</label>
+              <select
+                id="player-count"
+                value={playerNames.length}
+                onChange={(e) => handlePlayerCountChange(parseInt(e.target.value))}
+              >
+                {getPlayerCountOptions(format).map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+            <div className="player-count-row">
+              <label htmlFor="court-count">Courts available:</label>
+              <select
+                id="court-count"
+                value={courtCount}
+                onChange={(e) => setCourtCount(parseInt(e.target.value))}
+              >
+                {Array.from({ length: getMaxCourts(playerNames.length) }, (_, i) => i + 1).map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+            <div className="player-count-row">
+              <label htmlFor="game-target">Games to:</label>
+              <select
+                id="game-target"
+                value={scoringRules.target}
+                onChange={(e) => {
+                  const target = parseInt(e.target.value) as GameTarget;
+                  setScoringRules({ ...scoringRules, target, cap: DEFAULT_CAPS[target] });
+                }}
+              >
+                {GAME_TARGETS.map((target) => (
+                  <option key={target} value={target}>{target} points</option>
+                ))}
+              </select>
+            </div>
+            <div className="player-count-row">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={scoringRules.winByTwo}
+                  onChange={(e) => setScoringRules({ ...scoringRules, winByTwo: e.target.checked })}
+                />
+                Win by 2
+              </label>
+              {scoringRules.winByTwo && (
+                <>
+                  <label htmlFor="score-cap">capped at</label>
+                  <input
+                    id="score-cap"
+                    type="number"
+                    min={scoringRules.target}
+                    value={scoringRules.cap}
+                    onChange={(e) => setScoringRules({ ...scoringRules, cap: parseInt(e.target.value) || 0 })}
+                  />
+                </>
+              )}
+            </div>
+            <div className="player-count-row">
+              <label htmlFor="match-length">Matches:</label>
+              <select
+                id="match-length"
+                value={matchLength}
+                onChange={(e) => setMatchLength(parseInt(e.target.value) as MatchLength)}
+              >
+                <option value={1}>Single game</option>
+                <option value={3}>Best of three</option>
+              </select>
+            </div>
+            {usesDrawSeed && (
+              <div className="player-count-row">
+                <label htmlFor="draw-seed">Draw seed:</label>
+                <input
+                  id="draw-seed"
+                  type="text"
+                  inputMode="numeric"
+                  value={drawSeed ?? ''}
+                  placeholder="Random"
+                  onChange={(e) => {
+                    // Anything but a whole number in range is ignored
+                    const seed = parseSeed(e.target.value);
+                    if (e.target.value.trim() === '') setDrawSeed(undefined);
+                    else if (seed !== null) setDrawSeed(seed);
+                  }}
+                />
+                <button className="add-sidebet-button" onClick={() => setDrawSeed(createSeed())}>
+                  Re-roll
+                </button>
+              </div>
+            )}
           </div>
 
           <div className="player-inputs">
@@ -217,10 +963,22 @@ function App() {
                     value={name}
                     onChange={(e) => handlePlayerNameChange(index, e.target.value)}
                     placeholder={`Player ${index + 1}`}
+                    list="roster-names"
                   />
                 </div>
               ))}
             </div>
+            <datalist id="roster-names">
+              {roster.map((rosterName) => (
+                <option key={rosterName} value={rosterName} />
+              ))}
+            </datalist>
+            <RosterPicker
+              roster={roster}
+              playerNames={playerNames}
+              onFill={fillPlayerNames}
+              onRemove={(rosterName) => setRoster(removeFromRoster(rosterName))}
+            />
           </div>
 
           {format === '12-player' && (
@@ -246,7 +1004,8 @@ function App() {
               )}
               {customPairing && (
                 <CustomPairingInterface
-                  playerNames={playerNames.filter(name => name.trim() !== '')}
+                  players={players.filter(({ name }) => name.trim() !== '')}
+                  teamCount={playerNames.length / 2}
                   customTeams={customTeams}
                   onTeamsChange={setCustomTeams}
                 />
@@ -256,84 +1015,146 @@ function App() {
 
           <div className="wager-input">
             <h2>Prize Pool</h2>
-            <div className="prize-info">
-              <div className="prize-row">
-                <span>Entry Fee:</span>
-                <strong>${entryFee} per player</strong>
-              </div>
-              <div className="prize-row">
-                <span>Total Pool:</span>
-                <strong>${entryFee * playerNames.length}</strong>
-              </div>
-            </div>
-            <div className="prize-distribution">
-              <h3>Prize Distribution</h3>
-              {format === '8-player' ? (
-                <ul>
-                  <li>🥇 1st Place: <strong>$8</strong></li>
-                  <li>🥈 2nd Place: <strong>$6</strong></li>
-                  <li>🥉 3rd Place: <strong>$2</strong></li>
-                </ul>
-              ) : (
-                <ul>
-                  <li>🥇 1st Place Team: <strong>$6 each</strong> (total $12)</li>
-                  <li>🥈 2nd Place Team: <strong>$4 each</strong> (total $8)</li>
-                  <li>🥉 3rd Place Team: <strong>$2 each</strong> (total $4)</li>
-                </ul>
-              )}
-            </div>
+            <PrizeSetup
+              config={prizeConfig}
+              playerCount={playerNames.length}
+              playersPerPlace={playersPerPlace}
+              onChange={setPrizeConfig}
+            />
             <p className="wager-info">
               {format === '8-player'
                 ? 'Winner is determined by fewest points lost across all games.'
-                : 'Teams are ranked by wins, then by point differential.'}
+                : format === '12-player'
+                  ? 'Teams are ranked by wins.'
+                  : 'Winner is determined by most points scored across all games.'}
             </p>
+            <TiebreakerSetup tiebreakers={tiebreakers} onChange={setTiebreakers} />
           </div>
 
-          <button className="start-button" onClick={startTournament}>
-            Generate Tournament
+          <button className="start-button" onClick={startTournament} disabled={searching}>
+            {searching ? 'Searching for a balanced schedule…' : 'Generate Tournament'}
           </button>
         </div>
       )}
 
-      {stage === 'playing' && (
+      {!panel && stage === 'playing' && (
         <div className="playing-stage">
           <div className="tournament-header">
             <h2>
-              Round {currentRound + 1} of {rounds.length}
+              Slot {currentRound + 1} of {rounds.length}
             </h2>
+            {usesDrawSeed && drawSeed !== undefined && (
+              <p className="draw-seed">
+                Draw seed: <strong>{drawSeed}</strong>
+                {format === '8-player' && balanceOpponents && ' (balanced opponents)'}
+              </p>
+            )}
             <div className="round-navigation">
               <button onClick={goToPreviousRound} disabled={currentRound === 0}>
-                ← Previous Round
+                ← Previous Slot
               </button>
               <button
                 onClick={goToNextRound}
                 disabled={currentRound === rounds.length - 1}
               >
-                Next Round →
+                Next Slot →
               </button>
             </div>
           </div>
 
+          {rounds[currentRound]?.byes && rounds[currentRound].byes.length > 0 && (
+            <p className="byes-notice">
+              Sitting out: <strong>{rounds[currentRound].byes.map(nameOf).join(', ')}</strong>
+            </p>
+          )}
+
           <div className="games-container">
             {rounds[currentRound]?.games.map((game) => (
               <GameCard
-                key={game.id}
+                key={getGameCardKey(game)}
                 game={game}
-                onSetScore={(team1Score, team2Score) => setGameScore(game.id, team1Score, team2Score)}
+                scoringRules={scoringRules}
+                nameOf={nameOf}
+                onSetScore={(scores) => setGameScore(game.id, scores)}
               />
             ))}
           </div>
 
+          <div className="sidebets-container">
+            <h3>Side Bets</h3>
+            <SideBetsManager
+              players={players}
+              nameOf={nameOf}
+              rounds={rounds}
+              sideBets={sideBets}
+              onAddSideBet={addSideBet}
+              onUpdateSideBet={updateSideBet}
+              onDeleteSideBet={deleteSideBet}
+            />
+          </div>
+
+          <div className="sidebets-container">
+            <h3>Players</h3>
+            <PlayerNamesEditor players={players} onRename={renamePlayers} />
+            <PlayerChanges
+              players={players.filter(({ id }) => activeIds.includes(id))}
+              withdrawals={withdrawals}
+              canWithdraw={format !== '12-player'}
+              nameOf={nameOf}
+              onSubstitute={substitute}
+              onWithdraw={withdraw}
+            />
+          </div>
+
+          <div className="sidebets-container">
+            <h3>Schedule Fairness</h3>
+            <FairnessPanel rounds={rounds} players={playerIds} nameOf={nameOf} />
+          </div>
+
           <div className="tournament-actions">
+            {format === 'dynamic' && (
+              <p className="completion-notice">
+                Round {Math.min(countDrawnRounds(activeIds.length, rounds), totalRounds)} of {totalRounds} drawn.
+                {' '}The next round is drawn once every score is in.
+              </p>
+            )}
             {allGamesCompleted ? (
-              <button className="finish-button" onClick={finishTournament}>
-                View Results & Payouts
-              </button>
+              <>
+                <button className="finish-button" onClick={finishTournament}>
+                  View Results & Payouts
+                </button>
+                <div className="playoff-start">
+                  {!playoff && (
+                    <select
+                      value={bracketSize}
+                      onChange={(e) => setBracketSize(parseInt(e.target.value) as BracketSize)}
+                    >
+                      <option value={2}>Final only</option>
+                      {canPlaySemifinals && <option value={4}>Semifinals + Final</option>}
+                    </select>
+                  )}
+                  {!playoff && (
+                    <select
+                      value={playoffMatchLength}
+                      onChange={(e) => setPlayoffMatchLength(parseInt(e.target.value) as MatchLength)}
+                    >
+                      <option value={1}>Single game</option>
+                      <option value={3}>Best of three</option>
+                    </select>
+                  )}
+                  <button className="finish-button" onClick={startPlayoffs}>
+                    {playoff ? 'Resume Playoffs' : 'Start Playoffs'}
+                  </button>
+                </div>
+              </>
             ) : (
               <p className="completion-notice">
                 Complete all games to view final results
               </p>
             )}
+            <button className="reset-button" onClick={() => setPrintView('scoresheets')}>
+              Print Scoresheets
+            </button>
             <button className="reset-button" onClick={resetTournament}>
               Reset Tournament
             </button>
@@ -341,23 +1162,97 @@ function App() {
         </div>
       )}
 
-      {stage === 'results' && (
+      {!panel && stage === 'playoffs' && playoff && (
+        <div className="playing-stage">
+          <div className="tournament-header">
+            <h2>Playoffs</h2>
+            <p className="playoff-info">
+              {format === '12-player'
+                ? 'Top teams seeded from the round-robin standings.'
+                : 'New pairs formed from the standings, best with worst.'}
+            </p>
+          </div>
+
+          {(['semifinal', 'final'] as const).map((playoffStage) => {
+            const stageGames = playoff.games.filter((game) => game.stage === playoffStage);
+            if (stageGames.length === 0) return null;
+            return (
+              <div key={playoffStage} className="playoff-round">
+                <h3>{playoffStage === 'final' ? 'Final' : 'Semifinals'}</h3>
+                <div className="games-container">
+                  {stageGames.map((game) => (
+                    <GameCard
+                      key={`${getGameCardKey(game)}-${game.team1.join()}-${game.team2.join()}`}
+                      game={game}
+                      scoringRules={scoringRules}
+                      nameOf={nameOf}
+                      onSetScore={(scores) => setPlayoffGameScore(game.id, scores)}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="tournament-actions">
+            {playoffPlacement ? (
+              <button className="finish-button" onClick={finishTournament}>
+                View Results & Payouts
+              </button>
+            ) : (
+              <p className="completion-notice">
+                Complete the final to view playoff results
+              </p>
+            )}
+            <button className="reset-button" onClick={backToRoundRobin}>
+              ← Back to Round Robin
+            </button>
+            <button className="reset-button" onClick={cancelPlayoffs}>
+              Cancel Playoffs
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!panel && stage === 'results' && (
         <div className="results-stage">
           <h2>Tournament Results</h2>
+          {usesDrawSeed && drawSeed !== undefined && (
+            <p className="draw-seed">
+              Draw seed: <strong>{drawSeed}</strong>
+              {format === '8-player' && balanceOpponents && ' (balanced opponents)'}
+            </p>
+          )}
+
+          {playoff && getPlayoffPlacement(playoff) && (
+            <div className="stats-container">
+              <h3>Playoff Results</h3>
+              <PlayoffResults placement={getPlayoffPlacement(playoff)!} nameOf={nameOf} />
+            </div>
+          )}
 
           <div className="stats-container">
-            <h3>{format === '8-player' ? 'Player Statistics' : 'Team Standings'}</h3>
-            {format === '8-player' ? (
-              <StatsTable rounds={rounds} />
+            <h3>{format === '12-player' ? 'Team Standings' : 'Player Statistics'}</h3>
+            {format === '12-player' ? (
+              <TeamStatsTable rounds={teamRounds} tiebreakers={tiebreakers} scoringRules={scoringRules} nameOf={nameOf} />
             ) : (
-              <TeamStatsTable rounds={rounds} />
+              <StatsTable
+                rounds={rounds}
+                ranking={ranking}
+                tiebreakers={tiebreakers}
+                scoringRules={scoringRules}
+                nameOf={nameOf}
+              />
             )}
+            <p className="tiebreak-chain">{describeTiebreakers(tiebreakers)}</p>
           </div>
 
           <div className="sidebets-container">
             <h3>Side Bets</h3>
             <SideBetsManager
-              playerNames={playerNames}
+              players={players}
+              nameOf={nameOf}
+              rounds={rounds}
               sideBets={sideBets}
               onAddSideBet={addSideBet}
               onUpdateSideBet={updateSideBet}
@@ -365,63 +1260,205 @@ function App() {
             />
           </div>
 
+          <div className="sidebets-container">
+            <h3>Players</h3>
+            <PlayerNamesEditor players={players} onRename={renamePlayers} />
+          </div>
+
           <div className="payouts-container">
             <h3>Payment Calculation</h3>
             <p className="wager-reminder">Entry Fee: ${entryFee} per player</p>
-            <PayoutsTable rounds={rounds} entryFee={entryFee} sideBets={sideBets} format={format} />
+            <PayoutsTable
+              rounds={rounds}
+              prizeConfig={prizeConfig}
+              sideBets={sideBets}
+              format={format}
+              ranking={ranking}
+              placement={playoffPlacement}
+              tiebreakers={tiebreakers}
+              scoringRules={scoringRules}
+              partialEntries={withdrawalOptions.partialEntries}
+              substitutes={withdrawalOptions.substitutes}
+              nameOf={nameOf}
+            />
           </div>
 
-          <button className="reset-button" onClick={resetTournament}>
-            New Tournament
-          </button>
-        </div>
+          <div className="payouts-container">
+            <h3>Who Pays Whom</h3>
+            <SettlementPlan
+              payouts={format === '12-player'
+                ? calculate12PlayerPayoutsWithSideBets(rounds, entryFee, sideBets, payoutOptions)
+                : calculatePayoutsWithSideBets(rounds, entryFee, sideBets, payoutOptions)}
+              nameOf={nameOf}
+            />
+          </div>
+
+          <div className="payouts-container">
+            <h3>Export</h3>
+            <div className="export-buttons">
+              <button onClick={() => downloadFile('tournament.json', exportTournamentJSON(tournamentState), 'application/json')}>
+                Tournament (JSON)
+              </button>
+              <button onClick={() => downloadFile('games.csv', gamesToCSV(rounds, players, playoff), 'text/csv')}>
+                Games (CSV)
+              </button>
+              <button
+                onClick={() =>
+                  downloadFile(
+                    'standings.csv',
+                    format === '12-player'
+                      ? teamStatsToCSV(teamRounds, players, tiebreakers, scoringRules)
+                      : playerStatsToCSV(rounds, players, ranking, tiebreakers, scoringRules),
+                    'text/csv'
+                  )
+                }
+              >
+                {format === '12-player' ? 'Team Stats (CSV)' : 'Player Stats (CSV)'}
+              </button>
+              <button
+                onClick={() =>
+                  downloadFile('payouts.csv', payoutsToCSV(rounds, players, entryFee, sideBets, format, payoutOptions), 'text/csv')
+                }
+              >
+                Payouts (CSV)
+              </button>
+            </div>
+          </div>
+
+          <button className="reset-button" onClick={() => setPrintView('report')}>
+            Print Results Report
+          </button>
+          <button className="reset-button" onClick={resetTournament}>
+            New Tournament
+          </button>
+        </div>
       )}
     </div>
   );
 }
 
+function describeSocialFormat(playerCount: number): string {
+  if (playerCount === 8) {
+    return 'Each player partners with every other player exactly once across 7 rounds.';
+  }
+
+  const byes = playerCount % 4;
+  const roundCount = getDefaultSocialRoundCount(playerCount);
+  const sitOuts = (roundCount * byes) / playerCount;
+  const byeText = byes > 0
+    ? ` ${byes} player${byes === 1 ? '' : 's'} sit${byes === 1 ? 's' : ''} out each round; everyone sits out ${sitOuts} round${sitOuts === 1 ? '' : 's'} and plays ${roundCount - sitOuts} games.`
+    : '';
+  return `Partners rotate every round across ${roundCount} rounds, keeping repeat partners and opponents to a minimum.${byeText}`;
+}
+
+function describeTeamFormat(teamCount: number): string {
+  const roundCount = teamCount % 2 === 0 ? teamCount - 1 : teamCount;
+  const byeText = teamCount % 2 === 1 ? ' One team sits out each round.' : '';
+  return `Players are randomly paired into ${teamCount} teams. Each team plays all other teams once across ${roundCount} rounds.${byeText}`;
+}
+
+function describeDynamicFormat(mode: DynamicPairingMode): string {
+  return mode === 'americano'
+    ? 'Partners rotate on a fixed pattern and players are ranked individually by total points scored.'
+    : 'Each round is drawn from the standings: on every court 1st + 4th play 2nd + 3rd. Ranked by total points scored.';
+}
+
+function getPlayerCountOptions(format: TournamentFormat): number[] {
+  if (format !== '12-player') {
+    return Array.from(
+      { length: MAX_SOCIAL_PLAYERS - MIN_SOCIAL_PLAYERS + 1 },
+      (_, i) => MIN_SOCIAL_PLAYERS + i
+    );
+  }
+  return Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => (MIN_TEAMS + i) * 2);
+}
+
+// GameCard copies the scores into its inputs when it mounts, so it's keyed
+// on the scores too; undo and redo then reset the inputs to the restored score
+function getGameCardKey(game: Game): string {
+  const scores = getGameScores(game).map(({ team1Score, team2Score }) => `${team1Score}:${team2Score}`);
+  return `${game.id}-${scores.join(',')}`;
+}
+
 function GameCard({
   game,
+  scoringRules,
+  nameOf,
   onSetScore,
 }: {
   game: Game;
-  onSetScore: (team1Score: number, team2Score: number) => void;
+  scoringRules: ScoringRules;
+  nameOf: (id: string) => string;
+  onSetScore: (scores: GameScore[]) => void;
 }) {
-  const [team1Input, setTeam1Input] = useState<string>(game.team1Score?.toString() || '');
-  const [team2Input, setTeam2Input] = useState<string>(game.team2Score?.toString() || '');
+  const matchLength: MatchLength = game.bestOf ?? 1;
+  const [inputs, setInputs] = useState<Array<[string, string]>>(() => {
+    const scores = getGameScores(game);
+    return Array.from({ length: matchLength }, (_, index) => [
+      scores[index]?.team1Score.toString() ?? '',
+      scores[index]?.team2Score.toString() ?? '',
+    ]);
+  });
+
+  const setInput = (gameIndex: number, team: 0 | 1, value: string) => {
+    setInputs(inputs.map((pair, index) => {
+      if (index !== gameIndex) return pair;
+      const updated: [string, string] = [...pair];
+      updated[team] = value;
+      return updated;
+    }));
+  };
 
   const handleScoreSubmit = () => {
-    const score1 = parseInt(team1Input);
-    const score2 = parseInt(team2Input);
+    const scores: GameScore[] = [];
+    for (const [index, [team1Input, team2Input]] of inputs.entries()) {
+      if (team1Input.trim() === '' && team2Input.trim() === '') continue;
+      if (team1Input.trim() === '' || team2Input.trim() === '') {
+        alert(matchLength === 1 ? 'Please enter a score for both teams' : `Please enter both scores for game ${index + 1}`);
+        return;
+      }
+      scores.push({ team1Score: Number(team1Input), team2Score: Number(team2Input) });
+    }
 
-    if (!isNaN(score1) && !isNaN(score2) && score1 >= 0 && score2 >= 0) {
-      onSetScore(score1, score2);
-    } else {
-      alert('Please enter valid scores (non-negative numbers)');
+    const scoreError = validateMatchScores(scores, matchLength, scoringRules);
+    if (scoreError) {
+      alert(scoreError);
+      return;
     }
+    onSetScore(scores);
   };
 
-  const isCompleted = game.team1Score !== undefined && game.team2Score !== undefined;
-  const team1Won = game.team1Score !== undefined && game.team2Score !== undefined && game.team1Score > game.team2Score;
-  const team2Won = game.team1Score !== undefined && game.team2Score !== undefined && game.team2Score > game.team1Score;
+  const result = getMatchResult(game);
+  const isCompleted = result !== null;
+  const team1Won = result?.winner === 1;
+  const team2Won = result?.winner === 2;
+
+  const renderScoreFields = (team: 0 | 1) => inputs.map((pair, index) => (
+    <input
+      key={index}
+      type="number"
+      className="score-field"
+      value={pair[team]}
+      onChange={(e) => setInput(index, team, e.target.value)}
+      placeholder={matchLength === 1 ? 'Score' : `Game ${index + 1}`}
+      min="0"
+    />
+  ));
 
   return (
     <div className={`game-card ${isCompleted ? 'completed' : ''}`}>
-      <h3>Game {game.id}</h3>
+      <h3>
+        Game {game.id}
+        {matchLength === 3 && <span className="match-length-label">Best of 3</span>}
+        {game.court !== undefined && <span className="court-label">Court {game.court}</span>}
+      </h3>
       <div className="teams">
         <div className={`team score-input ${team1Won ? 'winner' : team2Won ? 'loser' : ''}`}>
           <div className="team-label">Team 1</div>
           <div className="player-names">
-            {game.team1[0]} & {game.team1[1]}
+            {formatTeam(game.team1, nameOf)}
           </div>
-          <input
-            type="number"
-            className="score-field"
-            value={team1Input}
-            onChange={(e) => setTeam1Input(e.target.value)}
-            placeholder="Score"
-            min="0"
-          />
+          {renderScoreFields(0)}
           {team1Won && <div className="winner-badge">✓ Winner</div>}
         </div>
 
@@ -430,19 +1467,17 @@ function GameCard({
         <div className={`team score-input ${team2Won ? 'winner' : team1Won ? 'loser' : ''}`}>
           <div className="team-label">Team 2</div>
           <div className="player-names">
-            {game.team2[0]} & {game.team2[1]}
+            {formatTeam(game.team2, nameOf)}
           </div>
-          <input
-            type="number"
-            className="score-field"
-            value={team2Input}
-            onChange={(e) => setTeam2Input(e.target.value)}
-            placeholder="Score"
-            min="0"
-          />
+          {renderScoreFields(1)}
           {team2Won && <div className="winner-badge">✓ Winner</div>}
         </div>
       </div>
+      {result && matchLength === 3 && (
+        <p className="match-summary">
+          Games {result.team1Games}–{result.team2Games} · Points {result.team1Points}–{result.team2Points}
+        </p>
+      )}
       <button className="submit-score-button" onClick={handleScoreSubmit}>
         {isCompleted ? 'Update Score' : 'Submit Score'}
       </button>
@@ -450,13 +1485,24 @@ function GameCard({
   );
 }
 
-function StatsTable({ rounds }: { rounds: Round[] }) {
-  const stats = calculatePlayerStats(rounds);
-  const sortedPlayers = Object.entries(stats).sort(
-    ([, a], [, b]) => a.pointsLost - b.pointsLost
-  );
-  console.log(stats);
-  console.log(sortedPlayers);
+function StatsTable({
+  rounds,
+  ranking,
+  tiebreakers,
+  scoringRules,
+  nameOf,
+}: {
+  rounds: Round[];
+  ranking: PlayerRanking;
+  tiebreakers: Tiebreaker[];
+  scoringRules: ScoringRules;
+  nameOf: (id: string) => string;
+}) {
+  const standings = getPlayerStandings(rounds, ranking, tiebreakers, scoringRules);
+  const sortedPlayers = standings.map(({ item }) => item);
+  const rankByScored = ranking === 'most-points-scored';
+  const maxGames = Math.max(0, ...sortedPlayers.map(([, { gameScores }]) => gameScores.length));
+  const showGames = hasBestOfThree(rounds);
 
   return (
     <>
@@ -465,21 +1511,28 @@ function StatsTable({ rounds }: { rounds: Round[] }) {
           <tr>
             <th>Rank</th>
             <th>Player</th>
-            <th>Points Lost</th>
+            <th>{rankByScored ? 'Points Scored' : 'Points Lost'}</th>
             <th>Wins</th>
             <th>Losses</th>
+            {showGames && <th>Games</th>}
+            <th>Tiebreak</th>
           </tr>
         </thead>
         <tbody>
-          {sortedPlayers.map(([player, { pointsLost, wins, losses }], index) => (
-            <tr key={player}>
-              <td>{index + 1}</td>
-              <td>{player}</td>
-              <td><strong>{pointsLost}</strong></td>
-              <td>{wins}</td>
-              <td>{losses}</td>
-            </tr>
-          ))}
+          {standings.map((entry) => {
+            const [player, { pointsLost, totalPoints, wins, losses, gamesWon, gamesLost }] = entry.item;
+            return (
+              <tr key={player}>
+                <td>{formatPlace(entry)}</td>
+                <td>{nameOf(player)}</td>
+                <td><strong>{rankByScored ? totalPoints : pointsLost}</strong></td>
+                <td>{wins}</td>
+                <td>{losses}</td>
+                {showGames && <td>{gamesWon}–{gamesLost}</td>}
+                <td>{describeTiebreak(entry)}</td>
+              </tr>
+            );
+          })}
         </tbody>
       </table>
 
@@ -489,21 +1542,17 @@ function StatsTable({ rounds }: { rounds: Round[] }) {
           <thead>
             <tr>
               <th>Player</th>
-              <th>G1</th>
-              <th>G2</th>
-              <th>G3</th>
-              <th>G4</th>
-              <th>G5</th>
-              <th>G6</th>
-              <th>G7</th>
+              {Array.from({ length: maxGames }, (_, index) => (
+                <th key={index}>G{index + 1}</th>
+              ))}
             </tr>
           </thead>
           <tbody>
             {sortedPlayers.map(([player, { gameScores }]) => (
               <tr key={player}>
-                <td><strong>{player}</strong></td>
+                <td><strong>{nameOf(player)}</strong></td>
                 {gameScores.map((score, index) => (
-                  <td key={index} className={score === 21 ? 'perfect-score' : ''}>
+                  <td key={index} className={score >= scoringRules.target ? 'perfect-score' : ''}>
                     {score}
                   </td>
                 ))}
@@ -516,8 +1565,21 @@ function StatsTable({ rounds }: { rounds: Round[] }) {
   );
 }
 
-function TeamStatsTable({ rounds }: { rounds: Round[] }) {
-  const teamStats = calculateTeamStats(rounds);
+function TeamStatsTable({
+  rounds,
+  tiebreakers,
+  scoringRules,
+  nameOf,
+}: {
+  rounds: Round[];
+  tiebreakers: Tiebreaker[];
+  scoringRules: ScoringRules;
+  nameOf: (id: string) => string;
+}) {
+  const standings = getTeamStandings(rounds, tiebreakers, scoringRules);
+  const teamStats = standings.map(({ item }) => item);
+  const maxGames = Math.max(0, ...teamStats.map((team) => team.gameScores.length));
+  const showGames = hasBestOfThree(rounds);
 
   return (
     <>
@@ -527,24 +1589,35 @@ function TeamStatsTable({ rounds }: { rounds: Round[] }) {
             <th>Rank</th>
             <th>Team</th>
             <th>Points Lost</th>
+            <th>Played</th>
             <th>Wins</th>
             <th>Losses</th>
+            {showGames && <th>Games</th>}
+            <th>Tiebreak</th>
           </tr>
         </thead>
         <tbody>
-          {teamStats.map((team, index) => (
-            <tr key={team.teamName}>
-              <td>
-                <strong>
-                  {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}
-                </strong>
-              </td>
-              <td><strong>{team.teamName}</strong></td>
-              <td><strong>{team.pointsLost}</strong></td>
-              <td>{team.wins}</td>
-              <td>{team.losses}</td>
-            </tr>
-          ))}
+          {standings.map((entry) => {
+            const team = entry.item;
+            return (
+              <tr key={team.teamName}>
+                <td>
+                  <strong>
+                    {entry.tied || entry.place > 3
+                      ? formatPlace(entry)
+                      : ['🥇', '🥈', '🥉'][entry.place - 1]}
+                  </strong>
+                </td>
+                <td><strong>{formatTeam(team.players, nameOf)}</strong></td>
+                <td><strong>{team.pointsLost}</strong></td>
+                <td>{team.gamesPlayed}</td>
+                <td>{team.wins}</td>
+                <td>{team.losses}</td>
+                {showGames && <td>{team.gamesWon}–{team.gamesLost}</td>}
+                <td>{describeTiebreak(entry)}</td>
+              </tr>
+            );
+          })}
         </tbody>
       </table>
 
@@ -554,19 +1627,17 @@ function TeamStatsTable({ rounds }: { rounds: Round[] }) {
           <thead>
             <tr>
               <th>Team</th>
-              <th>G1</th>
-              <th>G2</th>
-              <th>G3</th>
-              <th>G4</th>
-              <th>G5</th>
+              {Array.from({ length: maxGames }, (_, index) => (
+                <th key={index}>G{index + 1}</th>
+              ))}
             </tr>
           </thead>
           <tbody>
             {teamStats.map((team) => (
               <tr key={team.teamName}>
-                <td><strong>{team.teamName}</strong></td>
+                <td><strong>{formatTeam(team.players, nameOf)}</strong></td>
                 {team.gameScores.map((score, index) => (
-                  <td key={index} className={score === 21 ? 'perfect-score' : ''}>
+                  <td key={index} className={score >= scoringRules.target ? 'perfect-score' : ''}>
                     {score}
                   </td>
                 ))}
@@ -579,41 +1650,98 @@ function TeamStatsTable({ rounds }: { rounds: Round[] }) {
   );
 }
 
+function hasBestOfThree(rounds: Round[]): boolean {
+  return rounds.some((round) => round.games.some((game) => game.bestOf === 3));
+}
+
+/**
+ * Place in the standings, with a "T-" prefix for shared places
+ */
+function formatPlace(entry: StandingsEntry<unknown>): string {
+  return `${entry.tied ? 'T-' : ''}${entry.place}`;
+}
+
+function getRankDisplay(entry: StandingsEntry<unknown>): string {
+  if (entry.tied) return `T-${ordinal(entry.place)}`;
+  if (entry.place === 1) return '🥇 1st';
+  if (entry.place === 2) return '🥈 2nd';
+  if (entry.place === 3) return '🥉 3rd';
+  return ordinal(entry.place);
+}
+
+function ordinal(place: number): string {
+  const lastTwo = place % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${place}th`;
+  return `${place}${['th', 'st', 'nd', 'rd'][place % 10] ?? 'th'}`;
+}
+
+function describeTiebreak(entry: StandingsEntry<unknown>): string {
+  if (entry.decidedBy) return TIEBREAKER_LABELS[entry.decidedBy];
+  return entry.tied ? 'Tied' : '';
+}
+
+function describeTiebreakers(tiebreakers: Tiebreaker[]): string {
+  if (tiebreakers.length === 0) {
+    return 'No tiebreakers: level players share their places and split the prizes.';
+  }
+  const chain = tiebreakers.map((tiebreaker) => TIEBREAKER_LABELS[tiebreaker]).join(', then ');
+  return `Ties broken by ${chain}. Anyone still level shares the place and splits the prizes.`;
+}
+
 function PayoutsTable({
   rounds,
-  entryFee,
+  prizeConfig,
   sideBets,
   format,
+  ranking,
+  placement,
+  tiebreakers,
+  scoringRules,
+  partialEntries,
+  substitutes,
+  nameOf,
 }: {
   rounds: Round[];
-  entryFee: number;
+  prizeConfig: PrizeConfig;
   sideBets: SideBet[];
   format: TournamentFormat;
+  ranking: PlayerRanking;
+  placement?: Array<[string, string]>;
+  tiebreakers: Tiebreaker[];
+  scoringRules: ScoringRules;
+  partialEntries?: { [player: string]: number };
+  substitutes?: { [substitute: string]: string };
+  nameOf: (id: string) => string;
 }) {
-  const sideBetTotals = calculateSideBetTotals(sideBets);
+  const { entryFee, split: prizeSplit } = prizeConfig;
+  const sideBetTotals = calculateSideBetTotals(sideBets, rounds);
 
   if (format === '12-player') {
-    const teamStats = calculateTeamStats(rounds);
-    const payouts = calculate12PlayerPayoutsWithSideBets(rounds, entryFee, sideBets);
-    const teamPrizes = [6, 4, 2];
-    const totalPlayers = 12;
+    const options = { prizeSplit, placement, tiebreakers, scoringRules, substitutes };
+    const placings = calculateTeamPrizePlacings(rounds, entryFee, options);
+    const payouts = calculate12PlayerPayoutsWithSideBets(rounds, entryFee, sideBets, options);
+    const totalPlayers = placings.length * 2;
     const totalPaid = totalPlayers * entryFee;
-    const totalPrizes = teamPrizes.reduce((sum, prize) => sum + prize * 2, 0);
+    const totalPrizes = placings.reduce((sum, { prize }) => sum + prize * 2, 0);
 
     // Get all unique players with their payouts
-    const allPlayers = new Map<string, { team: string; rank: number; prize: number }>();
-    teamStats.forEach((team, index) => {
-      const prize = index < 3 ? teamPrizes[index] : 0;
-      team.players.forEach((player) => {
-        allPlayers.set(player, { team: team.teamName, rank: index, prize });
+    const allPlayers = new Map<string, { team: string; entry: StandingsEntry<unknown> | null; prize: number; fee: number }>();
+    placings.forEach((entry) => {
+      entry.item.players.forEach((player) => {
+        allPlayers.set(player, { team: formatTeam(entry.item.players, nameOf), entry, prize: entry.prize, fee: entryFee });
       });
     });
+    // Substitutes play for the team but its prize and entry fee stay with
+    // the player they replaced
+    Object.entries(substitutes ?? {}).forEach(([player, original]) => {
+      allPlayers.set(player, { team: `Substitute for ${nameOf(original)}`, entry: null, prize: 0, fee: 0 });
+    });
 
     return (
       <>
         <div className="payout-info">
-          <p>Total entry fees collected: <strong>${totalPaid}</strong></p>
-          <p>Total prizes awarded: <strong>${totalPrizes}</strong></p>
+          <p>Total entry fees collected: <strong>${totalPaid.toFixed(2)}</strong></p>
+          <p>Total prizes awarded: <strong>${totalPrizes.toFixed(2)}</strong></p>
         </div>
         <table className="payouts-table">
           <thead>
@@ -628,20 +1756,20 @@ function PayoutsTable({
             </tr>
           </thead>
           <tbody>
-            {Array.from(allPlayers.entries()).map(([player, { team, rank, prize }]) => {
+            {Array.from(allPlayers.entries()).map(([player, { team, entry, prize, fee }]) => {
               const sideBetAmount = sideBetTotals[player] || 0;
-              const netAmount = payouts[player];
-              const rankDisplay = rank === 0 ? '🥇 1st' : rank === 1 ? '🥈 2nd' : rank === 2 ? '🥉 3rd' : `${rank + 1}th`;
+              const netAmount = payouts[player] ?? 0;
+              const rankDisplay = entry ? getRankDisplay(entry) : '—';
 
               return (
                 <tr key={player} className={netAmount > 0 ? 'winner' : netAmount < 0 ? 'loser' : ''}>
-                  <td><strong>{player}</strong></td>
+                  <td><strong>{nameOf(player)}</strong></td>
                   <td>{team}</td>
                   <td><strong>{rankDisplay}</strong></td>
                   <td className={prize > 0 ? 'positive' : ''}>
                     ${prize.toFixed(2)}
                   </td>
-                  <td className="negative">-${entryFee.toFixed(2)}</td>
+                  <td className={fee > 0 ? 'negative' : ''}>-${fee.toFixed(2)}</td>
                   <td className={sideBetAmount > 0 ? 'positive' : sideBetAmount < 0 ? 'negative' : ''}>
                     {sideBetAmount !== 0 ? `${sideBetAmount > 0 ? '+' : ''}$${Math.abs(sideBetAmount).toFixed(2)}` : '$0.00'}
                   </td>
@@ -664,45 +1792,40 @@ function PayoutsTable({
     );
   }
 
-  // 8-player format
-  const stats = calculatePlayerStats(rounds);
-  const payouts = calculatePayoutsWithSideBets(rounds, entryFee, sideBets);
+  // Individual formats (social doubles, Americano, Mexicano)
+  const options = { prizeSplit, ranking, placement, tiebreakers, scoringRules, partialEntries };
+  const payouts = calculatePayoutsWithSideBets(rounds, entryFee, sideBets, options);
+  const rankByScored = ranking === 'most-points-scored';
 
-  // Sort by points lost (ascending - fewest points lost wins)
-  const sortedPlayers = Object.entries(stats).sort(
-    ([, a], [, b]) => a.pointsLost - b.pointsLost
-  );
-
-  // Prize amounts
-  const prizes = [8, 6, 2];
+  // Standings (fewest points lost, or most points scored) with playoff
+  // finishers ahead of everyone else; tied players share their prizes
+  const placings = calculatePrizePlacings(rounds, entryFee, options);
 
-  const getRankDisplay = (rank: number) => {
-    if (rank === 0) return '🥇 1st';
-    if (rank === 1) return '🥈 2nd';
-    if (rank === 2) return '🥉 3rd';
-    return `${rank + 1}th`;
-  };
+  // Players who withdrew or came in as substitutes aren't placed; they
+  // just pay their share of the entry fee
+  const stats = calculatePlayerStats(rounds, scoringRules);
+  const partialPlayers = Object.keys(partialEntries ?? {}).map((player) => ({
+    player,
+    fee: -((payouts[player] ?? 0) - (sideBetTotals[player] || 0)),
+  }));
 
-  const getPrizeAmount = (rank: number) => {
-    if (rank < prizes.length) return prizes[rank];
-    return 0;
-  };
-
-  const totalPaid = sortedPlayers.length * entryFee;
-  const totalPrizes = prizes.reduce((sum, prize) => sum + prize, 0);
+  const totalPaid = (
+    toCents(entryFee) * placings.length + partialPlayers.reduce((sum, { fee }) => sum + toCents(fee), 0)
+  ) / 100;
+  const totalPrizes = placings.reduce((sum, { prize }) => sum + prize, 0);
 
   return (
     <>
       <div className="payout-info">
-        <p>Total entry fees collected: <strong>${totalPaid}</strong></p>
-        <p>Total prizes awarded: <strong>${totalPrizes}</strong></p>
+        <p>Total entry fees collected: <strong>${totalPaid.toFixed(2)}</strong></p>
+        <p>Total prizes awarded: <strong>${totalPrizes.toFixed(2)}</strong></p>
       </div>
       <table className="payouts-table">
         <thead>
           <tr>
             <th>Rank</th>
             <th>Player</th>
-            <th>Points Lost</th>
+            <th>{rankByScored ? 'Points Scored' : 'Points Lost'}</th>
             <th>Prize</th>
             <th>Entry Fee</th>
             <th>Side Bets</th>
@@ -710,15 +1833,16 @@ function PayoutsTable({
           </tr>
         </thead>
         <tbody>
-          {sortedPlayers.map(([player, playerStats], index) => {
-            const prize = getPrizeAmount(index);
+          {placings.map((entry) => {
+            const [player, playerStats] = entry.item;
+            const { prize } = entry;
             const sideBetAmount = sideBetTotals[player] || 0;
             const netAmount = payouts[player];
             return (
               <tr key={player} className={netAmount > 0 ? 'winner' : netAmount < 0 ? 'loser' : ''}>
-                <td><strong>{getRankDisplay(index)}</strong></td>
-                <td>{player}</td>
-                <td>{playerStats.pointsLost}</td>
+                <td><strong>{getRankDisplay(entry)}</strong></td>
+                <td>{nameOf(player)}</td>
+                <td>{rankByScored ? playerStats.totalPoints : playerStats.pointsLost}</td>
                 <td className={prize > 0 ? 'positive' : ''}>
                   ${prize.toFixed(2)}
                 </td>
@@ -732,8 +1856,34 @@ function PayoutsTable({
               </tr>
             );
           })}
+          {partialPlayers.map(({ player, fee }) => {
+            const sideBetAmount = sideBetTotals[player] || 0;
+            const netAmount = payouts[player] ?? 0;
+            const playerStats = stats[player];
+            return (
+              <tr key={player} className={netAmount > 0 ? 'winner' : netAmount < 0 ? 'loser' : ''}>
+                <td><strong>—</strong></td>
+                <td>{nameOf(player)}</td>
+                <td>{playerStats ? (rankByScored ? playerStats.totalPoints : playerStats.pointsLost) : 0}</td>
+                <td>$0.00</td>
+                <td className={fee > 0 ? 'negative' : ''}>-${fee.toFixed(2)}</td>
+                <td className={sideBetAmount > 0 ? 'positive' : sideBetAmount < 0 ? 'negative' : ''}>
+                  {sideBetAmount !== 0 ? `${sideBetAmount > 0 ? '+' : ''}$${Math.abs(sideBetAmount).toFixed(2)}` : '$0.00'}
+                </td>
+                <td className={netAmount > 0 ? 'positive' : netAmount < 0 ? 'negative' : ''}>
+                  <strong>${netAmount > 0 ? '+' : ''}{netAmount.toFixed(2)}</strong>
+                </td>
+              </tr>
+            );
+          })}
         </tbody>
       </table>
+      {partialPlayers.length > 0 && (
+        <p className="tiebreak-chain">
+          Players who withdrew or came in as substitutes aren't ranked for prizes and pay
+          {prizeSplit.type === 'fixed' ? ' the full entry fee.' : ' for the share of the games they were scheduled in.'}
+        </p>
+      )}
       <div className="payout-summary">
         <p>
           Balance: $
@@ -745,14 +1895,646 @@ function PayoutsTable({
   );
 }
 
+function describeSession(state: TournamentState): string {
+  const formatLabel = state.format === '12-player'
+    ? 'Team Round-Robin'
+    : state.format === 'dynamic'
+      ? state.pairingMode === 'mexicano' ? 'Mexicano' : 'Americano'
+      : 'Social Doubles';
+  const stageLabel = {
+    input: 'Setting up',
+    playing: `Round ${state.currentRound + 1} of ${Math.max(state.rounds.length, state.totalRounds ?? 0)}`,
+    playoffs: 'Playoffs',
+    results: 'Finished',
+  }[state.stage];
+  return `${formatLabel} · ${state.players.length} players · ${stageLabel}`;
+}
+
+/**
+ * Saves text as a file through the browser's download prompt, with the
+ * date in front of the file name
+ */
+function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `badminton-${new Date().toISOString().slice(0, 10)}-${filename}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function SessionHistory({
+  currentSessionId,
+  onReopen,
+  onImport,
+}: {
+  currentSessionId: string;
+  onReopen: (session: SavedSession) => void;
+  onImport: (state: TournamentState) => void;
+}) {
+  const [sessions, setSessions] = useState<SavedSession[]>(() => loadSessions());
+
+  const importFile = (file: File) => {
+    file
+      .text()
+      .then((text) => onImport(importTournamentJSON(text)))
+      .catch((error: Error) => alert(`This file can't be imported: ${error.message}`));
+  };
+
+  const duplicate = (session: SavedSession) => {
+    duplicateSession(session.id);
+    setSessions(loadSessions());
+  };
+
+  const remove = (session: SavedSession) => {
+    if (window.confirm('Delete this tournament from History? This cannot be undone.')) {
+      deleteSession(session.id);
+      setSessions(loadSessions());
+    }
+  };
+
+  return (
+    <div className="session-history">
+      <h2>Tournament History</h2>
+      <label className="import-button">
+        Import Tournament File…
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            if (e.target.files?.[0]) importFile(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {sessions.length === 0 ? (
+        <p className="wager-reminder">No saved tournaments yet. Tournaments are saved here as you play.</p>
+      ) : (
+        <ul className="session-list">
+          {sessions.map((session) => (
+            <li key={session.id} className={session.id === currentSessionId ? 'current' : ''}>
+              <div className="session-details">
+                <strong>{new Date(session.createdAt).toLocaleString()}</strong>
+                <span>{describeSession(session.state)}</span>
+                <span className="session-players">
+                  {session.state.players.map(({ name }) => name).filter((name) => name.trim() !== '').join(', ')}
+                </span>
+              </div>
+              <div className="session-actions">
+                {session.id === currentSessionId ? (
+                  <span className="pending-badge">Open now</span>
+                ) : (
+                  <button onClick={() => onReopen(session)}>Reopen</button>
+                )}
+                <button onClick={() => duplicate(session)}>Duplicate</button>
+                <button
+                  onClick={() =>
+                    downloadFile('tournament.json', exportTournamentJSON(session.state), 'application/json')
+                  }
+                >
+                  Export
+                </button>
+                {session.id !== currentSessionId && (
+                  <button className="remove-team-button" onClick={() => remove(session)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Groups saved tournaments into seasons, with a leaderboard and team
+ * standings added up across every night in the season
+ */
+function SeasonManager() {
+  const [sessions] = useState<SavedSession[]>(() => loadSessions());
+  const [seasons, setSeasons] = useState<Season[]>(() => loadSeasons());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const season = seasons.find(({ id }) => id === selectedId) ?? seasons[0];
+
+  const addSeason = () => {
+    if (normalizeName(newName) === '') {
+      alert('Please enter a name for the season');
+      return;
+    }
+    const created = createSeason(newName);
+    setSeasons(saveSeason(created));
+    setSelectedId(created.id);
+    setNewName('');
+  };
+
+  const updateSeason = (changes: Partial<Season>) => {
+    setSeasons(saveSeason({ ...season, ...changes }));
+  };
+
+  const toggleSession = (id: string) => {
+    updateSeason({
+      sessionIds: season.sessionIds.includes(id)
+        ? season.sessionIds.filter((sessionId) => sessionId !== id)
+        : [...season.sessionIds, id],
+    });
+  };
+
+  const removeSeason = () => {
+    if (window.confirm(`Delete the season "${season.name}"? Its tournaments stay in History.`)) {
+      setSeasons(deleteSeason(season.id));
+      setSelectedId(null);
+    }
+  };
+
+  const seasonSessions = season ? sessions.filter(({ id }) => season.sessionIds.includes(id)) : [];
+  const stats = calculateSeasonStats(seasonSessions.map(({ state }) => state));
+  const leaderboard = season ? rankSeasonPlayers(stats.players, season.ranking) : [];
+
+  return (
+    <div className="session-history">
+      <h2>Seasons</h2>
+      <div className="season-create">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Season name, e.g. Spring League"
+        />
+        <button onClick={addSeason}>+ New Season</button>
+      </div>
+
+      {!season ? (
+        <p className="wager-reminder">No seasons yet. Create one, then pick the tournaments that belong to it.</p>
+      ) : (
+        <>
+          <div className="player-count-row">
+            <label htmlFor="season-select">Season:</label>
+            <select id="season-select" value={season.id} onChange={(e) => setSelectedId(e.target.value)}>
+              {seasons.map(({ id, name }) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+            <label htmlFor="season-ranking">Rank by:</label>
+            <select
+              id="season-ranking"
+              value={season.ranking}
+              onChange={(e) => updateSeason({ ranking: e.target.value as SeasonRanking })}
+            >
+              {(Object.keys(SEASON_RANKING_LABELS) as SeasonRanking[]).map((ranking) => (
+                <option key={ranking} value={ranking}>{SEASON_RANKING_LABELS[ranking]}</option>
+              ))}
+            </select>
+          </div>
+
+          <h3>Leaderboard</h3>
+          {leaderboard.length === 0 ? (
+            <p className="wager-reminder">Add tournaments below to start the leaderboard.</p>
+          ) : (
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>Rank</th>
+                  <th>Player</th>
+                  <th>{SEASON_RANKING_LABELS[season.ranking]}</th>
+                  <th>Nights</th>
+                  <th>Matches</th>
+                  <th>Wins</th>
+                  <th>Losses</th>
+                  <th>Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((player, index) => (
+                  <tr key={player.name}>
+                    <td>{index + 1}</td>
+                    <td>{player.name}</td>
+                    <td><strong>{formatSeasonRankingValue(player, season.ranking)}</strong></td>
+                    <td>{player.nights}</td>
+                    <td>{player.gamesPlayed}</td>
+                    <td>{player.wins}</td>
+                    <td>{player.losses}</td>
+                    <td className={player.netWinnings > 0 ? 'positive' : player.netWinnings < 0 ? 'negative' : ''}>
+                      ${player.netWinnings.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {stats.teams.length > 0 && (
+            <>
+              <h3>Teams</h3>
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th>Team</th>
+                    <th>Nights</th>
+                    <th>Played</th>
+                    <th>Wins</th>
+                    <th>Losses</th>
+                    <th>Points</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.teams.map((team) => (
+                    <tr key={team.name}>
+                      <td><strong>{team.name}</strong></td>
+                      <td>{team.nights}</td>
+                      <td>{team.gamesPlayed}</td>
+                      <td>{team.wins}</td>
+                      <td>{team.losses}</td>
+                      <td>{team.pointsScored}–{team.pointsConceded}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          <h3>Tournaments</h3>
+          {sessions.length === 0 ? (
+            <p className="wager-reminder">No saved tournaments yet. Tournaments are saved to History as you play.</p>
+          ) : (
+            <ul className="session-list">
+              {sessions.map((session) => (
+                <li key={session.id}>
+                  <label className="session-details">
+                    <span>
+                      <input
+                        type="checkbox"
+                        checked={season.sessionIds.includes(session.id)}
+                        onChange={() => toggleSession(session.id)}
+                      />{' '}
+                      <strong>{new Date(session.createdAt).toLocaleString()}</strong>
+                    </span>
+                    <span>{describeSession(session.state)}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="export-buttons season-actions">
+            <button onClick={() => downloadFile('season.json', exportSeasonJSON(season, sessions), 'application/json')}>
+              Season (JSON)
+            </button>
+            <button
+              onClick={() =>
+                downloadFile('season-standings.csv', seasonStandingsToCSV(stats.players, season.ranking), 'text/csv')
+              }
+            >
+              Leaderboard (CSV)
+            </button>
+            <button className="remove-team-button" onClick={removeSeason}>
+              Delete Season
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SettlementPlan({
+  payouts,
+  nameOf,
+}: {
+  payouts: { [player: string]: number };
+  nameOf: (id: string) => string;
+}) {
+  const [copied, setCopied] = useState(false);
+  const transfers = calculateSettlement(payouts).map((transfer) => ({
+    ...transfer,
+    from: nameOf(transfer.from),
+    to: nameOf(transfer.to),
+  }));
+
+  const copyPlan = () => {
+    navigator.clipboard
+      .writeText(formatSettlement(transfers))
+      .then(() => setCopied(true))
+      .catch(() => alert('Could not copy to the clipboard'));
+  };
+
+  return (
+    <>
+      {transfers.length === 0 ? (
+        <p className="wager-reminder">{formatSettlement(transfers)}</p>
+      ) : (
+        <ul className="settlement-list">
+          {transfers.map(({ from, to, amount }) => (
+            <li key={`${from}-${to}`}>
+              <strong>{from}</strong> pays <strong>{to}</strong>
+              <span className="positive">${amount.toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button className="copy-settlement-button" onClick={copyPlan}>
+        {copied ? '✓ Copied' : 'Copy as Text'}
+      </button>
+    </>
+  );
+}
+
+function PrizeSetup({
+  config,
+  playerCount,
+  playersPerPlace,
+  onChange,
+}: {
+  config: PrizeConfig;
+  playerCount: number;
+  playersPerPlace: 1 | 2;
+  onChange: (config: PrizeConfig) => void;
+}) {
+  const { entryFee, split } = config;
+  const pool = entryFee * playerCount;
+  const error = validatePrizeConfig(config, playerCount, playersPerPlace);
+  const amounts = getPrizeAmounts(split, entryFee, playerCount, playersPerPlace);
+  const placeLabels = ['🥇 1st', '🥈 2nd', '🥉 3rd'];
+
+  const setPlace = (index: number, value: number) => {
+    const places = [...split.places];
+    places[index] = value;
+    onChange({ ...config, split: { ...split, places } });
+  };
+
+  const setSplitType = (type: PrizeSplitType) => {
+    // Convert the current split so switching type keeps the same prizes
+    const places = type === 'fixed'
+      ? amounts.map((amount) => Number((amount * playersPerPlace).toFixed(2)))
+      : split.places.map((amount) => (pool > 0 ? Number(((amount / pool) * 100).toFixed(2)) : 0));
+    onChange({ ...config, split: { type, places } });
+  };
+
+  return (
+    <>
+      <div className="prize-info">
+        <div className="prize-row">
+          <label htmlFor="entry-fee">Entry Fee:</label>
+          <span className="prize-input">
+            $
+            <input
+              id="entry-fee"
+              type="number"
+              min="0"
+              step="0.5"
+              value={entryFee}
+              onChange={(e) => onChange({ ...config, entryFee: parseFloat(e.target.value) || 0 })}
+            />
+            per player
+          </span>
+        </div>
+        <div className="prize-row">
+          <span>Total Pool:</span>
+          <strong>${pool.toFixed(2)}</strong>
+        </div>
+      </div>
+      <div className="prize-distribution">
+        <h3>Prize Distribution</h3>
+        <div className="format-buttons">
+          <button
+            className={`format-button ${split.type === 'percentage' ? 'active' : ''}`}
+            onClick={() => split.type !== 'percentage' && setSplitType('percentage')}
+          >
+            % of Pool
+          </button>
+          <button
+            className={`format-button ${split.type === 'fixed' ? 'active' : ''}`}
+            onClick={() => split.type !== 'fixed' && setSplitType('fixed')}
+          >
+            Fixed Amounts
+          </button>
+        </div>
+        <ul>
+          {split.places.map((value, index) => (
+            <li key={index} className="prize-place">
+              <span>
+                {placeLabels[index] ?? `${index + 1}th`} Place{playersPerPlace === 2 ? ' Team' : ''}:
+              </span>
+              <span className="prize-input">
+                {split.type === 'fixed' && '$'}
+                <input
+                  type="number"
+                  min="0"
+                  step={split.type === 'fixed' ? '0.5' : '1'}
+                  value={value}
+                  onChange={(e) => setPlace(index, parseFloat(e.target.value) || 0)}
+                />
+                {split.type === 'percentage' && '%'}
+              </span>
+              <strong>
+                ${(amounts[index] ?? 0).toFixed(2)}{playersPerPlace === 2 ? ' each' : ''}
+              </strong>
+              <button
+                className="remove-team-button"
+                onClick={() =>
+                  onChange({
+                    ...config,
+                    split: { ...split, places: split.places.filter((_, i) => i !== index) },
+                  })
+                }
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          className="add-team-button"
+          onClick={() => onChange({ ...config, split: { ...split, places: [...split.places, 0] } })}
+        >
+          + Add Place
+        </button>
+        {error && <p className="prize-error">⚠️ {error}</p>}
+      </div>
+    </>
+  );
+}
+
+function TiebreakerSetup({
+  tiebreakers,
+  onChange,
+}: {
+  tiebreakers: Tiebreaker[];
+  onChange: (tiebreakers: Tiebreaker[]) => void;
+}) {
+  // Enabled tiebreakers in order, then the disabled ones
+  const disabled = DEFAULT_TIEBREAKERS.filter((tiebreaker) => !tiebreakers.includes(tiebreaker));
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...tiebreakers];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="tiebreaker-setup">
+      <h3>Tiebreakers</h3>
+      <ol>
+        {tiebreakers.map((tiebreaker, index) => (
+          <li key={tiebreaker} className="tiebreaker-item">
+            <label>
+              <input
+                type="checkbox"
+                checked
+                onChange={() => onChange(tiebreakers.filter((t) => t !== tiebreaker))}
+              />
+              {TIEBREAKER_LABELS[tiebreaker]}
+            </label>
+            <button disabled={index === 0} onClick={() => move(index, -1)}>↑</button>
+            <button disabled={index === tiebreakers.length - 1} onClick={() => move(index, 1)}>↓</button>
+          </li>
+        ))}
+      </ol>
+      {disabled.map((tiebreaker) => (
+        <div key={tiebreaker} className="tiebreaker-item disabled">
+          <label>
+            <input
+              type="checkbox"
+              checked={false}
+              onChange={() => onChange([...tiebreakers, tiebreaker])}
+            />
+            {TIEBREAKER_LABELS[tiebreaker]}
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One printable sheet per slot, with court numbers and blank boxes to
+ * write each game's score in
+ */
+function ScoreSheets({ rounds, nameOf }: { rounds: Round[]; nameOf: (id: string) => string }) {
+  return (
+    <>
+      {rounds.map((round) => (
+        <section key={round.roundNumber} className="print-sheet">
+          <h2>Slot {round.roundNumber} of {rounds.length}</h2>
+          {round.byes && round.byes.length > 0 && (
+            <p>Sitting out: <strong>{round.byes.map(nameOf).join(', ')}</strong></p>
+          )}
+          <table className="scoresheet">
+            <thead>
+              <tr>
+                <th>Court</th>
+                <th>Game</th>
+                <th>Team 1</th>
+                <th>Score</th>
+                <th>Team 2</th>
+                <th>Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {round.games.map((game) => {
+                const boxes = Array.from({ length: game.bestOf ?? 1 }, (_, index) => (
+                  <span key={index} className="score-box" />
+                ));
+                return (
+                  <tr key={game.id}>
+                    <td>{game.court ?? ''}</td>
+                    <td>{game.id}</td>
+                    <td>{formatTeam(game.team1, nameOf)}</td>
+                    <td>{boxes}</td>
+                    <td>{formatTeam(game.team2, nameOf)}</td>
+                    <td>{boxes}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Read-only list of side bets and how each one finished
+ */
+function SideBetSummary({
+  sideBets,
+  rounds,
+  nameOf,
+}: {
+  sideBets: SideBet[];
+  rounds: Round[];
+  nameOf: (id: string) => string;
+}) {
+  return (
+    <table className="stats-table">
+      <thead>
+        <tr>
+          <th>Game</th>
+          <th>Team 1</th>
+          <th>Team 2</th>
+          <th>Terms</th>
+          <th>Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        {sideBets.map((bet) => {
+          const outcome = resolveSideBet(bet, rounds);
+          return (
+            <tr key={bet.id}>
+              <td>{bet.gameId !== undefined ? `Game ${bet.gameId}` : '—'}</td>
+              <td>{formatTeam(bet.team1, nameOf)}</td>
+              <td>{formatTeam(bet.team2, nameOf)}</td>
+              <td>{describeSideBetTerms(bet)}</td>
+              <td>
+                {outcome === 'push' ? 'Push' : outcome === null ? 'Undecided' : `Team ${outcome} Won`}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+function PlayoffResults({
+  placement,
+  nameOf,
+}: {
+  placement: Array<[string, string]>;
+  nameOf: (id: string) => string;
+}) {
+  const labels = ['🏆 Champions', '🥈 Runners-up', '🥉 Semifinalists', '🥉 Semifinalists'];
+
+  return (
+    <table className="stats-table">
+      <tbody>
+        {placement.map((team, index) => (
+          <tr key={team.join()}>
+            <td><strong>{labels[index]}</strong></td>
+            <td>{formatTeam(team, nameOf)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 function SideBetsManager({
-  playerNames,
+  players,
+  nameOf,
+  rounds,
   sideBets,
   onAddSideBet,
   onUpdateSideBet,
   onDeleteSideBet,
 }: {
-  playerNames: string[];
+  players: Player[];
+  nameOf: (id: string) => string;
+  rounds: Round[];
   sideBets: SideBet[];
   onAddSideBet: (sideBet: SideBet) => void;
   onUpdateSideBet: (id: number, winner: 1 | 2) => void;
@@ -764,33 +2546,63 @@ function SideBetsManager({
   const [team2Player1, setTeam2Player1] = useState('');
   const [team2Player2, setTeam2Player2] = useState('');
   const [amount, setAmount] = useState('');
+  const [gameId, setGameId] = useState('');
+  const [betType, setBetType] = useState<SideBetType>('even');
+  const [spread, setSpread] = useState('');
+  const [odds, setOdds] = useState('2');
+  const [oddsStake, setOddsStake] = useState('1');
+  const [stakes, setStakes] = useState<Array<{ player: string; side: 1 | 2; stake: string }>>([]);
+
+  const scheduledGames = rounds.flatMap((round) => round.games);
+  const selectedGame = scheduledGames.find((game) => game.id === parseInt(gameId));
+
+  const updateStake = (index: number, changes: Partial<{ player: string; side: 1 | 2; stake: string }>) => {
+    setStakes(stakes.map((stake, i) => (i === index ? { ...stake, ...changes } : stake)));
+  };
 
   const handleAddSideBet = () => {
-    if (!team1Player1 || !team1Player2 || !team2Player1 || !team2Player2 || !amount) {
+    const team1: [string, string] = selectedGame ? selectedGame.team1 : [team1Player1, team1Player2];
+    const team2: [string, string] = selectedGame ? selectedGame.team2 : [team2Player1, team2Player2];
+
+    if ([...team1, ...team2].some((player) => !player) || (betType !== 'pool' && !amount)) {
       alert('Please fill in all fields');
       return;
     }
 
-    const players = [team1Player1, team1Player2, team2Player1, team2Player2];
-    const uniquePlayers = new Set(players);
+    const uniquePlayers = new Set([...team1, ...team2]);
     if (uniquePlayers.size !== 4) {
       alert('All four players must be different');
       return;
     }
 
-    const parsedAmount = parseFloat(amount);
-    if (isNaN(parsedAmount) || parsedAmount <= 0) {
-      alert('Please enter a valid amount');
-      return;
-    }
-
     const newSideBet: SideBet = {
       id: Date.now(),
-      team1: [team1Player1, team1Player2],
-      team2: [team2Player1, team2Player2],
-      amount: parsedAmount,
+      team1,
+      team2,
+      amount: betType === 'pool' ? 0 : parseFloat(amount),
       winner: null,
     };
+    if (selectedGame) {
+      newSideBet.gameId = selectedGame.id;
+    }
+    if (betType !== 'even') {
+      newSideBet.type = betType;
+    }
+    if (betType === 'spread') {
+      newSideBet.spread = parseFloat(spread);
+    }
+    if (betType === 'odds') {
+      newSideBet.odds = [parseFloat(odds), parseFloat(oddsStake)];
+    }
+    if (betType === 'pool') {
+      newSideBet.stakes = stakes.map(({ player, side, stake }) => ({ player, side, stake: parseFloat(stake) }));
+    }
+
+    const error = validateSideBet(newSideBet);
+    if (error) {
+      alert(error);
+      return;
+    }
 
     onAddSideBet(newSideBet);
     setTeam1Player1('');
@@ -798,6 +2610,12 @@ function SideBetsManager({
     setTeam2Player1('');
     setTeam2Player2('');
     setAmount('');
+    setGameId('');
+    setBetType('even');
+    setSpread('');
+    setOdds('2');
+    setOddsStake('1');
+    setStakes([]);
     setShowForm(false);
   };
 
@@ -812,50 +2630,157 @@ function SideBetsManager({
       {showForm && (
         <div className="sidebet-form">
           <h4>New Side Bet</h4>
-          <div className="sidebet-teams">
-            <div className="sidebet-team">
-              <label>Team 1</label>
-              <select value={team1Player1} onChange={(e) => setTeam1Player1(e.target.value)}>
-                <option value="">Select Player 1</option>
-                {playerNames.map((name) => (
-                  <option key={name} value={name}>{name}</option>
-                ))}
-              </select>
-              <select value={team1Player2} onChange={(e) => setTeam1Player2(e.target.value)}>
-                <option value="">Select Player 2</option>
-                {playerNames.map((name) => (
-                  <option key={name} value={name}>{name}</option>
-                ))}
-              </select>
+          <div className="sidebet-game">
+            <label htmlFor="sidebet-game">Bet on:</label>
+            <select
+              id="sidebet-game"
+              value={gameId}
+              onChange={(e) => {
+                setGameId(e.target.value);
+                // A spread needs a game's score to apply to
+                if (!e.target.value && betType === 'spread') setBetType('even');
+              }}
+            >
+              <option value="">Any two teams (pick the winner by hand)</option>
+              {scheduledGames.map((game) => (
+                <option key={game.id} value={game.id}>
+                  Game {game.id}: {formatTeam(game.team1, nameOf)} vs {formatTeam(game.team2, nameOf)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {!selectedGame && (
+            <div className="sidebet-teams">
+              <div className="sidebet-team">
+                <label>Team 1</label>
+                <select value={team1Player1} onChange={(e) => setTeam1Player1(e.target.value)}>
+                  <option value="">Select Player 1</option>
+                  {players.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <select value={team1Player2} onChange={(e) => setTeam1Player2(e.target.value)}>
+                  <option value="">Select Player 2</option>
+                  {players.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="vs">VS</div>
+              <div className="sidebet-team">
+                <label>Team 2</label>
+                <select value={team2Player1} onChange={(e) => setTeam2Player1(e.target.value)}>
+                  <option value="">Select Player 1</option>
+                  {players.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <select value={team2Player2} onChange={(e) => setTeam2Player2(e.target.value)}>
+                  <option value="">Select Player 2</option>
+                  {players.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+              </div>
             </div>
-            <div className="vs">VS</div>
-            <div className="sidebet-team">
-              <label>Team 2</label>
-              <select value={team2Player1} onChange={(e) => setTeam2Player1(e.target.value)}>
-                <option value="">Select Player 1</option>
-                {playerNames.map((name) => (
-                  <option key={name} value={name}>{name}</option>
-                ))}
-              </select>
-              <select value={team2Player2} onChange={(e) => setTeam2Player2(e.target.value)}>
-                <option value="">Select Player 2</option>
-                {playerNames.map((name) => (
-                  <option key={name} value={name}>{name}</option>
+          )}
+          <div className="sidebet-type">
+            <label htmlFor="sidebet-type">Bet type:</label>
+            <select id="sidebet-type" value={betType} onChange={(e) => setBetType(e.target.value as SideBetType)}>
+              {(Object.keys(SIDE_BET_TYPE_LABELS) as SideBetType[])
+                .filter((type) => type !== 'spread' || selectedGame)
+                .map((type) => (
+                  <option key={type} value={type}>{SIDE_BET_TYPE_LABELS[type]}</option>
                 ))}
-              </select>
-            </div>
-          </div>
-          <div className="sidebet-amount">
-            <label>Amount per player: $</label>
-            <input
-              type="number"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              placeholder="0.00"
-              min="0"
-              step="0.01"
-            />
+            </select>
           </div>
+          {betType === 'spread' && (
+            <div className="sidebet-terms">
+              <label htmlFor="sidebet-spread">Team 1 spread:</label>
+              <input
+                id="sidebet-spread"
+                type="number"
+                value={spread}
+                onChange={(e) => setSpread(e.target.value)}
+                placeholder="-4"
+                step="0.5"
+              />
+            </div>
+          )}
+          {betType === 'odds' && (
+            <div className="sidebet-terms">
+              <label>Team 1 odds:</label>
+              <input
+                type="number"
+                value={odds}
+                onChange={(e) => setOdds(e.target.value)}
+                min="0"
+                step="0.5"
+              />
+              <span>:</span>
+              <input
+                type="number"
+                value={oddsStake}
+                onChange={(e) => setOddsStake(e.target.value)}
+                min="0"
+                step="0.5"
+              />
+            </div>
+          )}
+          {betType === 'pool' ? (
+            <div className="sidebet-pool">
+              <label>Backers</label>
+              {stakes.map((stake, index) => (
+                <div key={index} className="sidebet-stake">
+                  <select value={stake.player} onChange={(e) => updateStake(index, { player: e.target.value })}>
+                    <option value="">Select Player</option>
+                    {players.map(({ id, name }) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={stake.side}
+                    onChange={(e) => updateStake(index, { side: parseInt(e.target.value) as 1 | 2 })}
+                  >
+                    <option value={1}>Team 1</option>
+                    <option value={2}>Team 2</option>
+                  </select>
+                  <input
+                    type="number"
+                    value={stake.stake}
+                    onChange={(e) => updateStake(index, { stake: e.target.value })}
+                    placeholder="0.00"
+                    min="0"
+                    step="0.01"
+                  />
+                  <button
+                    className="remove-team-button"
+                    onClick={() => setStakes(stakes.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                className="add-backer-button"
+                onClick={() => setStakes([...stakes, { player: '', side: 1, stake: '' }])}
+              >
+                + Add Backer
+              </button>
+            </div>
+          ) : (
+            <div className="sidebet-amount">
+              <label>Amount per player: $</label>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+            </div>
+          )}
           <div className="sidebet-form-actions">
             <button onClick={handleAddSideBet}>Add Side Bet</button>
             <button onClick={() => setShowForm(false)}>Cancel</button>
@@ -868,38 +2793,47 @@ function SideBetsManager({
           <table className="sidebets-table">
             <thead>
               <tr>
+                <th>Game</th>
                 <th>Team 1</th>
                 <th>Team 2</th>
-                <th>Amount</th>
+                <th>Terms</th>
                 <th>Winner</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody>
-              {sideBets.map((bet) => (
-                <tr key={bet.id} className={bet.winner ? 'completed' : ''}>
-                  <td>{bet.team1[0]} & {bet.team1[1]}</td>
-                  <td>{bet.team2[0]} & {bet.team2[1]}</td>
-                  <td>${bet.amount.toFixed(2)}</td>
-                  <td>
-                    {bet.winner === null ? (
-                      <div className="winner-buttons">
-                        <button onClick={() => onUpdateSideBet(bet.id, 1)}>Team 1</button>
-                        <button onClick={() => onUpdateSideBet(bet.id, 2)}>Team 2</button>
-                      </div>
-                    ) : (
-                      <span className="winner-badge">
-                        {bet.winner === 1 ? 'Team 1 Won' : 'Team 2 Won'}
-                      </span>
-                    )}
-                  </td>
-                  <td>
-                    <button className="delete-button" onClick={() => onDeleteSideBet(bet.id)}>
-                      Delete
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {sideBets.map((bet) => {
+                const outcome = resolveSideBet(bet, rounds);
+                return (
+                  <tr key={bet.id} className={outcome ? 'completed' : ''}>
+                    <td>{bet.gameId !== undefined ? `Game ${bet.gameId}` : '—'}</td>
+                    <td>{formatTeam(bet.team1, nameOf)}</td>
+                    <td>{formatTeam(bet.team2, nameOf)}</td>
+                    <td>{describeSideBetTerms(bet)}</td>
+                    <td>
+                      {outcome === 'push' ? (
+                        <span className="pending-badge">Push</span>
+                      ) : outcome !== null ? (
+                        <span className="winner-badge">
+                          {outcome === 1 ? 'Team 1 Won' : 'Team 2 Won'}
+                        </span>
+                      ) : bet.gameId !== undefined ? (
+                        <span className="pending-badge">Awaiting score</span>
+                      ) : (
+                        <div className="winner-buttons">
+                          <button onClick={() => onUpdateSideBet(bet.id, 1)}>Team 1</button>
+                          <button onClick={() => onUpdateSideBet(bet.id, 2)}>Team 2</button>
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      <button className="delete-button" onClick={() => onDeleteSideBet(bet.id)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -908,12 +2842,352 @@ function SideBetsManager({
   );
 }
 
-function CustomPairingInterface({
+/**
+ * Renames players once the tournament has started. Games, standings and
+ * side bets follow each player's id, so only the displayed names change.
+ */
+function PlayerNamesEditor({
+  players,
+  onRename,
+}: {
+  players: Player[];
+  onRename: (names: string[]) => void;
+}) {
+  const [names, setNames] = useState<string[] | null>(null);
+
+  if (!names) {
+    return (
+      <button className="add-sidebet-button" onClick={() => setNames(players.map(({ name }) => name))}>
+        Rename Players
+      </button>
+    );
+  }
+
+  const save = () => {
+    const nameError = validatePlayerNames(names);
+    if (nameError) {
+      alert(nameError);
+      return;
+    }
+    onRename(names);
+    setNames(null);
+  };
+
+  return (
+    <div className="sidebet-form rename-players">
+      <div className="player-grid">
+        {players.map((player, index) => (
+          <div key={player.id} className="player-input-row">
+            <label>Player {index + 1}:</label>
+            <input
+              type="text"
+              value={names[index]}
+              onChange={(e) => setNames(names.map((name, i) => (i === index ? e.target.value : name)))}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="sidebet-form-actions">
+        <button onClick={save}>Save Names</button>
+        <button onClick={() => setNames(null)}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+function FairnessPanel({
+  rounds,
+  players,
+  nameOf,
+}: {
+  rounds: Round[];
+  players: string[];
+  nameOf: (id: string) => string;
+}) {
+  const [show, setShow] = useState(false);
+
+  if (!show) {
+    return (
+      <button className="add-sidebet-button" onClick={() => setShow(true)}>
+        Show Fairness Report
+      </button>
+    );
+  }
+
+  const analysis = analyzeSchedule(rounds, players);
+  const gamesSpread = getGamesSpread(analysis);
+  const describePairs = (pairs: PairCount[]) =>
+    pairs.map(({ players: pair, count }) => `${formatTeam(pair, nameOf)} (${count}×)`).join(', ');
+  const matrix = (title: string, values: number[][]) => (
+    <>
+      <h4>{title}</h4>
+      <div className="fairness-matrix">
+        <table className="breakdown-table">
+          <thead>
+            <tr>
+              <th></th>
+              {analysis.players.map((player) => <th key={player}>{nameOf(player)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.players.map((player, i) => (
+              <tr key={player}>
+                <th>{nameOf(player)}</th>
+                {values[i].map((count, j) => (
+                  <td key={analysis.players[j]} className={i !== j && count > 1 ? 'negative' : ''}>
+                    {i === j ? '—' : count}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="fairness-report">
+      <p className="tiebreak-chain">
+        Covers every game drawn so far, scored or not. Each court slot counts as a round.
+      </p>
+      <ul className="player-changes">
+        <li>
+          {gamesSpread === 0
+            ? 'Everyone plays the same number of games.'
+            : `Games per player differ by up to ${gamesSpread}.`}
+        </li>
+        <li>
+          {analysis.repeatedPartners.length === 0
+            ? 'No one partners the same player twice.'
+            : `Repeated partners: ${describePairs(analysis.repeatedPartners)}`}
+        </li>
+        <li>
+          {analysis.repeatedOpponents.length === 0
+            ? 'No one faces the same opponent twice.'
+            : `Repeated opponents: ${describePairs(analysis.repeatedOpponents)}`}
+        </li>
+        <li>
+          Sit-outs per player:{' '}
+          {Object.entries(analysis.sitOutDistribution)
+            .map(([sitOuts, count]) => `${sitOuts} (${count} player${count === 1 ? '' : 's'})`)
+            .join(', ')}
+        </li>
+      </ul>
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th>Player</th>
+            <th>Games</th>
+            <th>Sit-outs</th>
+            <th>Longest Run</th>
+            <th>Partners</th>
+            <th>Repeat Partners</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.perPlayer.map(({ player, games, sitOuts, longestStreak, partners, repeatedPartners }) => (
+            <tr key={player}>
+              <td>{nameOf(player)}</td>
+              <td>{games}</td>
+              <td>{sitOuts}</td>
+              <td>{longestStreak}</td>
+              <td>{partners}</td>
+              <td>{repeatedPartners}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {matrix('Partners', analysis.partnerMatrix)}
+      {matrix('Opponents', analysis.opponentMatrix)}
+      <button className="add-sidebet-button" onClick={() => setShow(false)}>
+        Hide Fairness Report
+      </button>
+    </div>
+  );
+}
+
+function PlayerChanges({
+  players,
+  withdrawals,
+  canWithdraw,
+  nameOf,
+  onSubstitute,
+  onWithdraw,
+}: {
+  players: Player[]; // Players still taking part
+  withdrawals: Withdrawal[];
+  canWithdraw: boolean; // Partners are fixed in the team format
+  nameOf: (id: string) => string;
+  onSubstitute: (playerId: string, name: string) => void;
+  onWithdraw: (playerId: string) => void;
+}) {
+  const [showForm, setShowForm] = useState(false);
+  const [playerId, setPlayerId] = useState('');
+  const [substituteName, setSubstituteName] = useState('');
+
+  const close = () => {
+    setShowForm(false);
+    setPlayerId('');
+    setSubstituteName('');
+  };
+
+  const substitute = () => {
+    if (!playerId) {
+      alert('Please choose the player who is leaving');
+      return;
+    }
+    if (!normalizeName(substituteName)) {
+      alert('Please enter a name for the substitute');
+      return;
+    }
+    onSubstitute(playerId, substituteName);
+    close();
+  };
+
+  const withdraw = () => {
+    if (!playerId) {
+      alert('Please choose the player who is leaving');
+      return;
+    }
+    onWithdraw(playerId);
+    close();
+  };
+
+  return (
+    <>
+      {withdrawals.length > 0 && (
+        <ul className="player-changes">
+          {withdrawals.map(({ player, substitute: sub }) => (
+            <li key={player}>
+              {sub ? `${nameOf(sub)} replaced ${nameOf(player)}` : `${nameOf(player)} withdrew`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {showForm ? (
+        <div className="sidebet-form player-change-form">
+          <div className="sidebet-game">
+            <label>Leaving:</label>
+            <select value={playerId} onChange={(e) => setPlayerId(e.target.value)}>
+              <option value="">Select player</option>
+              {players.map(({ id, name }) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="sidebet-game">
+            <label>Substitute:</label>
+            <input
+              type="text"
+              value={substituteName}
+              onChange={(e) => setSubstituteName(e.target.value)}
+              placeholder="New player's name"
+            />
+          </div>
+          <p className="tiebreak-chain">
+            A substitute takes over every game the player hasn't started.
+            {canWithdraw
+              ? ' Without one, the remaining games are redrawn for everyone else.'
+              : ' In the team format the team keeps its results, prize and entry fee.'}
+          </p>
+          <div className="sidebet-form-actions">
+            <button onClick={substitute}>Substitute</button>
+            {canWithdraw && <button onClick={withdraw}>Withdraw</button>}
+            <button onClick={close}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button className="add-sidebet-button" onClick={() => setShowForm(true)}>
+          Withdraw or Substitute a Player
+        </button>
+      )}
+    </>
+  );
+}
+
+function RosterPicker({
+  roster,
   playerNames,
+  onFill,
+  onRemove,
+}: {
+  roster: string[];
+  playerNames: string[];
+  onFill: (names: string[]) => void;
+  onRemove: (name: string) => void;
+}) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [pasted, setPasted] = useState('');
+
+  const entered = new Set(playerNames.map((name) => normalizeName(name).toLowerCase()));
+  const emptySlots = playerNames.filter((name) => normalizeName(name) === '').length;
+  const available = roster.filter((name) => !entered.has(normalizeName(name).toLowerCase()));
+
+  const toggle = (name: string) => {
+    setSelected(selected.includes(name)
+      ? selected.filter((selectedName) => selectedName !== name)
+      : [...selected, name]);
+  };
+
+  return (
+    <div className="roster-picker">
+      {roster.length > 0 && (
+        <>
+          <h3>Pick from Roster</h3>
+          <div className="roster-names">
+            {available.map((name) => (
+              <span key={name} className={`roster-name ${selected.includes(name) ? 'selected' : ''}`}>
+                <label>
+                  <input type="checkbox" checked={selected.includes(name)} onChange={() => toggle(name)} />
+                  {name}
+                </label>
+                <button title={`Remove ${name} from the roster`} onClick={() => onRemove(name)}>×</button>
+              </span>
+            ))}
+          </div>
+          <button
+            className="roster-fill-button"
+            disabled={selected.length === 0}
+            onClick={() => {
+              onFill(selected);
+              setSelected([]);
+            }}
+          >
+            Add {selected.length} of {emptySlots} open spot{emptySlots === 1 ? '' : 's'}
+          </button>
+        </>
+      )}
+
+      <h3>Paste a List</h3>
+      <textarea
+        value={pasted}
+        onChange={(e) => setPasted(e.target.value)}
+        placeholder="One name per line, or separated by commas"
+        rows={3}
+      />
+      <button
+        className="roster-fill-button"
+        disabled={pasted.trim() === ''}
+        onClick={() => {
+          onFill(parseNameList(pasted));
+          setPasted('');
+        }}
+      >
+        Fill Empty Spots
+      </button>
+    </div>
+  );
+}
+
+function CustomPairingInterface({
+  players,
+  teamCount,
   customTeams,
   onTeamsChange,
 }: {
-  playerNames: string[];
+  players: Player[];
+  teamCount: number;
   customTeams: Array<[string, string]>;
   onTeamsChange: (teams: Array<[string, string]>) => void;
 }) {
@@ -930,7 +3204,7 @@ function CustomPairingInterface({
   };
 
   const addTeam = () => {
-    if (customTeams.length < 6) {
+    if (customTeams.length < teamCount) {
       onTeamsChange([...customTeams, ['', '']]);
     }
   };
@@ -953,9 +3227,11 @@ function CustomPairingInterface({
       }
     });
 
-    return playerNames.filter(name => !assignedPlayers.has(name));
+    return players.filter(({ id }) => !assignedPlayers.has(id));
   };
 
+  const nameOf = createNameLookup(players);
+
   return (
     <div className="custom-pairing-interface">
       <div className="teams-list">
@@ -976,13 +3252,13 @@ function CustomPairingInterface({
                 onChange={(e) => handleTeamChange(teamIndex, 0, e.target.value)}
               >
                 <option value="">Select Player 1</option>
-                {getAvailablePlayers(teamIndex, 0).map((name) => (
-                  <option key={name} value={name}>
+                {getAvailablePlayers(teamIndex, 0).map(({ id, name }) => (
+                  <option key={id} value={id}>
                     {name}
                   </option>
                 ))}
-                {team[0] && !getAvailablePlayers(teamIndex, 0).includes(team[0]) && (
-                  <option value={team[0]}>{team[0]}</option>
+                {team[0] && !getAvailablePlayers(teamIndex, 0).some(({ id }) => id === team[0]) && (
+                  <option value={team[0]}>{nameOf(team[0])}</option>
                 )}
               </select>
               <span className="pairing-separator">&</span>
@@ -991,27 +3267,27 @@ function CustomPairingInterface({
                 onChange={(e) => handleTeamChange(teamIndex, 1, e.target.value)}
               >
                 <option value="">Select Player 2</option>
-                {getAvailablePlayers(teamIndex, 1).map((name) => (
-                  <option key={name} value={name}>
+                {getAvailablePlayers(teamIndex, 1).map(({ id, name }) => (
+                  <option key={id} value={id}>
                     {name}
                   </option>
                 ))}
-                {team[1] && !getAvailablePlayers(teamIndex, 1).includes(team[1]) && (
-                  <option value={team[1]}>{team[1]}</option>
+                {team[1] && !getAvailablePlayers(teamIndex, 1).some(({ id }) => id === team[1]) && (
+                  <option value={team[1]}>{nameOf(team[1])}</option>
                 )}
               </select>
             </div>
           </div>
         ))}
       </div>
-      {customTeams.length < 6 && (
+      {customTeams.length < teamCount && (
         <button className="add-team-button" onClick={addTeam}>
           + Add Team
         </button>
       )}
-      {playerNames.length === 12 && customTeams.length < 6 && (
+      {players.length === teamCount * 2 && customTeams.length < teamCount && (
         <p className="pairing-hint">
-          You need {6 - customTeams.length} more team(s) for 12 players
+          You need {teamCount - customTeams.length} more team(s) for {teamCount * 2} players
         </p>
       )}
     </div>
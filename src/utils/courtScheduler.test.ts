@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { scheduleCourts, getMaxCourts } from './courtScheduler';
+import { generateRoundRobinSchedule, generateTeamSchedule, type Round } from './scheduler';
+
+const players = ['Alice', 'Bob', 'Charlie', 'David', 'Eve', 'Frank', 'Grace', 'Henry'];
+
+const playersIn = (round: Round) =>
+  round.games.flatMap((game) => [...game.team1, ...game.team2]);
+
+describe('getMaxCourts', () => {
+  it('should allow one court per four players', () => {
+    expect(getMaxCourts(4)).toBe(1);
+    expect(getMaxCourts(11)).toBe(2);
+    expect(getMaxCourts(16)).toBe(4);
+  });
+});
+
+describe('scheduleCourts', () => {
+  it('should keep every game exactly once', () => {
+    const rounds = generateRoundRobinSchedule(players);
+    const slots = scheduleCourts(rounds, 1);
+
+    const originalIds = rounds.flatMap((round) => round.games.map((game) => game.id)).sort();
+    const slotIds = slots.flatMap((slot) => slot.games.map((game) => game.id)).sort();
+    expect(slotIds).toEqual(originalIds);
+  });
+
+  it('should never use more courts than available or double-book a player', () => {
+    const rounds = generateTeamSchedule(Array.from({ length: 14 }, (_, i) => `P${i + 1}`));
+    const slots = scheduleCourts(rounds, 2);
+
+    slots.forEach((slot) => {
+      expect(slot.games.length).toBeLessThanOrEqual(2);
+      const slotPlayers = playersIn(slot);
+      expect(new Set(slotPlayers).size).toBe(slotPlayers.length);
+    });
+  });
+
+  it('should number courts from 1 within each slot', () => {
+    const slots = scheduleCourts(generateRoundRobinSchedule(players), 2);
+    slots.forEach((slot) => {
+      expect(slot.games.map((game) => game.court)).toEqual([1, 2]);
+    });
+  });
+
+  it('should keep the original rounds when every game fits on a court', () => {
+    const rounds = generateRoundRobinSchedule(players);
+    const slots = scheduleCourts(rounds, 2);
+
+    expect(slots).toHaveLength(rounds.length);
+    slots.forEach((slot, index) => {
+      expect(slot.games.map((game) => game.id)).toEqual(rounds[index].games.map((game) => game.id));
+    });
+  });
+
+  it('should avoid back-to-back games when there is room to rest', () => {
+    // 12 players on 1 court: three games can always separate a player's games
+    const rounds = generateTeamSchedule(Array.from({ length: 12 }, (_, i) => `P${i + 1}`));
+    const slots = scheduleCourts(rounds, 1);
+
+    for (let i = 1; i < slots.length; i++) {
+      const previous = new Set(playersIn(slots[i - 1]));
+      playersIn(slots[i]).forEach((player) => {
+        expect(previous.has(player), `${player} plays slots ${i} and ${i + 1}`).toBe(false);
+      });
+    }
+  });
+
+  it('should list the players sitting out each slot', () => {
+    const slots = scheduleCourts(generateRoundRobinSchedule(players), 1);
+    slots.forEach((slot) => {
+      expect(slot.byes).toHaveLength(4);
+    });
+  });
+
+  it('should reject fewer than one court', () => {
+    expect(() => scheduleCourts([], 0)).toThrow('At least 1 court is required');
+  });
+});
@@ -0,0 +1,82 @@
+import type { Game, Round } from './scheduler';
+
+/**
+ * Largest number of courts that can be in use at once for a player count
+ */
+export function getMaxCourts(playerCount: number): number {
+  return Math.max(1, Math.floor(playerCount / 4));
+}
+
+function gamePlayers(game: Game): string[] {
+  return [...game.team1, ...game.team2];
+}
+
+/**
+ * Splits a schedule into time slots that fit the available courts
+ * Each slot holds at most `courtCount` games with no player on two courts,
+ * and each game is given a court number. Games are picked so that every
+ * player gets as much rest as possible between consecutive games, falling
+ * back to the original schedule order when rest is equal.
+ */
+export function scheduleCourts(rounds: Round[], courtCount: number): Round[] {
+  if (!Number.isInteger(courtCount) || courtCount < 1) {
+    throw new Error('At least 1 court is required');
+  }
+
+  const allPlayers = new Set<string>();
+  rounds.forEach((round) => {
+    round.games.forEach((game) => gamePlayers(game).forEach((player) => allPlayers.add(player)));
+    round.byes?.forEach((player) => allPlayers.add(player));
+  });
+
+  const remaining = rounds.flatMap((round) => round.games);
+  const lastSlot = new Map<string, number>();
+  const slots: Round[] = [];
+
+  while (remaining.length > 0) {
+    const slotIndex = slots.length;
+    const busy = new Set<string>();
+    const games: Game[] = [];
+
+    // Players who have not played yet count as fully rested
+    const rest = (player: string) =>
+      lastSlot.has(player) ? slotIndex - lastSlot.get(player)! : Number.MAX_SAFE_INTEGER;
+
+    while (games.length < courtCount) {
+      let bestIndex = -1;
+      let bestMinRest = -1;
+      let bestTotalRest = -1;
+
+      remaining.forEach((game, index) => {
+        const players = gamePlayers(game);
+        if (players.some((player) => busy.has(player))) return;
+
+        const rests = players.map(rest);
+        const minRest = Math.min(...rests);
+        const totalRest = rests.reduce((sum, value) => sum + Math.min(value, rounds.length), 0);
+        if (minRest > bestMinRest || (minRest === bestMinRest && totalRest > bestTotalRest)) {
+          bestIndex = index;
+          bestMinRest = minRest;
+          bestTotalRest = totalRest;
+        }
+      });
+
+      if (bestIndex === -1) break;
+
+      const [game] = remaining.splice(bestIndex, 1);
+      gamePlayers(game).forEach((player) => busy.add(player));
+      games.push({ ...game, court: games.length + 1 });
+    }
+
+    games.forEach((game) => gamePlayers(game).forEach((player) => lastSlot.set(player, slotIndex)));
+
+    const slot: Round = { roundNumber: slotIndex + 1, games };
+    const byes = Array.from(allPlayers).filter((player) => !busy.has(player));
+    if (byes.length > 0) {
+      slot.byes = byes;
+    }
+    slots.push(slot);
+  }
+
+  return slots;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  areRoundsComplete,
+  countDrawnRounds,
+  generateDynamicRound,
+  getDynamicStandings,
+} from './dynamicPairing';
+import type { Round } from './scheduler';
+import { createRandom } from './random';
+
+const players = ['Alice', 'Bob', 'Charlie', 'David', 'Eve', 'Frank', 'Grace', 'Henry'];
+
+const scoreRound = (round: Round, scores: Array<[number, number]>): Round => ({
+  ...round,
+  games: round.games.map((game, index) => ({
+    ...game,
+    team1Score: scores[index][0],
+    team2Score: scores[index][1],
+  })),
+});
+
+describe('generateDynamicRound', () => {
+  it('should follow the fixed 8-player rotation for Americano', () => {
+    const round1 = generateDynamicRound(players, [], 'americano');
+    expect(round1.roundNumber).toBe(1);
+    expect(round1.games.map((game) => [game.team1, game.team2])).toEqual([
+      [['Alice', 'Bob'], ['Charlie', 'David']],
+      [['Eve', 'Frank'], ['Grace', 'Henry']],
+    ]);
+
+    const scored = scoreRound(round1, [[21, 10], [15, 21]]);
+    const round2 = generateDynamicRound(players, [scored], 'americano');
+    expect(round2.roundNumber).toBe(2);
+    expect(round2.games.map((game) => game.id)).toEqual([3, 4]);
+    expect(round2.games.map((game) => [game.team1, game.team2])).toEqual([
+      [['Alice', 'Charlie'], ['Eve', 'Grace']],
+      [['Bob', 'David'], ['Frank', 'Henry']],
+    ]);
+  });
+
+  it('should pair 1st + 4th against 2nd + 3rd for Mexicano', () => {
+    const round1 = generateDynamicRound(players, [], 'mexicano');
+    // Alice & Bob 21, Charlie & David 10, Eve & Frank 15, Grace & Henry 19
+    const scored = scoreRound(round1, [[21, 10], [15, 19]]);
+    const round2 = generateDynamicRound(players, [scored], 'mexicano');
+
+    // Standings: Alice, Bob (21), Grace, Henry (19), Eve, Frank (15), Charlie, David (10)
+    expect(round2.games.map((game) => [game.team1, game.team2])).toEqual([
+      [['Alice', 'Henry'], ['Bob', 'Grace']],
+      [['Eve', 'David'], ['Frank', 'Charlie']],
+    ]);
+  });
+
+  it('should give byes to players who have played the most', () => {
+    const sixPlayers = players.slice(0, 6);
+    const round1 = generateDynamicRound(sixPlayers, [], 'mexicano');
+    expect(round1.games).toHaveLength(1);
+    expect(round1.byes).toHaveLength(2);
+
+    const scored = scoreRound(round1, [[21, 18]]);
+    const round2 = generateDynamicRound(sixPlayers, [scored], 'mexicano');
+    const round2Players = round2.games.flatMap((game) => [...game.team1, ...game.team2]);
+
+    // Both players who sat out round 1 must play round 2
+    round1.byes!.forEach((player) => expect(round2Players).toContain(player));
+  });
+
+  it('should repeat the same draw for the same seed', () => {
+    const ten = [...players, 'Ivan', 'Judy'];
+    const round1 = generateDynamicRound(ten, [], 'americano', createRandom(5));
+    expect(generateDynamicRound(ten, [], 'americano', createRandom(5))).toEqual(round1);
+
+    const scored = scoreRound(round1, [[21, 18], [21, 12]]);
+    const round2 = generateDynamicRound(ten, [scored], 'mexicano', createRandom(6));
+    expect(generateDynamicRound(ten, [scored], 'mexicano', createRandom(6))).toEqual(round2);
+  });
+
+  it('should refuse to draw a round before the previous one is scored', () => {
+    const round1 = generateDynamicRound(players, [], 'mexicano');
+    expect(() => generateDynamicRound(players, [round1], 'mexicano')).toThrow(
+      'All games in the previous round must be scored first'
+    );
+  });
+});
+
+describe('getDynamicStandings', () => {
+  it('should rank by points scored and keep unplayed players last', () => {
+    const rounds: Round[] = [
+      {
+        roundNumber: 1,
+        games: [{ id: 1, team1: ['Alice', 'Bob'], team2: ['Charlie', 'David'], team1Score: 12, team2Score: 21 }],
+      },
+    ];
+    expect(getDynamicStandings(players.slice(0, 5), rounds)).toEqual([
+      'Charlie', 'David', 'Alice', 'Bob', 'Eve',
+    ]);
+  });
+
+  it('should leave out players who are no longer playing', () => {
+    const rounds: Round[] = [
+      {
+        roundNumber: 1,
+        games: [{ id: 1, team1: ['Alice', 'Bob'], team2: ['Charlie', 'David'], team1Score: 12, team2Score: 21 }],
+      },
+    ];
+    expect(getDynamicStandings(['Alice', 'Bob', 'David', 'Eve'], rounds)).toEqual([
+      'David', 'Alice', 'Bob', 'Eve',
+    ]);
+  });
+});
+
+describe('countDrawnRounds', () => {
+  it('should count rounds by games even when split into court slots', () => {
+    const slots: Round[] = [
+      { roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'] }] },
+      { roundNumber: 2, games: [{ id: 2, team1: ['E', 'F'], team2: ['G', 'H'] }] },
+      { roundNumber: 3, games: [{ id: 3, team1: ['A', 'C'], team2: ['E', 'G'] }] },
+    ];
+    expect(countDrawnRounds(8, slots)).toBe(1);
+    expect(areRoundsComplete(slots)).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { getMatchResult } from './match';
+import {
+  calculatePlayerStats,
+  generateNextSocialRound,
+  getNextGameId,
+  rankPlayers,
+  selectByesByGamesPlayed,
+  type Game,
+  type Round,
+} from './scheduler';
+
+// Americano rotates partners on a fixed pattern; Mexicano draws partners
+// from the current standings (1st + 4th vs 2nd + 3rd on each court)
+export type DynamicPairingMode = 'americano' | 'mexicano';
+
+/**
+ * Checks whether every match in the given rounds has been decided
+ */
+export function areRoundsComplete(rounds: Round[]): boolean {
+  return rounds.every((round) => round.games.every((game) => getMatchResult(game) !== null));
+}
+
+/**
+ * Number of dynamic rounds drawn so far. Rounds may have been split into
+ * court slots, so this counts games rather than entries in `rounds`.
+ */
+export function countDrawnRounds(playerCount: number, rounds: Round[]): number {
+  const gamesSoFar = rounds.reduce((sum, round) => sum + round.games.length, 0);
+  return Math.floor(gamesSoFar / Math.floor(playerCount / 4));
+}
+
+/**
+ * Current standings for Americano and Mexicano: most points scored first.
+ * Players who have not played yet keep their entry order at the bottom,
+ * and anyone no longer in `players` (e.g. after withdrawing) is left out.
+ */
+export function getDynamicStandings(players: string[], rounds: Round[]): string[] {
+  const ranked = rankPlayers(calculatePlayerStats(rounds), 'most-points-scored')
+    .map(([player]) => player)
+    .filter((player) => players.includes(player));
+  return [...ranked, ...players.filter((player) => !ranked.includes(player))];
+}
+
+/**
+ * Draws the next Mexicano round: players are grouped by standing in fours,
+ * and within each group 1st + 4th play 2nd + 3rd
+ */
+function generateMexicanoRound(players: string[], previousRounds: Round[], random: () => number): Round {
+  const byes = selectByesByGamesPlayed(players, previousRounds, players.length % 4, random);
+  const standings = getDynamicStandings(players, previousRounds).filter(
+    (player) => !byes.has(player)
+  );
+
+  let gameId = getNextGameId(previousRounds);
+  const games: Game[] = [];
+  for (let i = 0; i < standings.length; i += 4) {
+    const [first, second, third, fourth] = standings.slice(i, i + 4);
+    games.push({ id: gameId++, team1: [first, fourth], team2: [second, third] });
+  }
+
+  const roundNumber = countDrawnRounds(players.length, previousRounds) + 1;
+  return byes.size > 0 ? { roundNumber, games, byes: Array.from(byes) } : { roundNumber, games };
+}
+
+/**
+ * Generates the next Americano or Mexicano round from the scored games so
+ * far. The first Mexicano round has no standings yet, so it uses the
+ * Americano rotation. Pass a seeded `random` to get the same draw again.
+ */
+export function generateDynamicRound(
+  players: string[],
+  previousRounds: Round[],
+  mode: DynamicPairingMode,
+  random: () => number = Math.random
+): Round {
+  if (!areRoundsComplete(previousRounds)) {
+    throw new Error('All games in the previous round must be scored first');
+  }
+
+  if (mode === 'mexicano' && previousRounds.length > 0) {
+    return generateMexicanoRound(players, previousRounds, random);
+  }
+
+  return generateNextSocialRound(players, previousRounds, random);
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HISTORY_STORAGE_KEY,
+  deleteSession,
+  duplicateSession,
+  loadSessions,
+  saveSession,
+} from './history';
+import type { KeyValueStorage } from './storage';
+import { STATE_VERSION, type TournamentState } from './urlState';
+
+const createStorage = (): KeyValueStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+const state = (names: string[]): TournamentState => ({
+  stage: 'playing',
+  format: '8-player',
+  players: names.map((name, index) => ({ id: `p${index + 1}`, name })),
+  rounds: [],
+  currentRound: 0,
+  sideBets: [],
+});
+
+describe('tournament history', () => {
+  it('should start empty', () => {
+    expect(loadSessions(createStorage())).toEqual([]);
+    expect(loadSessions(null)).toEqual([]);
+  });
+
+  it('should add new sessions and update existing ones', () => {
+    const storage = createStorage();
+    saveSession('a', state(['A']), storage, 100);
+    saveSession('b', state(['B']), storage, 200);
+    saveSession('a', state(['A', 'C']), storage, 300);
+
+    const sessions = loadSessions(storage);
+    expect(sessions.map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(sessions[0]).toMatchObject({ createdAt: 100, updatedAt: 300 });
+    expect(sessions[0].state.players.map(({ name }) => name)).toEqual(['A', 'C']);
+  });
+
+  it('should save without rewriting the other sessions', () => {
+    const storage = createStorage();
+    const legacy = { id: 'old', createdAt: 50, updatedAt: 50, state: { ...state([]), playerNames: ['Ann'] } };
+    storage.items.set(HISTORY_STORAGE_KEY, JSON.stringify([legacy]));
+    saveSession('a', state(['A']), storage, 100);
+
+    const stored = JSON.parse(storage.items.get(HISTORY_STORAGE_KEY)!);
+    expect(stored.map(({ id }: { id: string }) => id)).toEqual(['a', 'old']);
+    expect(stored[1]).toEqual(legacy);
+  });
+
+  it('should duplicate a session under a new id', () => {
+    const storage = createStorage();
+    saveSession('a', { ...state(['A']), sessionId: 'a' }, storage, 100);
+
+    const copy = duplicateSession('a', storage, 500);
+    expect(copy).not.toBeNull();
+    expect(copy!.id).not.toBe('a');
+    expect(copy!.state.sessionId).toBe(copy!.id);
+    expect(loadSessions(storage).map(({ id }) => id)).toEqual([copy!.id, 'a']);
+    expect(duplicateSession('missing', storage)).toBeNull();
+  });
+
+  it('should delete a session', () => {
+    const storage = createStorage();
+    saveSession('a', state(['A']), storage, 100);
+    saveSession('b', state(['B']), storage, 200);
+    deleteSession('a', storage);
+
+    expect(loadSessions(storage).map(({ id }) => id)).toEqual(['b']);
+  });
+
+  it('should keep sessions it can\'t load when duplicating or deleting another', () => {
+    const storage = createStorage();
+    const newer = { id: 'newer', createdAt: 50, updatedAt: 50, version: STATE_VERSION + 1, state: {} };
+    storage.items.set(HISTORY_STORAGE_KEY, JSON.stringify([newer]));
+    saveSession('a', { ...state(['A']), sessionId: 'a' }, storage, 100);
+
+    const copy = duplicateSession('a', storage, 200);
+    deleteSession('a', storage);
+
+    const stored = JSON.parse(storage.items.get(HISTORY_STORAGE_KEY)!);
+    expect(stored.map(({ id }: { id: string }) => id)).toEqual([copy!.id, 'newer']);
+    expect(stored[1]).toEqual(newer);
+  });
+
+  it('should migrate sessions saved before player ids', () => {
+    const storage = createStorage();
+    const legacy = { ...state([]), players: undefined, playerNames: ['Ann', 'Ben'] };
+    storage.items.set(
+      HISTORY_STORAGE_KEY,
+      JSON.stringify([{ id: 'a', createdAt: 100, updatedAt: 100, state: legacy }])
+    );
+
+    const [session] = loadSessions(storage);
+    expect(session.version).toBe(STATE_VERSION);
+    expect(session.state.players).toEqual([
+      { id: 'p1', name: 'Ann' },
+      { id: 'p2', name: 'Ben' },
+    ]);
+  });
+
+  it('should ignore unreadable history', () => {
+    const storage = createStorage();
+    storage.items.set(HISTORY_STORAGE_KEY, 'not json');
+    expect(loadSessions(storage)).toEqual([]);
+
+    storage.items.set(HISTORY_STORAGE_KEY, JSON.stringify([{ id: 1 }, null]));
+    expect(loadSessions(storage)).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { STATE_VERSION, migrateState, type TournamentState } from './urlState';
+import { getLocalStorage, type KeyValueStorage } from './storage';
+
+export const HISTORY_STORAGE_KEY = 'badminton-history';
+
+export interface SavedSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  version?: number; // State version the session was saved with; absent before version 3
+  state: TournamentState;
+}
+
+function writeSessions(sessions: SavedSession[], storage: KeyValueStorage | null): void {
+  if (!storage) return;
+  try {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error('Failed to save tournament history:', error);
+  }
+}
+
+// Sessions as stored, without migrating or checking them, so some may be
+// from older versions or unreadable
+function readStoredSessions(storage: KeyValueStorage): SavedSession[] {
+  try {
+    const sessions = JSON.parse(storage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(sessions) ? sessions : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Creates an id for a new session
+ */
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Gets every saved session, most recently updated first. Sessions saved by
+ * older versions are migrated; any that can't be are left out.
+ */
+export function loadSessions(storage: KeyValueStorage | null = getLocalStorage()): SavedSession[] {
+  if (!storage) return [];
+  try {
+    const sessions = JSON.parse(storage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(sessions)) return [];
+
+    return sessions
+      .flatMap((session): SavedSession[] => {
+        if (!session || typeof session.id !== 'string' || typeof session.updatedAt !== 'number') return [];
+        try {
+          return [{ ...session, version: STATE_VERSION, state: migrateState(session.state, session.version ?? 2) }];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Failed to load tournament history:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves a session's latest state, adding it to the history if it is new.
+ * This runs on every change, so the other sessions are written back as
+ * stored rather than migrated and checked again.
+ */
+export function saveSession(
+  id: string,
+  state: TournamentState,
+  storage: KeyValueStorage | null = getLocalStorage(),
+  now: number = Date.now()
+): void {
+  if (!storage) return;
+  const sessions = readStoredSessions(storage);
+  const index = sessions.findIndex((session) => session?.id === id);
+  const createdAt = index === -1 ? now : sessions[index].createdAt;
+  const saved: SavedSession = { id, createdAt, updatedAt: now, version: STATE_VERSION, state };
+
+  if (index === -1) {
+    sessions.unshift(saved);
+  } else {
+    sessions[index] = saved;
+  }
+
+  writeSessions(sessions, storage);
+}
+
+/**
+ * Copies a saved session under a new id. Returns the copy, or null if the
+ * session no longer exists. Sessions that can't be loaded, such as ones
+ * saved by a newer version, are kept as stored.
+ */
+export function duplicateSession(
+  id: string,
+  storage: KeyValueStorage | null = getLocalStorage(),
+  now: number = Date.now()
+): SavedSession | null {
+  if (!storage) return null;
+  const original = loadSessions(storage).find((session) => session.id === id);
+  if (!original) return null;
+
+  const copyId = createSessionId();
+  const copy: SavedSession = {
+    id: copyId,
+    createdAt: now,
+    updatedAt: now,
+    version: STATE_VERSION,
+    state: { ...structuredClone(original.state), sessionId: copyId },
+  };
+  writeSessions([copy, ...readStoredSessions(storage)], storage);
+  return copy;
+}
+
+/**
+ * Removes a session from the history, leaving the others as stored
+ */
+export function deleteSession(id: string, storage: KeyValueStorage | null = getLocalStorage()): void {
+  if (!storage) return;
+  writeSessions(
+    readStoredSessions(storage).filter((session) => session?.id !== id),
+    storage
+  );
+}
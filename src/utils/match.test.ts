@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getGameScores,
+  getMatchResult,
+  setMatchScores,
+  validateMatchScores,
+  withMatchLength,
+} from './match';
+import type { Game, Round } from './scheduler';
+
+const bestOfThree: Game = { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], bestOf: 3 };
+
+describe('getMatchResult', () => {
+  it('should treat a scored single game as the whole match', () => {
+    const result = getMatchResult({ ...bestOfThree, bestOf: undefined, team1Score: 21, team2Score: 15 });
+    expect(result).toMatchObject({ winner: 1, team1Games: 1, team2Games: 0, team1Points: 21, team2Points: 15 });
+  });
+
+  it('should return null until a match is decided', () => {
+    expect(getMatchResult({ ...bestOfThree, bestOf: undefined })).toBeNull();
+    expect(getMatchResult({ ...bestOfThree, matchGames: [{ team1Score: 21, team2Score: 15 }] })).toBeNull();
+    expect(getMatchResult({
+      ...bestOfThree,
+      matchGames: [{ team1Score: 21, team2Score: 15 }, { team1Score: 18, team2Score: 21 }],
+    })).toBeNull();
+  });
+
+  it('should derive the winner from games won, not rally points', () => {
+    const result = getMatchResult({
+      ...bestOfThree,
+      matchGames: [
+        { team1Score: 21, team2Score: 2 },
+        { team1Score: 19, team2Score: 21 },
+        { team1Score: 20, team2Score: 22 },
+      ],
+    });
+    expect(result).toMatchObject({ winner: 2, team1Games: 1, team2Games: 2, team1Points: 60, team2Points: 45 });
+  });
+});
+
+describe('validateMatchScores', () => {
+  it('should accept two- and three-game matches', () => {
+    expect(validateMatchScores([{ team1Score: 21, team2Score: 10 }, { team1Score: 21, team2Score: 12 }], 3)).toBeNull();
+    expect(validateMatchScores([
+      { team1Score: 21, team2Score: 10 },
+      { team1Score: 12, team2Score: 21 },
+      { team1Score: 21, team2Score: 19 },
+    ], 3)).toBeNull();
+  });
+
+  it('should require a deciding game when the first two are split', () => {
+    expect(validateMatchScores([{ team1Score: 21, team2Score: 10 }, { team1Score: 12, team2Score: 21 }], 3)).toBe(
+      'One side must win two games; enter the deciding game'
+    );
+  });
+
+  it('should reject a third game after the match is won', () => {
+    expect(validateMatchScores([
+      { team1Score: 21, team2Score: 10 },
+      { team1Score: 21, team2Score: 12 },
+      { team1Score: 21, team2Score: 19 },
+    ], 3)).toBe('The match was already won after two games, so there is no game 3');
+  });
+
+  it('should say which game has an invalid score', () => {
+    expect(validateMatchScores([{ team1Score: 21, team2Score: 10 }, { team1Score: 5, team2Score: 5 }], 3)).toBe(
+      'Game 2: A game cannot end in a tie'
+    );
+  });
+
+  it('should validate single games with the scoring rules', () => {
+    expect(validateMatchScores([{ team1Score: 40, team2Score: 3 }], 1)).toBe('Games are capped at 30 points');
+  });
+});
+
+describe('setMatchScores', () => {
+  it('should store single-game scores on the game itself', () => {
+    const game = setMatchScores({ ...bestOfThree, bestOf: undefined }, [{ team1Score: 21, team2Score: 9 }]);
+    expect(game.team1Score).toBe(21);
+    expect(game.team2Score).toBe(9);
+    expect(getGameScores(game)).toEqual([{ team1Score: 21, team2Score: 9 }]);
+  });
+
+  it('should store every game of a best-of-three match', () => {
+    const scores = [{ team1Score: 21, team2Score: 9 }, { team1Score: 21, team2Score: 11 }];
+    const game = setMatchScores(bestOfThree, scores);
+    expect(game.matchGames).toEqual(scores);
+    expect(game.team1Score).toBeUndefined();
+  });
+});
+
+describe('withMatchLength', () => {
+  const rounds: Round[] = [{ roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'] }] }];
+
+  it('should mark games as best of three', () => {
+    expect(withMatchLength(rounds, 3)[0].games[0].bestOf).toBe(3);
+  });
+
+  it('should leave single-game rounds unchanged', () => {
+    expect(withMatchLength(rounds, 1)).toBe(rounds);
+  });
+});
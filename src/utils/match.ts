@@ -0,0 +1,109 @@
+import { DEFAULT_SCORING_RULES, validateScore, type ScoringRules } from './scoring';
+import type { Game, GameScore, Round } from './scheduler';
+
+// Matches are a single game unless the game is marked best of three
+export type MatchLength = 1 | 3;
+
+export interface MatchResult {
+  winner: 1 | 2 | null; // null only for a single game entered as a tie
+  team1Games: number;
+  team2Games: number;
+  team1Points: number; // Rally points across every game of the match
+  team2Points: number;
+  games: GameScore[];
+}
+
+/**
+ * Game-by-game scores entered so far for a match
+ */
+export function getGameScores(game: Game): GameScore[] {
+  if (game.bestOf === 3) return game.matchGames ?? [];
+  if (game.team1Score === undefined || game.team2Score === undefined) return [];
+  return [{ team1Score: game.team1Score, team2Score: game.team2Score }];
+}
+
+/**
+ * Result of a finished match, or null if it hasn't been decided yet. A
+ * best-of-three match is won by the first side to win two games.
+ */
+export function getMatchResult(game: Game): MatchResult | null {
+  const games = getGameScores(game);
+  if (games.length === 0) return null;
+
+  const team1Games = games.filter((score) => score.team1Score > score.team2Score).length;
+  const team2Games = games.filter((score) => score.team2Score > score.team1Score).length;
+  const gamesToWin = game.bestOf === 3 ? 2 : 1;
+
+  let winner: 1 | 2 | null = null;
+  if (team1Games >= gamesToWin) winner = 1;
+  else if (team2Games >= gamesToWin) winner = 2;
+  else if (game.bestOf === 3) return null;
+
+  return {
+    winner,
+    team1Games,
+    team2Games,
+    team1Points: games.reduce((sum, score) => sum + score.team1Score, 0),
+    team2Points: games.reduce((sum, score) => sum + score.team2Score, 0),
+    games,
+  };
+}
+
+/**
+ * Checks the scores for a whole match. Returns a message describing the
+ * problem, or null if the scores make a finished match.
+ */
+export function validateMatchScores(
+  scores: GameScore[],
+  matchLength: MatchLength,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): string | null {
+  if (matchLength === 1) {
+    if (scores.length !== 1) return 'Enter one score for each team';
+    return validateScore(scores[0].team1Score, scores[0].team2Score, rules);
+  }
+
+  if (scores.length < 2) {
+    return 'A best-of-three match needs at least two games';
+  }
+
+  let team1Games = 0;
+  let team2Games = 0;
+  for (const [index, score] of scores.entries()) {
+    if (team1Games === 2 || team2Games === 2) {
+      return 'The match was already won after two games, so there is no game 3';
+    }
+    const error = validateScore(score.team1Score, score.team2Score, rules);
+    if (error) return `Game ${index + 1}: ${error}`;
+    if (score.team1Score > score.team2Score) team1Games++;
+    else team2Games++;
+  }
+
+  if (team1Games < 2 && team2Games < 2) {
+    return 'One side must win two games; enter the deciding game';
+  }
+  return null;
+}
+
+/**
+ * Records the scores for a match on its game
+ */
+export function setMatchScores<T extends Game>(game: T, scores: GameScore[]): T {
+  if (game.bestOf === 3) {
+    return { ...game, matchGames: scores };
+  }
+  const [{ team1Score, team2Score }] = scores;
+  return { ...game, team1Score, team2Score };
+}
+
+/**
+ * Marks every game in the rounds as best of three when that match length
+ * is chosen; single-game matches are left as they are
+ */
+export function withMatchLength(rounds: Round[], matchLength: MatchLength): Round[] {
+  if (matchLength === 1) return rounds;
+  return rounds.map((round) => ({
+    ...round,
+    games: round.games.map((game) => ({ ...game, bestOf: 3 })),
+  }));
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createNameLookup, createPlayers, formatTeam, resizePlayers } from './players';
+
+describe('createPlayers', () => {
+  it('should number new players', () => {
+    expect(createPlayers(['Alice', 'Bob'])).toEqual([
+      { id: 'p1', name: 'Alice' },
+      { id: 'p2', name: 'Bob' },
+    ]);
+  });
+
+  it('should not reuse ids of existing players', () => {
+    const existing = [
+      { id: 'p1', name: 'Alice' },
+      { id: 'p7', name: 'Bob' },
+      { id: 'guest', name: 'Carol' },
+    ];
+    expect(createPlayers(['Dave'], existing)).toEqual([{ id: 'p8', name: 'Dave' }]);
+  });
+});
+
+describe('resizePlayers', () => {
+  it('should keep existing players when growing or shrinking', () => {
+    const players = createPlayers(['Alice', 'Bob', 'Carol']);
+    expect(resizePlayers(players, 2)).toEqual(players.slice(0, 2));
+    expect(resizePlayers(players.slice(0, 2), 4)).toEqual([
+      ...players.slice(0, 2),
+      { id: 'p3', name: '' },
+      { id: 'p4', name: '' },
+    ]);
+  });
+});
+
+describe('player names', () => {
+  it('should look up names by id and show unknown ids as they are', () => {
+    const nameOf = createNameLookup(createPlayers(['Alice', 'Bob']));
+    expect(nameOf('p2')).toBe('Bob');
+    expect(nameOf('p9')).toBe('p9');
+    expect(formatTeam(['p1', 'p2'], nameOf)).toBe('Alice & Bob');
+  });
+});
@@ -0,0 +1,43 @@
+// Games, side bets, stats and payouts refer to players by `id`, which never
+// changes; `name` is only for display, so players can be renamed mid-session
+export interface Player {
+  id: string;
+  name: string;
+}
+
+/**
+ * Creates players for the given names, with ids that don't clash with any
+ * existing players ("p1", "p2", ...)
+ */
+export function createPlayers(names: string[], existing: Player[] = []): Player[] {
+  let next = existing.reduce((max, { id }) => {
+    const number = /^p(\d+)$/.exec(id);
+    return number ? Math.max(max, parseInt(number[1])) : max;
+  }, 0);
+
+  return names.map((name) => ({ id: `p${++next}`, name }));
+}
+
+/**
+ * Resizes the player list, keeping existing players (and their ids) and
+ * adding unnamed players as needed
+ */
+export function resizePlayers(players: Player[], count: number): Player[] {
+  if (count <= players.length) return players.slice(0, count);
+  return [...players, ...createPlayers(Array(count - players.length).fill(''), players)];
+}
+
+/**
+ * Looks up display names by id. Unknown ids are shown as they are.
+ */
+export function createNameLookup(players: Player[]): (id: string) => string {
+  const names = new Map(players.map(({ id, name }) => [id, name]));
+  return (id) => names.get(id) ?? id;
+}
+
+/**
+ * Display name for a pair, e.g. "Alice & Bob"
+ */
+export function formatTeam(team: string[], nameOf: (id: string) => string): string {
+  return team.map(nameOf).join(' & ');
+}
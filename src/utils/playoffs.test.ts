@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pairSeededPlayers,
+  createBracket,
+  setPlayoffScore,
+  setPlayoffMatchScores,
+  getPlayoffPlacement,
+} from './playoffs';
+import { calculatePayouts, calculate12PlayerPayouts, type Round } from './scheduler';
+
+const ranked = ['P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8'];
+
+describe('pairSeededPlayers', () => {
+  it('should pair 1+4 vs 2+3 for a final', () => {
+    expect(pairSeededPlayers(ranked, 2)).toEqual([['P1', 'P4'], ['P2', 'P3']]);
+  });
+
+  it('should pair best with worst of the top 8 for semifinals', () => {
+    expect(pairSeededPlayers(ranked, 4)).toEqual([
+      ['P1', 'P8'], ['P2', 'P7'], ['P3', 'P6'], ['P4', 'P5'],
+    ]);
+  });
+
+  it('should require enough players', () => {
+    expect(() => pairSeededPlayers(ranked.slice(0, 6), 4)).toThrow(
+      'At least 8 players are required for this bracket'
+    );
+  });
+});
+
+describe('playoff bracket', () => {
+  const seeds: Array<[string, string]> = [['A', 'B'], ['C', 'D'], ['E', 'F'], ['G', 'H']];
+
+  it('should play 1 v 4 and 2 v 3 in the semifinals', () => {
+    const bracket = createBracket(seeds, 100);
+    expect(bracket.games.map((game) => [game.id, game.stage, game.team1, game.team2])).toEqual([
+      [100, 'semifinal', ['A', 'B'], ['G', 'H']],
+      [101, 'semifinal', ['C', 'D'], ['E', 'F']],
+    ]);
+  });
+
+  it('should add the final once both semifinals are decided', () => {
+    let bracket = createBracket(seeds, 100);
+    bracket = setPlayoffScore(bracket, 100, 21, 15);
+    expect(bracket.games.some((game) => game.stage === 'final')).toBe(false);
+
+    bracket = setPlayoffScore(bracket, 101, 18, 21);
+    const final = bracket.games.find((game) => game.stage === 'final');
+    expect(final?.team1).toEqual(['A', 'B']);
+    expect(final?.team2).toEqual(['E', 'F']);
+    expect(final?.id).toBe(102);
+  });
+
+  it('should redraw the final if a semifinal result changes', () => {
+    let bracket = createBracket(seeds, 1);
+    bracket = setPlayoffScore(bracket, 1, 21, 15);
+    bracket = setPlayoffScore(bracket, 2, 21, 15);
+    bracket = setPlayoffScore(bracket, 3, 21, 19);
+
+    bracket = setPlayoffScore(bracket, 1, 15, 21);
+    const final = bracket.games.find((game) => game.stage === 'final');
+    expect(final?.team1).toEqual(['G', 'H']);
+    expect(final?.team1Score).toBeUndefined();
+  });
+
+  it('should place champion, runner-up, then semifinal losers by seed', () => {
+    let bracket = createBracket(seeds, 1);
+    expect(getPlayoffPlacement(bracket)).toBeNull();
+
+    bracket = setPlayoffScore(bracket, 1, 15, 21); // G & H beat top seed
+    bracket = setPlayoffScore(bracket, 2, 21, 15); // C & D through
+    bracket = setPlayoffScore(bracket, 3, 21, 17); // G & H win the final
+
+    expect(getPlayoffPlacement(bracket)).toEqual([['G', 'H'], ['C', 'D'], ['A', 'B'], ['E', 'F']]);
+  });
+
+  it('should work after a round trip through JSON', () => {
+    let bracket = JSON.parse(JSON.stringify(createBracket([['A', 'B'], ['C', 'D']], 1)));
+    bracket = setPlayoffScore(bracket, 1, 19, 21);
+    expect(getPlayoffPlacement(bracket)).toEqual([['C', 'D'], ['A', 'B']]);
+  });
+
+  it('should play best-of-three matches through to the final', () => {
+    let bracket = createBracket(seeds, 1, 3);
+    const winTwoNil = [{ team1Score: 21, team2Score: 10 }, { team1Score: 21, team2Score: 12 }];
+    bracket = setPlayoffMatchScores(bracket, 1, winTwoNil);
+    bracket = setPlayoffMatchScores(bracket, 2, [{ team1Score: 21, team2Score: 10 }]);
+    expect(bracket.games.some((game) => game.stage === 'final')).toBe(false);
+
+    bracket = setPlayoffMatchScores(bracket, 2, [
+      { team1Score: 21, team2Score: 10 },
+      { team1Score: 15, team2Score: 21 },
+      { team1Score: 17, team2Score: 21 },
+    ]);
+    const final = bracket.games.find((game) => game.stage === 'final')!;
+    expect(final.bestOf).toBe(3);
+    expect([final.team1, final.team2]).toEqual([['A', 'B'], ['E', 'F']]);
+  });
+});
+
+describe('payouts with playoff placement', () => {
+  const rounds: Round[] = [
+    {
+      roundNumber: 1,
+      games: [
+        { id: 1, team1: ['P1', 'P2'], team2: ['P3', 'P4'], team1Score: 21, team2Score: 10 },
+        { id: 2, team1: ['P5', 'P6'], team2: ['P7', 'P8'], team1Score: 21, team2Score: 5 },
+      ],
+    },
+  ];
+
+  it('should split each playoff place between the partners', () => {
+    const payouts = calculatePayouts(rounds, 2, { placement: [['P7', 'P8'], ['P3', 'P4']] });
+    // $8 + $6 for the champions, $2 + $0 for the runners-up
+    expect(payouts['P7']).toBe(5);
+    expect(payouts['P8']).toBe(5);
+    expect(payouts['P3']).toBe(-1);
+    expect(payouts['P4']).toBe(-1);
+    expect(payouts['P1']).toBe(-2);
+  });
+
+  it('should award team prizes in playoff order', () => {
+    const payouts = calculate12PlayerPayouts(rounds, 2, {
+      prizeSplit: { type: 'fixed', places: [8, 6, 2] },
+      placement: [['P3', 'P4'], ['P1', 'P2']],
+    });
+    expect(payouts['P3']).toBe(2);
+    expect(payouts['P1']).toBe(1);
+    expect(payouts['P5']).toBe(-1);
+    expect(payouts['P7']).toBe(-2);
+  });
+});
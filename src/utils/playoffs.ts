@@ -0,0 +1,167 @@
+import { getMatchResult, setMatchScores, type MatchLength } from './match';
+import type { Game, GameScore } from './scheduler';
+
+export type PlayoffStage = 'semifinal' | 'final';
+
+export interface PlayoffGame extends Game {
+  stage: PlayoffStage;
+}
+
+export interface PlayoffBracket {
+  seeds: Array<[string, string]>; // Seeded teams, top seed first
+  games: PlayoffGame[];
+  bestOf?: 3; // Playoff matches are best of three
+}
+
+// Number of teams in the bracket: a final only, or semifinals and a final
+export type BracketSize = 2 | 4;
+
+/**
+ * Forms playoff pairs from individual standings, best with worst:
+ * for 2 teams 1+4 and 2+3, for 4 teams 1+8, 2+7, 3+6 and 4+5
+ */
+export function pairSeededPlayers(
+  rankedPlayers: string[],
+  size: BracketSize
+): Array<[string, string]> {
+  const playerCount = size * 2;
+  if (rankedPlayers.length < playerCount) {
+    throw new Error(`At least ${playerCount} players are required for this bracket`);
+  }
+
+  const qualified = rankedPlayers.slice(0, playerCount);
+  return Array.from({ length: size }, (_, i) => [qualified[i], qualified[playerCount - 1 - i]]);
+}
+
+/**
+ * Creates a bracket from seeded teams. Four teams play 1 v 4 and 2 v 3 in
+ * the semifinals; two teams go straight to the final.
+ */
+export function createBracket(
+  seeds: Array<[string, string]>,
+  firstGameId: number,
+  matchLength: MatchLength = 1
+): PlayoffBracket {
+  if (seeds.length !== 2 && seeds.length !== 4) {
+    throw new Error('A playoff bracket needs 2 or 4 teams');
+  }
+
+  const bracket: PlayoffBracket = { seeds, games: [] };
+  if (matchLength === 3) {
+    bracket.bestOf = 3;
+  }
+
+  if (seeds.length === 2) {
+    bracket.games = [createPlayoffGame(bracket, firstGameId, seeds[0], seeds[1], 'final')];
+    return bracket;
+  }
+
+  bracket.games = [
+    createPlayoffGame(bracket, firstGameId, seeds[0], seeds[3], 'semifinal'),
+    createPlayoffGame(bracket, firstGameId + 1, seeds[1], seeds[2], 'semifinal'),
+  ];
+  return bracket;
+}
+
+function createPlayoffGame(
+  bracket: PlayoffBracket,
+  id: number,
+  team1: [string, string],
+  team2: [string, string],
+  stage: PlayoffStage
+): PlayoffGame {
+  return bracket.bestOf ? { id, team1, team2, stage, bestOf: bracket.bestOf } : { id, team1, team2, stage };
+}
+
+// Compare teams by their players; brackets loaded from a link are new objects
+function sameTeam(a: [string, string], b: [string, string]): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Winning team of a decided match, or null if undecided or tied
+ */
+function getWinner(game: Game): [string, string] | null {
+  const result = getMatchResult(game);
+  if (!result || result.winner === null) return null;
+  return result.winner === 1 ? game.team1 : game.team2;
+}
+
+function getLoser(game: Game): [string, string] | null {
+  const winner = getWinner(game);
+  if (!winner) return null;
+  return sameTeam(winner, game.team1) ? game.team2 : game.team1;
+}
+
+/**
+ * Records a single-game playoff score
+ */
+export function setPlayoffScore(
+  bracket: PlayoffBracket,
+  gameId: number,
+  team1Score: number,
+  team2Score: number
+): PlayoffBracket {
+  return setPlayoffMatchScores(bracket, gameId, [{ team1Score, team2Score }]);
+}
+
+/**
+ * Records the scores for a playoff match. Once both semifinals have a
+ * winner the final is added, and if a semifinal result changes the final
+ * is redrawn.
+ */
+export function setPlayoffMatchScores(
+  bracket: PlayoffBracket,
+  gameId: number,
+  scores: GameScore[]
+): PlayoffBracket {
+  const games = bracket.games.map((game) =>
+    game.id === gameId ? setMatchScores(game, scores) : game
+  );
+
+  const semifinals = games.filter((game) => game.stage === 'semifinal');
+  if (semifinals.length === 0) {
+    return { ...bracket, games };
+  }
+
+  const finalists = semifinals.map(getWinner);
+  const existingFinal = games.find((game) => game.stage === 'final');
+  const withoutFinal = games.filter((game) => game.stage !== 'final');
+
+  if (finalists.some((team) => team === null)) {
+    return { ...bracket, games: withoutFinal };
+  }
+
+  const [team1, team2] = finalists as Array<[string, string]>;
+  if (existingFinal && sameTeam(existingFinal.team1, team1) && sameTeam(existingFinal.team2, team2)) {
+    return { ...bracket, games };
+  }
+
+  const finalId = Math.max(...semifinals.map((game) => game.id)) + 1;
+  return {
+    ...bracket,
+    games: [...withoutFinal, createPlayoffGame(bracket, finalId, team1, team2, 'final')],
+  };
+}
+
+/**
+ * Teams in finishing order once the final has been played: champion,
+ * runner-up, then semifinal losers by seed. Returns null until then.
+ */
+export function getPlayoffPlacement(bracket: PlayoffBracket): Array<[string, string]> | null {
+  const final = bracket.games.find((game) => game.stage === 'final');
+  if (!final) return null;
+
+  const champion = getWinner(final);
+  const runnerUp = getLoser(final);
+  if (!champion || !runnerUp) return null;
+
+  const seedIndex = (team: [string, string]) =>
+    bracket.seeds.findIndex((seed) => sameTeam(seed, team));
+  const semifinalLosers = bracket.games
+    .filter((game) => game.stage === 'semifinal')
+    .map((game) => getLoser(game)!)
+    .sort((a, b) => seedIndex(a) - seedIndex(b));
+
+  return [champion, runnerUp, ...semifinalLosers];
+}
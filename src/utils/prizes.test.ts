@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPrizeAmounts,
+  validatePrizeConfig,
+  splitTiedPrizes,
+  DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+  DEFAULT_TEAM_PRIZE_SPLIT,
+} from './prizes';
+
+describe('getPrizeAmounts', () => {
+  it('should reproduce the classic prizes with the default splits', () => {
+    expect(getPrizeAmounts(DEFAULT_INDIVIDUAL_PRIZE_SPLIT, 2, 8, 1)).toEqual([8, 6, 2]);
+    expect(getPrizeAmounts(DEFAULT_TEAM_PRIZE_SPLIT, 2, 12, 2)).toEqual([6, 4, 2]);
+  });
+
+  it('should scale percentage splits with the pool', () => {
+    expect(getPrizeAmounts(DEFAULT_INDIVIDUAL_PRIZE_SPLIT, 5, 10, 1)).toEqual([25, 18.75, 6.25]);
+  });
+
+  it('should round to the cent and still pay out the whole pool', () => {
+    const amounts = getPrizeAmounts({ type: 'percentage', places: [100 / 3, 100 / 3, 100 / 3] }, 1, 7, 1);
+    expect(amounts).toEqual([2.34, 2.33, 2.33]);
+    expect(amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(7, 10);
+  });
+
+  it('should split team places evenly between teammates', () => {
+    const amounts = getPrizeAmounts({ type: 'percentage', places: [60, 40] }, 1.25, 6, 2);
+    // Pool $7.50: $4.50 and $3.00 per team
+    expect(amounts).toEqual([2.25, 1.5]);
+  });
+
+  it('should pay fixed amounts per place, halved for teams', () => {
+    expect(getPrizeAmounts({ type: 'fixed', places: [10, 6] }, 2, 8, 1)).toEqual([10, 6]);
+    expect(getPrizeAmounts({ type: 'fixed', places: [10, 6] }, 2, 8, 2)).toEqual([5, 3]);
+  });
+});
+
+describe('validatePrizeConfig', () => {
+  it('should accept the defaults', () => {
+    expect(validatePrizeConfig({ entryFee: 2, split: DEFAULT_INDIVIDUAL_PRIZE_SPLIT }, 8, 1)).toBeNull();
+    expect(validatePrizeConfig({ entryFee: 2, split: DEFAULT_TEAM_PRIZE_SPLIT }, 12, 2)).toBeNull();
+  });
+
+  it('should reject percentages that do not add up to 100', () => {
+    expect(
+      validatePrizeConfig({ entryFee: 2, split: { type: 'percentage', places: [50, 30] } }, 8, 1)
+    ).toBe('Percentages add up to 80%, not 100%');
+  });
+
+  it('should reject fixed amounts that do not match the pool', () => {
+    expect(
+      validatePrizeConfig({ entryFee: 2, split: { type: 'fixed', places: [8, 6, 2] } }, 10, 1)
+    ).toBe('Prizes add up to $16.00 but the pool is $20.00');
+  });
+
+  it('should reject more places than there are entrants', () => {
+    expect(
+      validatePrizeConfig({ entryFee: 2, split: { type: 'fixed', places: [4, 2, 1, 1] } }, 4, 2)
+    ).toBe('Only 2 places can be awarded with 4 players');
+  });
+
+  it('should reject team prizes that cannot be split in two', () => {
+    expect(
+      validatePrizeConfig({ entryFee: 1, split: { type: 'fixed', places: [3.99, 4.01] } }, 8, 2)
+    ).toBe('Team prizes must split evenly between two players');
+  });
+
+  it('should reject a negative entry fee or no places', () => {
+    expect(validatePrizeConfig({ entryFee: -1, split: DEFAULT_INDIVIDUAL_PRIZE_SPLIT }, 8, 1)).toBe(
+      'Entry fee must be zero or more'
+    );
+    expect(validatePrizeConfig({ entryFee: 2, split: { type: 'fixed', places: [] } }, 8, 1)).toBe(
+      'Add at least one prize place'
+    );
+  });
+});
+
+describe('splitTiedPrizes', () => {
+  it('should leave untied places unchanged', () => {
+    expect(splitTiedPrizes([8, 6, 2], [1, 1, 1, 1])).toEqual([[8], [6], [2], [0]]);
+  });
+
+  it('should pool and split the prizes for the places a tie covers', () => {
+    expect(splitTiedPrizes([8, 6, 2], [1, 2, 1])).toEqual([[8], [4, 4], [0]]);
+    expect(splitTiedPrizes([8, 6, 2], [3])).toEqual([[5.34, 5.33, 5.33]]);
+  });
+
+  it('should give odd cents to the entries listed first', () => {
+    expect(splitTiedPrizes([0.05], [2])).toEqual([[0.03, 0.02]]);
+  });
+});
@@ -0,0 +1,134 @@
+export type PrizeSplitType = 'percentage' | 'fixed';
+
+// How the prize pool is divided between places. For 'percentage' each place
+// gets that share of the pool; for 'fixed' each place gets that dollar
+// amount. A team place is shared equally by both players.
+export interface PrizeSplit {
+  type: PrizeSplitType;
+  places: number[];
+}
+
+export interface PrizeConfig {
+  entryFee: number;
+  split: PrizeSplit;
+}
+
+export const DEFAULT_ENTRY_FEE = 2;
+
+// $16 pool for 8 players: 1st $8, 2nd $6, 3rd $2
+export const DEFAULT_INDIVIDUAL_PRIZE_SPLIT: PrizeSplit = {
+  type: 'percentage',
+  places: [50, 37.5, 12.5],
+};
+
+// $24 pool for 12 players: 1st team $12, 2nd team $8, 3rd team $4
+export const DEFAULT_TEAM_PRIZE_SPLIT: PrizeSplit = {
+  type: 'percentage',
+  places: [50, 33.34, 16.66],
+};
+
+/**
+ * Dollar amount in whole cents
+ */
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Works out the prize each player receives for each place, to the cent.
+ * Percentage splits are rounded with the largest-remainder method in steps
+ * that divide evenly between teammates, so the prizes always add up to
+ * exactly the pool.
+ */
+export function getPrizeAmounts(
+  split: PrizeSplit,
+  entryFee: number,
+  playerCount: number,
+  playersPerPlace: 1 | 2
+): number[] {
+  if (split.type === 'fixed') {
+    return split.places.map((amount) => Math.round(toCents(amount) / playersPerPlace) / 100);
+  }
+
+  // Whole units of `playersPerPlace` cents, so each team place splits evenly
+  const poolUnits = Math.floor((toCents(entryFee) * playerCount) / playersPerPlace);
+  const exactShares = split.places.map((percentage) => (poolUnits * percentage) / 100);
+  const units = exactShares.map(Math.floor);
+
+  let leftover = Math.round(exactShares.reduce((sum, share) => sum + share, 0)) -
+    units.reduce((sum, unit) => sum + unit, 0);
+  const byRemainder = exactShares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    units[index]++;
+    leftover--;
+  }
+
+  return units.map((unit) => unit / 100);
+}
+
+/**
+ * Checks that a prize split pays out exactly the pool. Returns a message
+ * describing the problem, or null if the split is valid.
+ */
+export function validatePrizeConfig(
+  config: PrizeConfig,
+  playerCount: number,
+  playersPerPlace: 1 | 2
+): string | null {
+  const { entryFee, split } = config;
+  const pool = entryFee * playerCount;
+  const availablePlaces = Math.floor(playerCount / playersPerPlace);
+
+  if (!Number.isFinite(entryFee) || entryFee < 0) {
+    return 'Entry fee must be zero or more';
+  }
+  if (split.places.length === 0) {
+    return 'Add at least one prize place';
+  }
+  if (split.places.length > availablePlaces) {
+    return `Only ${availablePlaces} places can be awarded with ${playerCount} players`;
+  }
+  if (split.places.some((value) => !Number.isFinite(value) || value < 0)) {
+    return 'Prizes must be zero or more';
+  }
+
+  if (split.type === 'percentage') {
+    const totalPercentage = split.places.reduce((sum, value) => sum + value, 0);
+    if (Math.abs(totalPercentage - 100) > 0.001) {
+      return `Percentages add up to ${Number(totalPercentage.toFixed(2))}%, not 100%`;
+    }
+    return null;
+  }
+
+  const totalPrizes = split.places.reduce((sum, value) => sum + value, 0);
+  if (toCents(totalPrizes) !== toCents(pool)) {
+    return `Prizes add up to $${totalPrizes.toFixed(2)} but the pool is $${pool.toFixed(2)}`;
+  }
+  if (playersPerPlace === 2 && split.places.some((value) => toCents(value) % 2 !== 0)) {
+    return 'Team prizes must split evenly between two players';
+  }
+  return null;
+}
+
+/**
+ * Prize for each entry when some places are shared. Each group of tied
+ * entries pools the prizes for the places it covers and splits them evenly;
+ * any odd cents go to the entries listed first in the group.
+ */
+export function splitTiedPrizes(prizes: number[], groupSizes: number[]): number[][] {
+  let position = 0;
+
+  return groupSizes.map((size) => {
+    const pooledCents = prizes
+      .slice(position, position + size)
+      .reduce((sum, prize) => sum + toCents(prize), 0);
+    position += size;
+
+    const baseCents = Math.floor(pooledCents / size);
+    const oddCents = pooledCents - baseCents * size;
+    return Array.from({ length: size }, (_, index) => (baseCents + (index < oddCents ? 1 : 0)) / 100);
+  });
+}
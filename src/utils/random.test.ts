@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SEED, createRandom, createRandomAt, createSeed, parseSeed } from './random';
+
+describe('createRandom', () => {
+  it('should repeat the same numbers for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const numbers = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(numbers);
+    expect(numbers.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('should give different numbers for different seeds', () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)());
+  });
+});
+
+describe('createRandomAt', () => {
+  it('should give each step of a tournament its own repeatable numbers', () => {
+    expect(createRandomAt(42, 5)()).toBe(createRandomAt(42, 5)());
+    expect(createRandomAt(42, 5)()).not.toBe(createRandomAt(42, 6)());
+    expect(createRandomAt(42, 5)()).not.toBe(createRandomAt(43, 5)());
+  });
+});
+
+describe('createSeed', () => {
+  it('should pick a whole number in range', () => {
+    const seed = createSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
+
+describe('parseSeed', () => {
+  it('should accept whole numbers in range only', () => {
+    expect(parseSeed(' 12345 ')).toBe(12345);
+    expect(parseSeed(String(MAX_SEED))).toBe(MAX_SEED);
+    expect(parseSeed(String(MAX_SEED + 1))).toBeNull();
+    expect(parseSeed('-1')).toBeNull();
+    expect(parseSeed('1.5')).toBeNull();
+    expect(parseSeed('')).toBeNull();
+  });
+});
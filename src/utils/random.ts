@@ -0,0 +1,47 @@
+// Schedules are drawn from a seeded generator so that the same seed always
+// gives the same draw, and a disputed draw can be re-run and checked
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Picks a new seed at random
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Creates a random number generator for a seed, returning numbers in
+ * [0, 1) like Math.random (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generator for a draw made part-way through a tournament, such as the next
+ * Americano round or a redraw after a withdrawal. It is seeded from the
+ * tournament's seed and `step` (e.g. the next game id), so replaying the
+ * same tournament repeats the same draws.
+ */
+export function createRandomAt(seed: number, step: number): () => number {
+  return createRandom((seed + Math.imul(step, 0x9e3779b9)) >>> 0);
+}
+
+/**
+ * Reads a seed typed in by the user, or returns null if it isn't a whole
+ * number between 0 and MAX_SEED
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addToRoster,
+  fillPlayerSlots,
+  loadRoster,
+  parseNameList,
+  removeFromRoster,
+  validatePlayerNames,
+} from './roster';
+import type { KeyValueStorage } from './storage';
+
+const createStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+describe('parseNameList', () => {
+  it('should split on new lines, commas, semicolons and tabs', () => {
+    expect(parseNameList('Alice\nBob, Carol;Dave\tErin\r\n')).toEqual(['Alice', 'Bob', 'Carol', 'Dave', 'Erin']);
+  });
+
+  it('should drop blanks and repeated names', () => {
+    expect(parseNameList('  Alice  Smith ,, alice smith\n\nBob')).toEqual(['Alice Smith', 'Bob']);
+  });
+});
+
+describe('validatePlayerNames', () => {
+  it('should accept distinct names', () => {
+    expect(validatePlayerNames(['Alice', 'Bob', 'Carol', 'Dave'])).toBeNull();
+  });
+
+  it('should block blank names', () => {
+    expect(validatePlayerNames(['Alice', '  ', 'Carol'])).toBe('Please enter a name for player 2');
+  });
+
+  it('should block duplicates regardless of case and spacing', () => {
+    expect(validatePlayerNames(['Alice', 'Bob', ' alice '])).toBe(
+      '"alice" is entered twice (players 1 and 3); each player needs a different name'
+    );
+  });
+});
+
+describe('fillPlayerSlots', () => {
+  it('should fill empty slots in order and skip names already entered', () => {
+    expect(fillPlayerSlots(['Alice', '', '', ''], ['alice', 'Bob', 'Carol'])).toEqual({
+      names: ['Alice', 'Bob', 'Carol', ''],
+      overflow: [],
+    });
+  });
+
+  it('should return the names that did not fit', () => {
+    expect(fillPlayerSlots(['', ''], ['Alice', 'Bob', 'Carol'])).toEqual({
+      names: ['Alice', 'Bob'],
+      overflow: ['Carol'],
+    });
+  });
+});
+
+describe('roster', () => {
+  it('should keep a sorted roster without duplicates', () => {
+    const storage = createStorage();
+    expect(loadRoster(storage)).toEqual([]);
+
+    addToRoster(['carol', 'Alice', ' Bob '], storage);
+    expect(addToRoster(['ALICE', 'Dave', ''], storage)).toEqual(['Alice', 'Bob', 'carol', 'Dave']);
+    expect(loadRoster(storage)).toEqual(['Alice', 'Bob', 'carol', 'Dave']);
+  });
+
+  it('should remove names regardless of case', () => {
+    const storage = createStorage();
+    addToRoster(['Alice', 'Bob'], storage);
+    expect(removeFromRoster('alice', storage)).toEqual(['Bob']);
+  });
+});
@@ -0,0 +1,141 @@
+import { getLocalStorage, type KeyValueStorage } from './storage';
+
+export const ROSTER_STORAGE_KEY = 'badminton-roster';
+
+/**
+ * Name with surrounding spaces trimmed and inner runs of spaces collapsed
+ */
+export function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key for matching names ignoring case and spacing, so "alice" and
+ * " Alice" are one player
+ */
+export function nameKey(name: string): string {
+  return normalizeName(name).toLowerCase();
+}
+
+/**
+ * Splits pasted text into names, one per line or separated by commas,
+ * semicolons or tabs. Blanks and repeats are dropped.
+ */
+export function parseNameList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n\r,;\t]+/)
+    .map(normalizeName)
+    .filter((name) => {
+      if (!name || seen.has(nameKey(name))) return false;
+      seen.add(nameKey(name));
+      return true;
+    });
+}
+
+/**
+ * Checks that every player has a name and no name is used twice, since two
+ * players called "Sam" couldn't be told apart in the standings. Returns a
+ * message describing the first problem, or null if the names are valid.
+ */
+export function validatePlayerNames(names: string[]): string | null {
+  const blank = names.findIndex((name) => normalizeName(name) === '');
+  if (blank !== -1) {
+    return `Please enter a name for player ${blank + 1}`;
+  }
+
+  const firstIndex = new Map<string, number>();
+  for (let i = 0; i < names.length; i++) {
+    const key = nameKey(names[i]);
+    const earlier = firstIndex.get(key);
+    if (earlier !== undefined) {
+      return `"${normalizeName(names[i])}" is entered twice (players ${earlier + 1} and ${i + 1}); each player needs a different name`;
+    }
+    firstIndex.set(key, i);
+  }
+  return null;
+}
+
+/**
+ * Puts names into the empty player slots in order, skipping anyone already
+ * entered. Returns the updated names and any that didn't fit.
+ */
+export function fillPlayerSlots(
+  current: string[],
+  names: string[]
+): { names: string[]; overflow: string[] } {
+  const filled = [...current];
+  const entered = new Set(current.filter((name) => normalizeName(name)).map(nameKey));
+  const overflow: string[] = [];
+
+  names.forEach((name) => {
+    if (entered.has(nameKey(name))) return;
+    const slot = filled.findIndex((existing) => normalizeName(existing) === '');
+    if (slot === -1) {
+      overflow.push(name);
+      return;
+    }
+    filled[slot] = normalizeName(name);
+    entered.add(nameKey(name));
+  });
+
+  return { names: filled, overflow };
+}
+
+/**
+ * Gets the saved roster of regular players, in alphabetical order
+ */
+export function loadRoster(storage: KeyValueStorage | null = getLocalStorage()): string[] {
+  if (!storage) return [];
+  try {
+    const roster = JSON.parse(storage.getItem(ROSTER_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(roster)) return [];
+    return roster.filter((name): name is string => typeof name === 'string');
+  } catch (error) {
+    console.error('Failed to load player roster:', error);
+    return [];
+  }
+}
+
+function saveRoster(roster: string[], storage: KeyValueStorage | null): string[] {
+  const sorted = [...roster].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  if (storage) {
+    try {
+      storage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(sorted));
+    } catch (error) {
+      console.error('Failed to save player roster:', error);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Adds any new names to the roster. Returns the updated roster.
+ */
+export function addToRoster(
+  names: string[],
+  storage: KeyValueStorage | null = getLocalStorage()
+): string[] {
+  const roster = loadRoster(storage);
+  const known = new Set(roster.map(nameKey));
+  names.map(normalizeName).forEach((name) => {
+    if (name && !known.has(nameKey(name))) {
+      roster.push(name);
+      known.add(nameKey(name));
+    }
+  });
+  return saveRoster(roster, storage);
+}
+
+/**
+ * Removes a name from the roster. Returns the updated roster.
+ */
+export function removeFromRoster(
+  name: string,
+  storage: KeyValueStorage | null = getLocalStorage()
+): string[] {
+  return saveRoster(
+    loadRoster(storage).filter((existing) => nameKey(existing) !== nameKey(name)),
+    storage
+  );
+}
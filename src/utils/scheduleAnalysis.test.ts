@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSchedule, getGamesSpread } from './scheduleAnalysis';
+import { generateRoundRobinSchedule, type Round } from './scheduler';
+
+const players = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+describe('analyzeSchedule', () => {
+  it('should confirm the 8-player design partners everyone exactly once', () => {
+    const analysis = analyzeSchedule(generateRoundRobinSchedule(players), players);
+
+    expect(analysis.unpartnered).toEqual([]);
+    expect(analysis.repeatedPartners).toEqual([]);
+    expect(analysis.perPlayer.every(({ games, sitOuts, partners }) => games === 7 && sitOuts === 0 && partners === 7)).toBe(true);
+    expect(getGamesSpread(analysis)).toBe(0);
+
+    // Partners are balanced but opponents aren't: seven games against two
+    // opponents each, with some rivals met more often than others
+    analysis.opponentMatrix.forEach((row) => {
+      expect(row.reduce((sum, count) => sum + count, 0)).toBe(14);
+    });
+    expect(analysis.repeatedOpponents.length).toBeGreaterThan(0);
+  });
+
+  it('should spread sit-outs evenly with 9 players', () => {
+    const analysis = analyzeSchedule(generateRoundRobinSchedule([...players, 'I']));
+    expect(analysis.players).toHaveLength(9);
+    expect(Object.keys(analysis.sitOutDistribution)).toHaveLength(1);
+    expect(getGamesSpread(analysis)).toBe(0);
+  });
+
+  it('should report repeats, gaps, streaks and sit-outs', () => {
+    const rounds: Round[] = [
+      { roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'] }], byes: ['E'] },
+      { roundNumber: 2, games: [{ id: 2, team1: ['A', 'B'], team2: ['C', 'E'] }], byes: ['D'] },
+      { roundNumber: 3, games: [{ id: 3, team1: ['A', 'D'], team2: ['B', 'E'] }], byes: ['C'] },
+    ];
+    const analysis = analyzeSchedule(rounds);
+
+    expect(analysis.players).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(analysis.repeatedPartners).toEqual([{ players: ['A', 'B'], count: 2 }]);
+    expect(analysis.repeatedOpponents.map(({ players: pair }) => pair)).toEqual([
+      ['A', 'C'],
+      ['A', 'E'],
+      ['B', 'C'],
+      ['B', 'D'],
+    ]);
+    expect(analysis.unpartnered).toContainEqual(['A', 'C']);
+    expect(analysis.perPlayer[0]).toEqual({
+      player: 'A',
+      games: 3,
+      sitOuts: 0,
+      longestStreak: 3,
+      partners: 2,
+      repeatedPartners: 1,
+    });
+    expect(analysis.perPlayer[3]).toMatchObject({ games: 2, sitOuts: 1, longestStreak: 1 });
+    expect(analysis.sitOutDistribution).toEqual({ 0: 2, 1: 3 });
+    expect(getGamesSpread(analysis)).toBe(1);
+  });
+
+  it('should ignore players outside the given list', () => {
+    const rounds: Round[] = [{ roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'Z'] }] }];
+    const analysis = analyzeSchedule(rounds, ['A', 'B', 'C']);
+    expect(analysis.opponentMatrix).toEqual([
+      [0, 0, 1],
+      [0, 0, 1],
+      [1, 1, 0],
+    ]);
+  });
+});
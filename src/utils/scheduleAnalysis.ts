@@ -0,0 +1,130 @@
+import type { Game, Round } from './scheduler';
+
+export interface PlayerFairness {
+  player: string;
+  games: number;
+  sitOuts: number; // Rounds (or court slots) without a game
+  longestStreak: number; // Most rounds in a row with a game, i.e. without a rest
+  partners: number; // Different partners played with
+  repeatedPartners: number; // Partners played with more than once
+}
+
+export interface PairCount {
+  players: [string, string];
+  count: number;
+}
+
+export interface ScheduleAnalysis {
+  players: string[]; // Order of the matrix rows and columns
+  // partnerMatrix[i][j]: games players i and j played on the same side;
+  // opponentMatrix[i][j]: games they played against each other
+  partnerMatrix: number[][];
+  opponentMatrix: number[][];
+  perPlayer: PlayerFairness[];
+  repeatedPartners: PairCount[]; // Pairs partnered more than once, most first
+  repeatedOpponents: PairCount[]; // Pairs opposed more than once, most first
+  unpartnered: Array<[string, string]>; // Pairs who never play together
+  sitOutDistribution: { [sitOuts: number]: number }; // Players by number of sit-outs
+}
+
+function gamePlayers(game: Game): string[] {
+  return [...game.team1, ...game.team2];
+}
+
+function pairsOver(matrix: number[][], players: string[], threshold: number): PairCount[] {
+  const pairs: PairCount[] = [];
+  players.forEach((a, i) => {
+    players.slice(i + 1).forEach((b, offset) => {
+      const count = matrix[i][i + 1 + offset];
+      if (count > threshold) pairs.push({ players: [a, b], count });
+    });
+  });
+  return pairs.sort((x, y) => y.count - x.count);
+}
+
+/**
+ * Fairness report for a schedule: who partners and faces whom, how many
+ * games and sit-outs each player gets, and the longest run of games each
+ * plays without a rest. Every entry in `rounds` counts as one time slot, so
+ * pass the court-scheduled rounds to see the order games are actually
+ * played in. Players default to everyone in the schedule, in order of
+ * appearance.
+ */
+export function analyzeSchedule(rounds: Round[], players?: string[]): ScheduleAnalysis {
+  const listed = players ?? Array.from(new Set(
+    rounds.flatMap((round) => [...round.games.flatMap(gamePlayers), ...(round.byes ?? [])])
+  ));
+  const index = new Map(listed.map((player, i) => [player, i]));
+  const partnerMatrix = listed.map(() => listed.map(() => 0));
+  const opponentMatrix = listed.map(() => listed.map(() => 0));
+  const games = listed.map(() => 0);
+  const sitOuts = listed.map(() => 0);
+  const streaks = listed.map(() => 0);
+  const longestStreaks = listed.map(() => 0);
+
+  const count = (matrix: number[][], a: string, b: string) => {
+    const i = index.get(a);
+    const j = index.get(b);
+    if (i === undefined || j === undefined) return;
+    matrix[i][j]++;
+    matrix[j][i]++;
+  };
+
+  rounds.forEach((round) => {
+    const playing = new Set<string>();
+    round.games.forEach((game) => {
+      gamePlayers(game).forEach((player) => playing.add(player));
+      count(partnerMatrix, game.team1[0], game.team1[1]);
+      count(partnerMatrix, game.team2[0], game.team2[1]);
+      game.team1.forEach((a) => game.team2.forEach((b) => count(opponentMatrix, a, b)));
+    });
+
+    listed.forEach((player, i) => {
+      if (playing.has(player)) {
+        games[i]++;
+        streaks[i]++;
+        longestStreaks[i] = Math.max(longestStreaks[i], streaks[i]);
+      } else {
+        sitOuts[i]++;
+        streaks[i] = 0;
+      }
+    });
+  });
+
+  const sitOutDistribution: { [sitOuts: number]: number } = {};
+  sitOuts.forEach((value) => {
+    sitOutDistribution[value] = (sitOutDistribution[value] ?? 0) + 1;
+  });
+
+  return {
+    players: listed,
+    partnerMatrix,
+    opponentMatrix,
+    perPlayer: listed.map((player, i) => ({
+      player,
+      games: games[i],
+      sitOuts: sitOuts[i],
+      longestStreak: longestStreaks[i],
+      partners: partnerMatrix[i].filter((value) => value > 0).length,
+      repeatedPartners: partnerMatrix[i].filter((value) => value > 1).length,
+    })),
+    repeatedPartners: pairsOver(partnerMatrix, listed, 1),
+    repeatedOpponents: pairsOver(opponentMatrix, listed, 1),
+    unpartnered: listed.flatMap((a, i) =>
+      listed.slice(i + 1).flatMap((b, offset): Array<[string, string]> =>
+        partnerMatrix[i][i + 1 + offset] === 0 ? [[a, b]] : []
+      )
+    ),
+    sitOutDistribution,
+  };
+}
+
+/**
+ * Spread between the most and fewest games played; 0 when everyone plays
+ * the same number
+ */
+export function getGamesSpread(analysis: ScheduleAnalysis): number {
+  if (analysis.perPlayer.length === 0) return 0;
+  const counts = analysis.perPlayer.map(({ games }) => games);
+  return Math.max(...counts) - Math.min(...counts);
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSchedule } from './scheduleAnalysis';
+import { generateRoundRobinSchedule, type Round } from './scheduler';
+import { createRandom } from './random';
+import { DEFAULT_SEARCH_ITERATIONS, getScheduleCost, scoreSchedule, searchSchedule } from './scheduleSearch';
+
+const players = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+// Clock that moves on a millisecond every time it's read, so the time
+// limit caps the number of clock checks rather than real time
+function steppingClock(): () => number {
+  let time = 0;
+  return () => time++;
+}
+
+const search = (list: string[], maxIterations: number) =>
+  searchSchedule(list, { maxIterations, random: createRandom(7), now: steppingClock() });
+
+describe('scoreSchedule', () => {
+  it('should find no hard constraint breaches in the 8-player design, only uneven opponents', () => {
+    const score = scoreSchedule(generateRoundRobinSchedule(players), players);
+    expect(score).toMatchObject({ partnerRepeats: 0, repeatedGames: 0, unevenGames: 0, backToBackSitOuts: 0 });
+    expect(score.opponentImbalance).toBeGreaterThan(0);
+  });
+
+  it('should count repeats and back-to-back sit-outs', () => {
+    const rounds: Round[] = [
+      { roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'] }], byes: ['E'] },
+      { roundNumber: 2, games: [{ id: 2, team1: ['B', 'A'], team2: ['D', 'C'] }], byes: ['E'] },
+    ];
+    const score = scoreSchedule(rounds, ['A', 'B', 'C', 'D', 'E']);
+    expect(score).toMatchObject({ partnerRepeats: 2, repeatedGames: 1, backToBackSitOuts: 1 });
+    expect(score.unevenGames).toBeGreaterThan(0);
+    expect(getScheduleCost(score)).toBeGreaterThan(1000);
+  });
+});
+
+describe('searchSchedule', () => {
+  it('should balance opponents as well as partners with 8 players', () => {
+    const result = search(players, 40000);
+    const analysis = analyzeSchedule(result.rounds, players);
+
+    expect(result.rounds).toHaveLength(7);
+    expect(analysis.repeatedPartners).toEqual([]);
+    expect(analysis.unpartnered).toEqual([]);
+    analysis.opponentMatrix.forEach((row, i) => {
+      expect(row.filter((_, j) => j !== i)).toEqual(Array(7).fill(2));
+    });
+    expect(getScheduleCost(result.score)).toBe(0);
+  });
+
+  it('should keep the hard constraints and avoid back-to-back sit-outs with byes', () => {
+    [9, 13].forEach((count) => {
+      const list = Array.from({ length: count }, (_, i) => `P${i + 1}`);
+      const result = search(list, 20000);
+      expect(result.score).toMatchObject({ partnerRepeats: 0, repeatedGames: 0, unevenGames: 0, backToBackSitOuts: 0 });
+
+      const ids = result.rounds.flatMap((round) => round.games.map(({ id }) => id));
+      expect(ids).toEqual(ids.map((_, index) => index + 1));
+    });
+  });
+
+  it('should find the same schedule again from the same seed', () => {
+    const first = searchSchedule(players, { seed: 3, now: steppingClock() });
+    expect(searchSchedule(players, { seed: 3, now: steppingClock() }).rounds).toEqual(first.rounds);
+  });
+
+  it('should find the same schedule from a seed whatever the time limit', () => {
+    // Nine players never reach a perfect score, so the search runs all its steps
+    const nine = Array.from({ length: 9 }, (_, i) => `P${i + 1}`);
+    const short = searchSchedule(nine, { seed: 12345, timeLimitMs: 500, now: steppingClock() });
+    const long = searchSchedule(nine, { seed: 12345, timeLimitMs: 2000, now: steppingClock() });
+
+    expect(short.timedOut).toBe(false);
+    expect(short.iterations).toBe(DEFAULT_SEARCH_ITERATIONS);
+    expect(long.rounds).toEqual(short.rounds);
+  });
+
+  it('should take the same steps however the clock runs', () => {
+    // Both clocks run out on the 50th check, but one jumps to nearly the
+    // end of the budget straight away
+    const twelve = Array.from({ length: 12 }, (_, i) => `P${i + 1}`);
+    let reads = 0;
+    const jumpingClock = () => (reads++ === 0 ? 0 : reads <= 50 ? 49 : 1000);
+    const steady = searchSchedule(twelve, { seed: 3, timeLimitMs: 50, now: steppingClock() });
+    const jumping = searchSchedule(twelve, { seed: 3, timeLimitMs: 50, now: jumpingClock });
+
+    expect(jumping.iterations).toBe(steady.iterations);
+    expect(jumping.rounds).toEqual(steady.rounds);
+  });
+
+  it('should stop after the given number of steps', () => {
+    const twelve = Array.from({ length: 12 }, (_, i) => `P${i + 1}`);
+    const result = searchSchedule(twelve, { maxIterations: 1000, random: createRandom(1), now: steppingClock() });
+    expect(result.iterations).toBe(1000);
+    expect(result.timedOut).toBe(false);
+  });
+
+  it('should stop at the time limit and say so', () => {
+    const twelve = Array.from({ length: 12 }, (_, i) => `P${i + 1}`);
+    const result = searchSchedule(twelve, { timeLimitMs: 1, random: createRandom(1), now: steppingClock() });
+    expect(result.iterations).toBeLessThanOrEqual(400);
+    expect(result.timedOut).toBe(true);
+    expect(result.rounds).toHaveLength(11);
+  });
+});
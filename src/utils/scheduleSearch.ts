@@ -0,0 +1,317 @@
+import {
+  MAX_SOCIAL_PLAYERS,
+  MIN_SOCIAL_PLAYERS,
+  generateRoundRobinSchedule,
+  getDefaultSocialRoundCount,
+  type Game,
+  type Round,
+} from './scheduler';
+import { createRandom } from './random';
+
+// Hard constraints are weighted far above the soft goals, so the search
+// never trades a repeated partner for evener opponents
+const HARD_WEIGHT = 1000;
+const BACK_TO_BACK_SIT_OUT_WEIGHT = 5;
+const OPPONENT_IMBALANCE_WEIGHT = 1;
+
+// Annealing temperature at the start and end of each cycle. It cools by
+// step count rather than time, so a seed takes the same steps on any
+// machine; the search reheats and cools again until its steps are used up.
+const START_TEMPERATURE = 4;
+const END_TEMPERATURE = 0.05;
+const COOLING_STEPS = 20000;
+
+// Reading the clock on every step would slow the search down
+const CLOCK_CHECK_INTERVAL = 200;
+
+// The search stops after a fixed number of steps, so its result doesn't
+// depend on how fast the machine is. The time limit is only a safety cap
+// for slow devices, and the result says if it was hit.
+export const DEFAULT_SEARCH_ITERATIONS = 2 * COOLING_STEPS;
+export const DEFAULT_SEARCH_TIME_LIMIT_MS = 10000;
+
+// Extra time the page gives a worker beyond its own time limit before
+// giving up on it
+const WORKER_GRACE_MS = 1000;
+
+export interface ScheduleSearchOptions {
+  roundCount?: number;
+  maxIterations?: number;
+  timeLimitMs?: number;
+  // Seeds the search's random choices. The same seed takes the same steps
+  // and finds the same schedule on any machine, unless the time limit cuts
+  // the search short (see ScheduleSearchResult.timedOut).
+  seed?: number;
+}
+
+export interface ScheduleSearchSettings extends ScheduleSearchOptions {
+  random?: () => number;
+  now?: () => number;
+}
+
+// How far a schedule is from ideal. The first three are hard constraints,
+// the rest soft goals; 0 is best for each.
+export interface ScheduleScore {
+  partnerRepeats: number; // Partnerships beyond the first for each pair
+  repeatedGames: number; // Games between two teams who have already met
+  unevenGames: number; // Squared spread of games per player beyond the unavoidable
+  opponentImbalance: number; // Squared spread of opponent counts beyond the unavoidable
+  backToBackSitOuts: number; // Times a player sits out two rounds in a row
+}
+
+export interface ScheduleSearchResult {
+  rounds: Round[];
+  score: ScheduleScore;
+  iterations: number;
+  timedOut: boolean; // Stopped by the time limit before its steps were used up
+}
+
+/**
+ * Smallest possible sum of squared deviations from the mean when `total`
+ * is split into `count` whole numbers
+ */
+function minSquaredDeviation(total: number, count: number): number {
+  if (count === 0) return 0;
+  const mean = total / count;
+  const low = Math.floor(mean);
+  const high = total - low * count; // How many get one more
+  return high * (low + 1 - mean) ** 2 + (count - high) * (low - mean) ** 2;
+}
+
+function squaredDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+}
+
+// Rounds as player indices: four per game, [team 1, team 1, team 2, team 2],
+// with anyone sitting out after the games
+type IndexedRound = number[];
+
+/**
+ * Scores a schedule in player indices against the hard constraints and
+ * soft goals
+ */
+function scoreIndexed(rounds: IndexedRound[], playerCount: number, gamesPerRound: number): ScheduleScore {
+  const partners = Array.from({ length: playerCount }, () => Array(playerCount).fill(0));
+  const opponents = Array.from({ length: playerCount }, () => Array(playerCount).fill(0));
+  const games = Array(playerCount).fill(0);
+  const matchups = new Set<string>();
+  let partnerRepeats = 0;
+  let repeatedGames = 0;
+  let backToBackSitOuts = 0;
+
+  const team = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+  rounds.forEach((round, roundIndex) => {
+    for (let g = 0; g < gamesPerRound; g++) {
+      const [a, b, c, d] = round.slice(g * 4, g * 4 + 4);
+      [[a, b], [c, d]].forEach(([x, y]) => {
+        if (partners[x][y] > 0) partnerRepeats++;
+        partners[x][y]++;
+        partners[y][x]++;
+      });
+      [a, b].forEach((x) => [c, d].forEach((y) => {
+        opponents[x][y]++;
+        opponents[y][x]++;
+      }));
+      [a, b, c, d].forEach((player) => games[player]++);
+
+      const teams = [team(a, b), team(c, d)].sort().join(' v ');
+      if (matchups.has(teams)) repeatedGames++;
+      matchups.add(teams);
+    }
+
+    if (roundIndex > 0) {
+      const previousByes = new Set(rounds[roundIndex - 1].slice(gamesPerRound * 4));
+      round.slice(gamesPerRound * 4).forEach((player) => {
+        if (previousByes.has(player)) backToBackSitOuts++;
+      });
+    }
+  });
+
+  const opponentCounts = opponents.flatMap((row, i) => row.slice(i + 1));
+  const totalGames = rounds.length * gamesPerRound;
+  return {
+    partnerRepeats,
+    repeatedGames,
+    unevenGames: squaredDeviation(games) - minSquaredDeviation(totalGames * 4, playerCount),
+    opponentImbalance:
+      squaredDeviation(opponentCounts) - minSquaredDeviation(totalGames * 4, opponentCounts.length),
+    backToBackSitOuts,
+  };
+}
+
+/**
+ * Single number for comparing schedules; lower is better. Hard constraint
+ * breaches outweigh any amount of soft-goal improvement.
+ */
+export function getScheduleCost(score: ScheduleScore): number {
+  return (
+    HARD_WEIGHT * (score.partnerRepeats + score.repeatedGames + score.unevenGames) +
+    BACK_TO_BACK_SIT_OUT_WEIGHT * score.backToBackSitOuts +
+    OPPONENT_IMBALANCE_WEIGHT * score.opponentImbalance
+  );
+}
+
+/**
+ * Scores a rotating-partner schedule. Every entry in `rounds` is taken as
+ * one round of the full player list.
+ */
+export function scoreSchedule(rounds: Round[], players: string[]): ScheduleScore {
+  const index = new Map(players.map((player, i) => [player, i]));
+  const gamesPerRound = Math.floor(players.length / 4);
+  return scoreIndexed(rounds.map((round) => toIndexed(round, players, index)), players.length, gamesPerRound);
+}
+
+function toIndexed(round: Round, players: string[], index: Map<string, number>): IndexedRound {
+  const playing = round.games.flatMap((game) => [...game.team1, ...game.team2]);
+  const sittingOut = players.filter((player) => !playing.includes(player));
+  return [...playing, ...sittingOut].map((player) => index.get(player)!);
+}
+
+function fromIndexed(rounds: IndexedRound[], players: string[], gamesPerRound: number): Round[] {
+  let gameId = 1;
+  return rounds.map((round, roundIndex) => {
+    const games: Game[] = [];
+    for (let g = 0; g < gamesPerRound; g++) {
+      const [a, b, c, d] = round.slice(g * 4, g * 4 + 4).map((i) => players[i]);
+      games.push({ id: gameId++, team1: [a, b], team2: [c, d] });
+    }
+    const byes = round.slice(gamesPerRound * 4).map((i) => players[i]);
+    return byes.length > 0
+      ? { roundNumber: roundIndex + 1, games, byes }
+      : { roundNumber: roundIndex + 1, games };
+  });
+}
+
+/**
+ * Searches for a rotating-partner schedule that meets the hard constraints
+ * (no partnership or game more than once, games spread evenly) and gets
+ * as close as it can to the soft goals (even opponent counts, no sitting
+ * out twice in a row). Starts from the usual generator's schedule and
+ * anneals it with two moves: swapping two players within a round, and
+ * swapping which teams meet, which keeps every partnership. Returns the
+ * best schedule found after `maxIterations` steps, or sooner if it can't be
+ * beaten or the time limit is hit. The team format doesn't need this: its partners are fixed,
+ * and the circle method already plays each pairing once with at most one
+ * bye per team.
+ */
+export function searchSchedule(
+  players: string[],
+  settings: ScheduleSearchSettings = {}
+): ScheduleSearchResult {
+  if (players.length < MIN_SOCIAL_PLAYERS || players.length > MAX_SOCIAL_PLAYERS) {
+    throw new Error(
+      `Between ${MIN_SOCIAL_PLAYERS} and ${MAX_SOCIAL_PLAYERS} players are required`
+    );
+  }
+
+  const {
+    roundCount = getDefaultSocialRoundCount(players.length),
+    maxIterations = DEFAULT_SEARCH_ITERATIONS,
+    timeLimitMs = DEFAULT_SEARCH_TIME_LIMIT_MS,
+    seed,
+    random = seed === undefined ? Math.random : createRandom(seed),
+    now = () => performance.now(),
+  } = settings;
+  const playerCount = players.length;
+  const gamesPerRound = Math.floor(playerCount / 4);
+  const index = new Map(players.map((player, i) => [player, i]));
+
+  let current = generateRoundRobinSchedule(players, roundCount, random).map((round) => toIndexed(round, players, index));
+  let currentScore = scoreIndexed(current, playerCount, gamesPerRound);
+  let currentCost = getScheduleCost(currentScore);
+  let best = current;
+  let bestScore = currentScore;
+  let bestCost = currentCost;
+
+  const randomInt = (max: number) => Math.floor(random() * max);
+  const start = now();
+  let iterations = 0;
+  let timedOut = false;
+
+  // Nothing left to improve once every count is as even as it can be
+  while (bestCost > 1e-9 && iterations < maxIterations) {
+    if (iterations % CLOCK_CHECK_INTERVAL === 0 && iterations > 0 && now() - start >= timeLimitMs) {
+      timedOut = true;
+      break;
+    }
+    iterations++;
+
+    const roundIndex = randomInt(current.length);
+    const round = [...current[roundIndex]];
+    if (gamesPerRound > 1 && random() < 0.5) {
+      // Swap the second team of one game with the first team of another
+      const [x, y] = [randomInt(gamesPerRound), randomInt(gamesPerRound - 1)];
+      const other = y >= x ? y + 1 : y;
+      const [c, d] = round.slice(x * 4 + 2, x * 4 + 4);
+      round.splice(x * 4 + 2, 2, round[other * 4], round[other * 4 + 1]);
+      round.splice(other * 4, 2, c, d);
+    } else {
+      const i = randomInt(round.length);
+      const j = randomInt(round.length);
+      [round[i], round[j]] = [round[j], round[i]];
+    }
+
+    const candidate = current.map((existing, i) => (i === roundIndex ? round : existing));
+    const candidateScore = scoreIndexed(candidate, playerCount, gamesPerRound);
+    const candidateCost = getScheduleCost(candidateScore);
+    const cooled = (iterations % COOLING_STEPS) / COOLING_STEPS;
+    const temperature = START_TEMPERATURE * (END_TEMPERATURE / START_TEMPERATURE) ** cooled;
+    if (candidateCost <= currentCost || random() < Math.exp((currentCost - candidateCost) / temperature)) {
+      current = candidate;
+      currentScore = candidateScore;
+      currentCost = candidateCost;
+      if (currentCost < bestCost) {
+        best = current;
+        bestScore = currentScore;
+        bestCost = currentCost;
+      }
+    }
+  }
+
+  return { rounds: fromIndexed(best, players, gamesPerRound), score: bestScore, iterations, timedOut };
+}
+
+interface WorkerResponse {
+  result?: ScheduleSearchResult;
+  error?: string;
+}
+
+/**
+ * Runs the search in a Web Worker so the page stays responsive, falling
+ * back to searching on the page where workers aren't available. A worker
+ * that doesn't answer soon after its time limit is stopped.
+ */
+export function searchScheduleInBackground(
+  players: string[],
+  options: ScheduleSearchOptions = {}
+): Promise<ScheduleSearchResult> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => searchSchedule(players, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./scheduleSearch.worker.ts', import.meta.url), { type: 'module' });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new Error('The schedule search took too long'));
+    }, (options.timeLimitMs ?? DEFAULT_SEARCH_TIME_LIMIT_MS) + WORKER_GRACE_MS);
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (event.data.result) {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.error ?? 'The schedule search failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      clearTimeout(timer);
+      worker.terminate();
+      reject(new Error(event.message || 'The schedule search failed'));
+    };
+    worker.postMessage({ players, options });
+  });
+}
@@ -0,0 +1,10 @@
+import { searchSchedule, type ScheduleSearchOptions } from './scheduleSearch';
+
+// Runs a schedule search off the main thread; see searchScheduleInBackground
+self.onmessage = (event: MessageEvent<{ players: string[]; options: ScheduleSearchOptions }>) => {
+  try {
+    self.postMessage({ result: searchSchedule(event.data.players, event.data.options) });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
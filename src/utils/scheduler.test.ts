@@ -1,13 +1,16 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   generateRoundRobinSchedule,
+  getDefaultSocialRoundCount,
   generate12PlayerSchedule,
+  generateTeamSchedule,
   calculatePlayerStats,
   calculateTeamStats,
   calculatePayouts,
   calculate12PlayerPayouts,
   type Round,
 } from './scheduler';
+import { createRandom } from './random';
 
 describe('generateRoundRobinSchedule', () => {
   const players = ['Alice', 'Bob', 'Charlie', 'David', 'Eve', 'Frank', 'Grace', 'Henry'];
@@ -73,16 +76,146 @@ describe('generateRoundRobinSchedule', () => {
     });
   });
 
-  it('should throw error if not exactly 8 players', () => {
+  it('should throw error if fewer than 4 or more than 16 players', () => {
     expect(() => generateRoundRobinSchedule(['Alice', 'Bob'])).toThrow(
-      'Exactly 8 players are required'
+      'Between 4 and 16 players are required'
     );
-    expect(() => generateRoundRobinSchedule([...players, 'Extra'])).toThrow(
-      'Exactly 8 players are required'
+    const tooMany = Array.from({ length: 17 }, (_, i) => `P${i + 1}`);
+    expect(() => generateRoundRobinSchedule(tooMany)).toThrow(
+      'Between 4 and 16 players are required'
     );
   });
 });
 
+describe('generateRoundRobinSchedule with other player counts', () => {
+  const makePlayers = (count: number) => Array.from({ length: count }, (_, i) => `P${i + 1}`);
+
+  const countGames = (rounds: Round[]) => {
+    const counts: { [player: string]: number } = {};
+    rounds.forEach((round) => {
+      round.games.forEach((game) => {
+        [...game.team1, ...game.team2].forEach((player) => {
+          counts[player] = (counts[player] || 0) + 1;
+        });
+      });
+    });
+    return counts;
+  };
+
+  it('should use the default round count for the player count', () => {
+    expect(getDefaultSocialRoundCount(5)).toBe(5);
+    expect(getDefaultSocialRoundCount(8)).toBe(7);
+    expect(getDefaultSocialRoundCount(12)).toBe(11);
+    expect(generateRoundRobinSchedule(makePlayers(5))).toHaveLength(5);
+    expect(generateRoundRobinSchedule(makePlayers(12))).toHaveLength(11);
+  });
+
+  it('should round the default down to whole bye cycles', () => {
+    expect(getDefaultSocialRoundCount(6)).toBe(6);
+    expect(getDefaultSocialRoundCount(7)).toBe(7);
+    expect(getDefaultSocialRoundCount(10)).toBe(10);
+    expect(getDefaultSocialRoundCount(14)).toBe(14);
+  });
+
+  it('should give everyone the same number of games by default', () => {
+    for (let count = 4; count <= 16; count++) {
+      const counts = Object.values(countGames(generateRoundRobinSchedule(makePlayers(count))));
+      expect(counts).toHaveLength(count);
+      expect(new Set(counts).size, `${count} players`).toBe(1);
+    }
+  });
+
+  it('should fill floor(n / 4) courts and give the rest a bye each round', () => {
+    for (let count = 4; count <= 16; count++) {
+      const rounds = generateRoundRobinSchedule(makePlayers(count));
+      rounds.forEach((round) => {
+        expect(round.games).toHaveLength(Math.floor(count / 4));
+        expect(round.byes?.length ?? 0).toBe(count % 4);
+
+        const seen = new Set<string>([...(round.byes ?? [])]);
+        round.games.forEach((game) => {
+          [...game.team1, ...game.team2].forEach((player) => seen.add(player));
+        });
+        expect(seen.size).toBe(count);
+      });
+    }
+  });
+
+  it('should keep games played within one of each other', () => {
+    for (let count = 4; count <= 16; count++) {
+      const counts = Object.values(countGames(generateRoundRobinSchedule(makePlayers(count))));
+      expect(counts).toHaveLength(count);
+      expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should never give anyone two byes in a row when others have none', () => {
+    const rounds = generateRoundRobinSchedule(makePlayers(13));
+    for (let i = 1; i < rounds.length; i++) {
+      const previous = new Set(rounds[i - 1].byes);
+      rounds[i].byes?.forEach((player) => {
+        expect(previous.has(player), `${player} sat out rounds ${i} and ${i + 1}`).toBe(false);
+      });
+    }
+  });
+
+  it('should not repeat a partnership more than once', () => {
+    for (let count = 4; count <= 16; count++) {
+      const partnerships = new Map<string, number>();
+      generateRoundRobinSchedule(makePlayers(count)).forEach((round) => {
+        round.games.forEach((game) => {
+          [game.team1, game.team2].forEach((team) => {
+            const key = [...team].sort().join('-');
+            partnerships.set(key, (partnerships.get(key) || 0) + 1);
+          });
+        });
+      });
+      expect(Math.max(...partnerships.values())).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should redraw the byes rather than pair anyone a third time', () => {
+    // With these random draws, keeping the first choice of byes for every
+    // attempt paired P1 and P6 three times
+    let state = 95;
+    vi.spyOn(Math, 'random').mockImplementation(() => {
+      state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+      return state / 4294967296;
+    });
+
+    const partnerships = new Map<string, number>();
+    try {
+      generateRoundRobinSchedule(makePlayers(7)).forEach((round) => {
+        round.games.forEach((game) => {
+          [game.team1, game.team2].forEach((team) => {
+            const key = [...team].sort().join('-');
+            partnerships.set(key, (partnerships.get(key) || 0) + 1);
+          });
+        });
+      });
+    } finally {
+      vi.restoreAllMocks();
+    }
+    expect(Math.max(...partnerships.values())).toBeLessThanOrEqual(2);
+  });
+
+  it('should respect an explicit round count', () => {
+    const rounds = generateRoundRobinSchedule(makePlayers(10), 4);
+    expect(rounds).toHaveLength(4);
+    expect(rounds.map((round) => round.roundNumber)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should repeat the same draw for the same seed', () => {
+    [8, 10].forEach((count) => {
+      const players = makePlayers(count);
+      const roundCount = getDefaultSocialRoundCount(count);
+      const draw = generateRoundRobinSchedule(players, roundCount, createRandom(2024));
+      expect(generateRoundRobinSchedule(players, roundCount, createRandom(2024))).toEqual(draw);
+      expect(generateRoundRobinSchedule(players, roundCount, createRandom(2025))).not.toEqual(draw);
+    });
+  });
+});
+
 describe('calculatePlayerStats', () => {
   const createMockRounds = (): Round[] => {
     return [
@@ -154,6 +287,45 @@ describe('calculatePlayerStats', () => {
     expect(stats['Henry'].pointsLost).toBe(0 + 7);
   });
 
+  it('should count the margin for deuce games rather than going negative', () => {
+    const stats = calculatePlayerStats([
+      {
+        roundNumber: 1,
+        games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 22, team2Score: 24 }],
+      },
+    ]);
+
+    expect(stats['A'].pointsLost).toBe(2);
+    expect(stats['C'].pointsLost).toBe(0);
+  });
+
+  it('should count match wins, games won and rally points separately for best of three', () => {
+    const stats = calculatePlayerStats([
+      {
+        roundNumber: 1,
+        games: [
+          {
+            id: 1,
+            team1: ['A', 'B'],
+            team2: ['C', 'D'],
+            bestOf: 3,
+            matchGames: [
+              { team1Score: 21, team2Score: 5 },
+              { team1Score: 19, team2Score: 21 },
+              { team1Score: 18, team2Score: 21 },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(stats['A']).toMatchObject({ wins: 0, losses: 1, gamesWon: 1, gamesLost: 2, gamesPlayed: 1 });
+    expect(stats['C']).toMatchObject({ wins: 1, losses: 0, gamesWon: 2, gamesLost: 1 });
+    expect(stats['A'].totalPoints).toBe(58);
+    expect(stats['A'].pointsLost).toBe(0 + 2 + 3);
+    expect(stats['C'].gameScores).toEqual([5, 21, 21]);
+  });
+
   it('should track wins and losses correctly', () => {
     const rounds = createMockRounds();
     const stats = calculatePlayerStats(rounds);
@@ -228,15 +400,12 @@ describe('calculatePayouts', () => {
     const entryFee = 2;
     const payouts = calculatePayouts(rounds, entryFee);
 
-    // Count how many non-negative payouts (prize winners)
-    const winners = Object.values(payouts).filter((payout) => payout >= 0);
-    expect(winners).toHaveLength(3);
-
-    // Top 3 should have positive or zero net amounts
-    const sortedPayouts = Object.entries(payouts).sort(([, a], [, b]) => b - a);
-    expect(sortedPayouts[0][1]).toBe(6); // 1st: $8 - $2 = $6
-    expect(sortedPayouts[1][1]).toBe(4); // 2nd: $6 - $2 = $4
-    expect(sortedPayouts[2][1]).toBe(0); // 3rd: $2 - $2 = $0
+    // P3-P6 all lose 21 points; P5 & P6 are ahead on point differential
+    // (+14 vs +7). Teammates can't be separated, so each pair shares places.
+    expect(payouts['P5']).toBe(5); // Share of 1st + 2nd: ($8 + $6) / 2 - $2
+    expect(payouts['P6']).toBe(5);
+    expect(payouts['P3']).toBe(-1); // Share of 3rd + 4th: ($2 + $0) / 2 - $2
+    expect(payouts['P4']).toBe(-1);
   });
 
   it('should charge entry fee to all players', () => {
@@ -244,14 +413,30 @@ describe('calculatePayouts', () => {
     const entryFee = 2;
     const payouts = calculatePayouts(rounds, entryFee);
 
-    // All payouts should account for the entry fee
-    const losers = Object.values(payouts).filter((payout) => payout < 0);
-    expect(losers).toHaveLength(5);
+    // Players outside the prize places pay exactly the entry fee
+    ['P1', 'P2', 'P7', 'P8'].forEach((player) => {
+      expect(payouts[player]).toBe(-entryFee);
+    });
+  });
+
+  it('should split the prizes for shared places between tied players', () => {
+    const rounds: Round[] = [
+      {
+        roundNumber: 1,
+        games: [
+          { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 15 },
+        ],
+      },
+    ];
 
-    // Each loser pays exactly the entry fee
-    losers.forEach((payout) => {
-      expect(payout).toBe(-entryFee);
+    // Partners who only played together can't be separated by any tiebreaker
+    const payouts = calculatePayouts(rounds, 4, {
+      prizeSplit: { type: 'fixed', places: [10, 6] },
     });
+    expect(payouts['A']).toBe(4); // ($10 + $6) / 2 - $4
+    expect(payouts['B']).toBe(4);
+    expect(payouts['C']).toBe(-4);
+    expect(payouts['D']).toBe(-4);
   });
 
   it('should have a balanced prize pool (money in = money out)', () => {
@@ -269,6 +454,17 @@ describe('calculatePayouts', () => {
     expect(netSum).toBe(0);
   });
 
+  it('should use a custom entry fee and prize split', () => {
+    const rounds = createFullTournamentRounds();
+    const payouts = calculatePayouts(rounds, 5, {
+      prizeSplit: { type: 'fixed', places: [25, 15] },
+    });
+
+    const sortedPayouts = Object.values(payouts).sort((a, b) => b - a);
+    expect(sortedPayouts.slice(0, 3)).toEqual([15, 15, -5]);
+    expect(sortedPayouts.reduce((sum, payout) => sum + payout, 0)).toBe(0);
+  });
+
   it('should rank players by fewest points lost', () => {
     const rounds: Round[] = [
       {
@@ -299,6 +495,24 @@ describe('calculatePayouts', () => {
     expect(payouts['Alice']).toBeGreaterThan(payouts['Grace']);
     expect(payouts['Bob']).toBeGreaterThan(payouts['Henry']);
   });
+
+  it('should leave partial entrants out of the prizes and charge their share of the fee', () => {
+    const payouts = calculatePayouts(createFullTournamentRounds(), 2, { partialEntries: { P5: 0.5 } });
+
+    // The pool is 7 × $2 + $1 = $15, and P6 now has 1st place alone
+    expect(payouts['P5']).toBe(-1);
+    expect(payouts['P6']).toBe(5.5);
+    expect(Object.values(payouts).reduce((sum, payout) => sum + payout, 0)).toBeCloseTo(0);
+  });
+
+  it('should charge partial entrants in full when the prizes are fixed', () => {
+    const payouts = calculatePayouts(createFullTournamentRounds(), 2, {
+      prizeSplit: { type: 'fixed', places: [10, 6] },
+      partialEntries: { P5: 0.5 },
+    });
+    expect(payouts['P5']).toBe(-2);
+    expect(payouts['P6']).toBe(8);
+  });
 });
 
 describe('generate12PlayerSchedule', () => {
@@ -368,6 +582,83 @@ describe('generate12PlayerSchedule', () => {
   });
 });
 
+describe('generateTeamSchedule', () => {
+  const makePlayers = (count: number) => Array.from({ length: count }, (_, i) => `P${i + 1}`);
+  const teamKey = (team: [string, string]) => [...team].sort().join('-');
+
+  it('should have every team play every other team exactly once', () => {
+    for (let teamCount = 2; teamCount <= 8; teamCount++) {
+      const rounds = generateTeamSchedule(makePlayers(teamCount * 2));
+      const matchups = new Set<string>();
+
+      rounds.forEach((round) => {
+        round.games.forEach((game) => {
+          const matchupKey = [teamKey(game.team1), teamKey(game.team2)].sort().join(' vs ');
+          expect(matchups.has(matchupKey)).toBe(false);
+          matchups.add(matchupKey);
+        });
+      });
+
+      expect(matchups.size).toBe((teamCount * (teamCount - 1)) / 2);
+    }
+  });
+
+  it('should give one team a bye each round when the team count is odd', () => {
+    const rounds = generateTeamSchedule(makePlayers(10));
+    expect(rounds).toHaveLength(5);
+
+    const byeTeams = new Set<string>();
+    rounds.forEach((round) => {
+      expect(round.games).toHaveLength(2);
+      expect(round.byes).toHaveLength(2);
+      byeTeams.add(teamKey(round.byes as [string, string]));
+    });
+
+    // Each of the 5 teams sits out exactly once
+    expect(byeTeams.size).toBe(5);
+  });
+
+  it('should not record byes when the team count is even', () => {
+    const rounds = generateTeamSchedule(makePlayers(8));
+    expect(rounds).toHaveLength(3);
+    rounds.forEach((round) => {
+      expect(round.games).toHaveLength(2);
+      expect(round.byes).toBeUndefined();
+    });
+  });
+
+  it('should use custom teams when provided', () => {
+    const customTeams: Array<[string, string]> = [
+      ['P1', 'P6'],
+      ['P2', 'P5'],
+      ['P3', 'P4'],
+    ];
+    const rounds = generateTeamSchedule(makePlayers(6), customTeams);
+    const scheduledTeams = new Set<string>();
+    rounds.forEach((round) => {
+      round.games.forEach((game) => {
+        scheduledTeams.add(teamKey(game.team1));
+        scheduledTeams.add(teamKey(game.team2));
+      });
+    });
+    expect(scheduledTeams).toEqual(new Set(['P1-P6', 'P2-P5', 'P3-P4']));
+  });
+
+  it('should draw the same teams for the same seed', () => {
+    const rounds = generateTeamSchedule(makePlayers(6), undefined, createRandom(7));
+    expect(rounds[0].games.map(({ team1, team2 }) => [team1, team2])).toEqual([[['P5', 'P2'], ['P3', 'P4']]]);
+    expect(rounds[0].byes).toEqual(['P6', 'P1']);
+    expect(generateTeamSchedule(makePlayers(6), undefined, createRandom(7))).toEqual(rounds);
+  });
+
+  it('should throw error for an odd or out-of-range player count', () => {
+    const message = 'An even number of players between 4 and 16 is required';
+    expect(() => generateTeamSchedule(makePlayers(2))).toThrow(message);
+    expect(() => generateTeamSchedule(makePlayers(9))).toThrow(message);
+    expect(() => generateTeamSchedule(makePlayers(18))).toThrow(message);
+  });
+});
+
 describe('calculateTeamStats', () => {
   const createMock12PlayerRounds = (): Round[] => {
     return [
@@ -445,6 +736,30 @@ describe('calculateTeamStats', () => {
     expect(p11p12Team?.losses).toBe(1);
   });
 
+  it('should count games played and include teams with only byes so far', () => {
+    const rounds: Round[] = [
+      {
+        roundNumber: 1,
+        games: [
+          { id: 1, team1: ['P1', 'P2'], team2: ['P3', 'P4'], team1Score: 21, team2Score: 12 },
+        ],
+        byes: ['P5', 'P6'],
+      },
+      {
+        roundNumber: 2,
+        games: [{ id: 2, team1: ['P5', 'P6'], team2: ['P1', 'P2'] }],
+        byes: ['P3', 'P4'],
+      },
+    ];
+    const teamStats = calculateTeamStats(rounds);
+
+    expect(teamStats).toHaveLength(3);
+    const p5p6Team = teamStats.find(t => t.players.includes('P5'));
+    expect(p5p6Team?.gamesPlayed).toBe(0);
+    const p1p2Team = teamStats.find(t => t.players.includes('P1'));
+    expect(p1p2Team?.gamesPlayed).toBe(1);
+  });
+
   it('should calculate point differential correctly', () => {
     const rounds = createMock12PlayerRounds();
     const teamStats = calculateTeamStats(rounds);
@@ -554,4 +869,17 @@ describe('calculate12PlayerPayouts', () => {
     const netSum = Object.values(payouts).reduce((sum, payout) => sum + payout, 0);
     expect(netSum).toBe(0);
   });
+
+  it('should credit a substitute\'s games to the player they replaced', () => {
+    const rounds = createMock12PlayerRounds().map((round) =>
+      round.roundNumber < 4
+        ? round
+        : { ...round, games: round.games.map((game) => (game.team1[1] === 'P2' ? { ...game, team1: ['P1', 'S'] as [string, string] } : game)) }
+    );
+    const payouts = calculate12PlayerPayouts(rounds, 2, { substitutes: { S: 'P2' }, placement: [['P1', 'S']] });
+
+    expect(payouts['P1']).toBe(4);
+    expect(payouts['P2']).toBe(4);
+    expect(payouts['S']).toBeUndefined();
+  });
 });
@@ -1,31 +1,60 @@
-export type TournamentFormat = '8-player' | '12-player';
+// '8-player' is rotating-partner social doubles and '12-player' is the
+// fixed-partner team round-robin. Both now accept other player counts; the
+// ids are kept so existing shared links still load. 'dynamic' is Americano
+// or Mexicano, where each round is drawn once the previous one is scored.
+import {
+  DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+  DEFAULT_TEAM_PRIZE_SPLIT,
+  getPrizeAmounts,
+  splitTiedPrizes,
+  toCents,
+  type PrizeSplit,
+} from './prizes';
+import { getMatchResult } from './match';
+import { DEFAULT_SCORING_RULES, getPointsLost, type ScoringRules } from './scoring';
+import { calculateSideBetTotals, type SideBet } from './sideBets';
+import {
+  DEFAULT_TIEBREAKERS,
+  applyPlacement,
+  applyTiebreakers,
+  groupByPlace,
+  removeEntries,
+  type StandingsEntry,
+  type Tiebreaker,
+} from './tiebreakers';
+
+export type TournamentFormat = '8-player' | '12-player' | 'dynamic';
+
+export interface GameScore {
+  team1Score: number;
+  team2Score: number;
+}
 
 export interface Game {
   id: number;
   team1: [string, string];
   team2: [string, string];
-  team1Score?: number;
+  team1Score?: number; // Single-game matches only
   team2Score?: number;
+  court?: number; // Court number within its time slot, 1-based
+  bestOf?: 3; // Best-of-three match, scored game by game in `matchGames`
+  matchGames?: GameScore[];
 }
 
 export interface Round {
   roundNumber: number;
   games: Game[];
-}
-
-export interface SideBet {
-  id: number;
-  team1: [string, string];
-  team2: [string, string];
-  amount: number;
-  winner: 1 | 2 | null; // 1 for team1, 2 for team2, null if not yet determined
+  byes?: string[]; // Players sitting out this round
 }
 
 export interface TeamStats {
   teamName: string;
   players: [string, string];
+  gamesPlayed: number; // Matches played
   wins: number;
   losses: number;
+  gamesWon: number; // Individual games, for best-of-three matches
+  gamesLost: number;
   pointsScored: number;
   pointsConceded: number;
   pointDifferential: number;
@@ -34,57 +63,82 @@ export interface TeamStats {
 }
 
 /**
- * Shuffles an array using Fisher-Yates algorithm
+ * Shuffles an array using Fisher-Yates algorithm, drawing from `random`
+ * (Math.random unless a seeded generator is given)
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
+export const MIN_SOCIAL_PLAYERS = 4;
+export const MAX_SOCIAL_PLAYERS = 16;
+
+// Cost weights used when comparing candidate rounds. Repeating a partner is
+// much worse than facing the same opponent again.
+const PARTNER_REPEAT_WEIGHT = 10;
+const OPPONENT_REPEAT_WEIGHT = 1;
+const ROUND_ATTEMPTS = 30;
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
 /**
- * Generates a social doubles round-robin schedule for 8 players
- * where each player partners with every other player exactly once
- * Players are randomly shuffled before scheduling
+ * Number of rounds after which every player has sat out the same number
+ * of times (1 when nobody sits out)
  */
-export function generateRoundRobinSchedule(players: string[]): Round[] {
-  if (players.length !== 8) {
-    throw new Error('Exactly 8 players are required');
-  }
+function getByeCycleLength(playerCount: number): number {
+  return playerCount / greatestCommonDivisor(playerCount, playerCount % 4);
+}
 
-  // Randomly shuffle players for varied team combinations
-  const shuffledPlayers = shuffleArray(players);
+/**
+ * Number of rounds needed so that every possible partnership can occur
+ * about once for the given number of players, rounded down to whole bye
+ * cycles so everyone plays the same number of games
+ */
+export function getDefaultSocialRoundCount(playerCount: number): number {
+  const gamesPerRound = Math.floor(playerCount / 4);
+  const totalPartnerships = (playerCount * (playerCount - 1)) / 2;
+  const roundCount = Math.ceil(totalPartnerships / (gamesPerRound * 2));
+  const byeCycle = getByeCycleLength(playerCount);
+  return Math.max(byeCycle, Math.floor(roundCount / byeCycle) * byeCycle);
+}
+
+// Corrected schedule that ensures each player plays exactly 7 games
+// and each player partners with every other player exactly once
+// This is a Resolvable Balanced Incomplete Block Design (RBIBD) that
+// guarantees all 28 possible partnerships (C(8,2)) occur exactly once
+const EIGHT_PLAYER_DESIGN = [
+  // Round 1
+  [[0, 1, 2, 3], [4, 5, 6, 7]],
+  // Round 2
+  [[0, 2, 4, 6], [1, 3, 5, 7]],
+  // Round 3
+  [[0, 3, 5, 6], [1, 2, 4, 7]],
+  // Round 4
+  [[0, 4, 3, 7], [1, 5, 2, 6]],
+  // Round 5
+  [[0, 5, 1, 4], [2, 7, 3, 6]],
+  // Round 6
+  [[0, 6, 1, 7], [2, 4, 3, 5]],
+  // Round 7
+  [[0, 7, 1, 6], [2, 5, 3, 4]],
+];
 
-  // Social doubles round-robin pattern for 8 players
-  // Each player partners with every other player exactly once
+/**
+ * Hardcoded 8-player design where each player partners with every other
+ * player exactly once across 7 rounds
+ */
+function generate8PlayerSchedule(shuffledPlayers: string[]): Round[] {
   const rounds: Round[] = [];
   let gameId = 1;
 
-  // Corrected schedule that ensures each player plays exactly 7 games
-  // and each player partners with every other player exactly once
-  // This is a Resolvable Balanced Incomplete Block Design (RBIBD) that
-  // guarantees all 28 possible partnerships (C(8,2)) occur exactly once
-  const schedule = [
-    // Round 1
-    [[0, 1, 2, 3], [4, 5, 6, 7]],
-    // Round 2
-    [[0, 2, 4, 6], [1, 3, 5, 7]],
-    // Round 3
-    [[0, 3, 5, 6], [1, 2, 4, 7]],
-    // Round 4
-    [[0, 4, 3, 7], [1, 5, 2, 6]],
-    // Round 5
-    [[0, 5, 1, 4], [2, 7, 3, 6]],
-    // Round 6
-    [[0, 6, 1, 7], [2, 4, 3, 5]],
-    // Round 7
-    [[0, 7, 1, 6], [2, 5, 3, 4]],
-  ];
-
-  schedule.forEach((roundGames, roundIndex) => {
+  EIGHT_PLAYER_DESIGN.forEach((roundGames, roundIndex) => {
     const games: Game[] = roundGames.map((gameIndices) => ({
       id: gameId++,
       team1: [shuffledPlayers[gameIndices[0]], shuffledPlayers[gameIndices[1]]],
@@ -101,80 +155,413 @@ export function generateRoundRobinSchedule(players: string[]): Round[] {
 }
 
 /**
- * Generates a round-robin schedule for 12 players (6 teams)
- * Players are randomly paired into teams at the start
- * Each team plays every other team exactly once (5 games per team)
+ * Picks who sits out this round: players with the fewest byes first,
+ * preferring players who did not sit out the previous round
  */
-export function generate12PlayerSchedule(
+function selectByes(
+  playerCount: number,
+  byeCount: number,
+  byeTotals: number[],
+  previousByes: Set<number>,
+  random: () => number
+): Set<number> {
+  const candidates = shuffleArray(Array.from({ length: playerCount }, (_, i) => i), random);
+  candidates.sort((a, b) => {
+    if (byeTotals[a] !== byeTotals[b]) return byeTotals[a] - byeTotals[b];
+    return Number(previousByes.has(a)) - Number(previousByes.has(b));
+  });
+  return new Set(candidates.slice(0, byeCount));
+}
+
+/**
+ * Scores an arrangement of active players, read in groups of four as
+ * [team1 player, team1 player, team2 player, team2 player]
+ */
+function arrangementCost(
+  arrangement: number[],
+  partnerCounts: number[][],
+  opponentCounts: number[][]
+): number {
+  let cost = 0;
+  for (let i = 0; i < arrangement.length; i += 4) {
+    const [a, b, c, d] = arrangement.slice(i, i + 4);
+    cost += PARTNER_REPEAT_WEIGHT * (partnerCounts[a][b] + partnerCounts[c][d]);
+    cost +=
+      OPPONENT_REPEAT_WEIGHT *
+      (opponentCounts[a][c] + opponentCounts[a][d] + opponentCounts[b][c] + opponentCounts[b][d]);
+  }
+  return cost;
+}
+
+/**
+ * Builds one candidate round from a random arrangement of the active
+ * players, then swaps players between positions while that lowers the cost
+ */
+function buildCandidateRound(
+  activePlayers: number[],
+  partnerCounts: number[][],
+  opponentCounts: number[][],
+  random: () => number
+): { arrangement: number[]; cost: number } {
+  const arrangement = shuffleArray(activePlayers, random);
+  let cost = arrangementCost(arrangement, partnerCounts, opponentCounts);
+  let improved = true;
+
+  while (improved && cost > 0) {
+    improved = false;
+    for (let i = 0; i < arrangement.length - 1; i++) {
+      for (let j = i + 1; j < arrangement.length; j++) {
+        [arrangement[i], arrangement[j]] = [arrangement[j], arrangement[i]];
+        const swappedCost = arrangementCost(arrangement, partnerCounts, opponentCounts);
+        if (swappedCost < cost) {
+          cost = swappedCost;
+          improved = true;
+        } else {
+          [arrangement[i], arrangement[j]] = [arrangement[j], arrangement[i]];
+        }
+      }
+    }
+  }
+
+  return { arrangement, cost };
+}
+
+/**
+ * Generates a rotating-partner schedule for any supported player count.
+ * Byes are spread evenly when the count is not a multiple of 4, and each
+ * round is the cheapest of several locally optimised random arrangements,
+ * so repeated partners and opponents are kept to a minimum.
+ */
+function generateSocialSchedule(
+  shuffledPlayers: string[],
+  roundCount: number,
+  random: () => number
+): Round[] {
+  const playerCount = shuffledPlayers.length;
+  const byesPerRound = playerCount % 4;
+  const partnerCounts = Array.from({ length: playerCount }, () => Array(playerCount).fill(0));
+  const opponentCounts = Array.from({ length: playerCount }, () => Array(playerCount).fill(0));
+  const byeTotals: number[] = Array(playerCount).fill(0);
+  let previousByes = new Set<number>();
+
+  const rounds: Round[] = [];
+  let gameId = 1;
+
+  for (let roundIndex = 0; roundIndex < roundCount; roundIndex++) {
+    // Each attempt redraws the byes among equally fair choices as well, so
+    // a bad set of sitters-out can't force a repeated partnership
+    const buildAttempt = () => {
+      const byes = selectByes(playerCount, byesPerRound, byeTotals, previousByes, random);
+      const activePlayers = Array.from({ length: playerCount }, (_, i) => i).filter(
+        (i) => !byes.has(i)
+      );
+      return { byes, ...buildCandidateRound(activePlayers, partnerCounts, opponentCounts, random) };
+    };
+
+    let best = buildAttempt();
+    for (let attempt = 1; attempt < ROUND_ATTEMPTS && best.cost > 0; attempt++) {
+      const candidate = buildAttempt();
+      if (candidate.cost < best.cost) {
+        best = candidate;
+      }
+    }
+    const { byes } = best;
+
+    const games: Array<[number, number, number, number]> = [];
+    for (let i = 0; i < best.arrangement.length; i += 4) {
+      const [a, b, c, d] = best.arrangement.slice(i, i + 4);
+      games.push([a, b, c, d]);
+    }
+
+    games.forEach(([a, b, c, d]) => {
+      partnerCounts[a][b]++;
+      partnerCounts[b][a]++;
+      partnerCounts[c][d]++;
+      partnerCounts[d][c]++;
+      [a, b].forEach((player) => {
+        [c, d].forEach((opponent) => {
+          opponentCounts[player][opponent]++;
+          opponentCounts[opponent][player]++;
+        });
+      });
+    });
+    byes.forEach((player) => byeTotals[player]++);
+    previousByes = byes;
+
+    const round: Round = {
+      roundNumber: roundIndex + 1,
+      games: games.map(([a, b, c, d]) => ({
+        id: gameId++,
+        team1: [shuffledPlayers[a], shuffledPlayers[b]],
+        team2: [shuffledPlayers[c], shuffledPlayers[d]],
+      })),
+    };
+    if (byes.size > 0) {
+      round.byes = Array.from(byes).map((player) => shuffledPlayers[player]);
+    }
+    rounds.push(round);
+  }
+
+  return rounds;
+}
+
+/**
+ * Generates a social doubles schedule with rotating partners for 4 to 16
+ * players. With exactly 8 players each player partners with every other
+ * player exactly once. Players are randomly shuffled before scheduling;
+ * pass a seeded `random` (see createRandom) to get the same draw again.
+ */
+export function generateRoundRobinSchedule(
   players: string[],
-  customTeams?: Array<[string, string]>
+  roundCount: number = getDefaultSocialRoundCount(players.length),
+  random: () => number = Math.random
 ): Round[] {
-  if (players.length !== 12) {
-    throw new Error('Exactly 12 players are required');
+  if (players.length < MIN_SOCIAL_PLAYERS || players.length > MAX_SOCIAL_PLAYERS) {
+    throw new Error(
+      `Between ${MIN_SOCIAL_PLAYERS} and ${MAX_SOCIAL_PLAYERS} players are required`
+    );
+  }
+
+  // Randomly shuffle players for varied team combinations
+  const shuffledPlayers = shuffleArray(players, random);
+
+  if (players.length === 8 && roundCount === 7) {
+    return generate8PlayerSchedule(shuffledPlayers);
+  }
+
+  return generateSocialSchedule(shuffledPlayers, roundCount, random);
+}
+
+/**
+ * Picks who sits out the next round from the games played so far: players
+ * who have played the most sit out first, ties broken randomly
+ */
+export function selectByesByGamesPlayed(
+  players: string[],
+  previousRounds: Round[],
+  byeCount: number,
+  random: () => number = Math.random
+): Set<string> {
+  const gamesPlayed = new Map<string, number>(players.map((player) => [player, 0]));
+  previousRounds.forEach((round) => {
+    round.games.forEach((game) => {
+      [...game.team1, ...game.team2].forEach((player) => {
+        gamesPlayed.set(player, (gamesPlayed.get(player) ?? 0) + 1);
+      });
+    });
+  });
+
+  const candidates = shuffleArray(players, random);
+  candidates.sort((a, b) => gamesPlayed.get(b)! - gamesPlayed.get(a)!);
+  return new Set(candidates.slice(0, byeCount));
+}
+
+/**
+ * Returns the id to use for the next game added after `rounds`
+ */
+export function getNextGameId(rounds: Round[]): number {
+  return rounds.reduce(
+    (maxId, round) => round.games.reduce((roundMax, game) => Math.max(roundMax, game.id), maxId),
+    0
+  ) + 1;
+}
+
+/**
+ * Generates the next rotating-partner round from the games played so far,
+ * so a schedule can be built one round at a time. The previous rounds may
+ * already be split into court slots. With 8 players the first 7 rounds
+ * follow the fixed design in the order the players are given.
+ */
+export function generateNextSocialRound(
+  players: string[],
+  previousRounds: Round[],
+  random: () => number = Math.random
+): Round {
+  if (players.length < MIN_SOCIAL_PLAYERS || players.length > MAX_SOCIAL_PLAYERS) {
+    throw new Error(
+      `Between ${MIN_SOCIAL_PLAYERS} and ${MAX_SOCIAL_PLAYERS} players are required`
+    );
+  }
+
+  const gamesSoFar = previousRounds.reduce((sum, round) => sum + round.games.length, 0);
+  const roundNumber = Math.floor(gamesSoFar / Math.floor(players.length / 4)) + 1;
+  let gameId = getNextGameId(previousRounds);
+
+  const playerIndex = new Map(players.map((player, index) => [player, index]));
+  // Games can include players who have since withdrawn; only pairs of
+  // current players count towards the partner and opponent totals
+  const onlyCurrentPlayers = previousRounds.every((round) =>
+    round.games.every((game) => [...game.team1, ...game.team2].every((player) => playerIndex.has(player)))
+  );
+
+  if (players.length === 8 && onlyCurrentPlayers && roundNumber <= EIGHT_PLAYER_DESIGN.length) {
+    return {
+      roundNumber,
+      games: EIGHT_PLAYER_DESIGN[roundNumber - 1].map((gameIndices) => ({
+        id: gameId++,
+        team1: [players[gameIndices[0]], players[gameIndices[1]]],
+        team2: [players[gameIndices[2]], players[gameIndices[3]]],
+      })),
+    };
+  }
+
+  const partnerCounts = Array.from({ length: players.length }, () => Array(players.length).fill(0));
+  const opponentCounts = Array.from({ length: players.length }, () => Array(players.length).fill(0));
+  const countPair = (counts: number[][], x: number | undefined, y: number | undefined) => {
+    if (x === undefined || y === undefined) return;
+    counts[x][y]++;
+    counts[y][x]++;
+  };
+  previousRounds.forEach((round) => {
+    round.games.forEach((game) => {
+      const [a, b, c, d] = [...game.team1, ...game.team2].map((player) => playerIndex.get(player));
+      countPair(partnerCounts, a, b);
+      countPair(partnerCounts, c, d);
+      [a, b].forEach((player) => {
+        [c, d].forEach((opponent) => countPair(opponentCounts, player, opponent));
+      });
+    });
+  });
+
+  const byes = selectByesByGamesPlayed(players, previousRounds, players.length % 4, random);
+  const activePlayers = players
+    .map((_, index) => index)
+    .filter((index) => !byes.has(players[index]));
+
+  let best = buildCandidateRound(activePlayers, partnerCounts, opponentCounts, random);
+  for (let attempt = 1; attempt < ROUND_ATTEMPTS && best.cost > 0; attempt++) {
+    const candidate = buildCandidateRound(activePlayers, partnerCounts, opponentCounts, random);
+    if (candidate.cost < best.cost) {
+      best = candidate;
+    }
+  }
+
+  const games: Game[] = [];
+  for (let i = 0; i < best.arrangement.length; i += 4) {
+    const [a, b, c, d] = best.arrangement.slice(i, i + 4);
+    games.push({
+      id: gameId++,
+      team1: [players[a], players[b]],
+      team2: [players[c], players[d]],
+    });
+  }
+
+  return byes.size > 0 ? { roundNumber, games, byes: Array.from(byes) } : { roundNumber, games };
+}
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+
+/**
+ * Generates a fixed-partner round-robin schedule for any number of teams
+ * Players are randomly paired into teams unless custom teams are given,
+ * drawing from `random` so a seeded generator repeats the same teams
+ * Each team plays every other team exactly once; with an odd number of
+ * teams one team sits out each round
+ */
+export function generateTeamSchedule(
+  players: string[],
+  customTeams?: Array<[string, string]>,
+  random: () => number = Math.random
+): Round[] {
+  const teamCount = players.length / 2;
+  if (!Number.isInteger(teamCount) || teamCount < MIN_TEAMS || teamCount > MAX_TEAMS) {
+    throw new Error(
+      `An even number of players between ${MIN_TEAMS * 2} and ${MAX_TEAMS * 2} is required`
+    );
   }
 
   let teams: Array<[string, string]>;
 
-  if (customTeams && customTeams.length === 6) {
+  if (customTeams && customTeams.length === teamCount) {
     // Use custom teams if provided
     teams = customTeams;
   } else {
-    // Randomly shuffle players and pair them into 6 teams
-    const shuffledPlayers = shuffleArray(players);
+    // Randomly shuffle players and pair them into teams
+    const shuffledPlayers = shuffleArray(players, random);
     teams = [];
-    for (let i = 0; i < 12; i += 2) {
+    for (let i = 0; i < players.length; i += 2) {
       teams.push([shuffledPlayers[i], shuffledPlayers[i + 1]]);
     }
   }
 
-  // Round-robin scheduling for 6 teams
-  // Using the circle method: 5 rounds, 3 games per round
+  // Circle method: fix the first slot and rotate the others. An odd
+  // number of teams gets an empty slot, and whoever meets it has a bye.
+  const slots: Array<[string, string] | null> = teamCount % 2 === 0 ? [...teams] : [...teams, null];
+  const slotCount = slots.length;
+  const rotatingSlots = Array.from({ length: slotCount - 1 }, (_, i) => i + 1);
+
   const rounds: Round[] = [];
   let gameId = 1;
 
-  // Circle method for round-robin with 6 teams
-  // Fix team 0, rotate others
-  const rotatingTeams = [1, 2, 3, 4, 5];
+  for (let round = 0; round < slotCount - 1; round++) {
+    const pairings: Array<[number, number]> = [[0, rotatingSlots[0]]];
+    for (let i = 1; i < slotCount / 2; i++) {
+      pairings.push([rotatingSlots[i], rotatingSlots[slotCount - 1 - i]]);
+    }
 
-  for (let round = 0; round < 5; round++) {
     const games: Game[] = [];
-
-    // Team 0 plays against rotatingTeams[0]
-    games.push({
-      id: gameId++,
-      team1: teams[0],
-      team2: teams[rotatingTeams[0]],
+    let byes: string[] | undefined;
+
+    pairings.forEach(([slot1, slot2]) => {
+      const team1 = slots[slot1];
+      const team2 = slots[slot2];
+      if (team1 && team2) {
+        games.push({ id: gameId++, team1, team2 });
+      } else {
+        byes = [...(team1 ?? team2)!];
+      }
     });
 
-    // Pair up the remaining teams
-    for (let i = 1; i < 3; i++) {
-      const team1Idx = rotatingTeams[i];
-      const team2Idx = rotatingTeams[5 - i];
-      games.push({
-        id: gameId++,
-        team1: teams[team1Idx],
-        team2: teams[team2Idx],
-      });
-    }
-
-    rounds.push({
-      roundNumber: round + 1,
-      games,
-    });
+    rounds.push(byes ? { roundNumber: round + 1, games, byes } : { roundNumber: round + 1, games });
 
     // Rotate teams for next round (keep first position, rotate others)
-    rotatingTeams.unshift(rotatingTeams.pop()!);
+    rotatingSlots.unshift(rotatingSlots.pop()!);
   }
 
   return rounds;
 }
 
-const MAX_POINTS_PER_GAME = 21;
+/**
+ * Generates a round-robin schedule for 12 players (6 teams)
+ * Players are randomly paired into teams at the start
+ * Each team plays every other team exactly once (5 games per team)
+ */
+export function generate12PlayerSchedule(
+  players: string[],
+  customTeams?: Array<[string, string]>,
+  random: () => number = Math.random
+): Round[] {
+  if (players.length !== 12) {
+    throw new Error('Exactly 12 players are required');
+  }
+
+  return generateTeamSchedule(players, customTeams, random);
+}
+
+// How individual players are ordered in the standings
+export type PlayerRanking = 'fewest-points-lost' | 'most-points-scored';
+
+export type PlayerStats = ReturnType<typeof calculatePlayerStats>[string];
 
 /**
- * Calculates player statistics from completed games
+ * Sorts player stats into standings order for the given ranking
  */
-export function calculatePlayerStats(rounds: Round[]) {
+export function rankPlayers(
+  stats: { [player: string]: PlayerStats },
+  ranking: PlayerRanking = 'fewest-points-lost'
+): Array<[string, PlayerStats]> {
+  return Object.entries(stats).sort(([, a], [, b]) =>
+    ranking === 'most-points-scored' ? b.totalPoints - a.totalPoints : a.pointsLost - b.pointsLost
+  );
+}
+
+/**
+ * Calculates player statistics from completed matches. Wins, losses and
+ * gamesPlayed count matches; gamesWon and gamesLost count the individual
+ * games within them, and points are rally points across every game.
+ */
+export function calculatePlayerStats(rounds: Round[], scoringRules: ScoringRules = DEFAULT_SCORING_RULES) {
   const stats: {
     [player: string]: {
       totalPoints: number;
@@ -182,25 +569,30 @@ export function calculatePlayerStats(rounds: Round[]) {
       gamesPlayed: number;
       wins: number;
       losses: number;
+      gamesWon: number;
+      gamesLost: number;
       gameScores: number[];
     };
   } = {};
 
   rounds.forEach((round) => {
     round.games.forEach((game) => {
-      if (game.team1Score !== undefined && game.team2Score !== undefined) {
-        const team1Score = game.team1Score;
-        const team2Score = game.team2Score;
-        const team1Won = team1Score > team2Score;
+      const result = getMatchResult(game);
+      if (result) {
+        const team1Won = result.winner === 1;
 
         // Add points for team 1 players
         game.team1.forEach((player) => {
           if (!stats[player]) {
-            stats[player] = { totalPoints: 0, pointsLost: 0, gamesPlayed: 0, wins: 0, losses: 0, gameScores: [] };
+            stats[player] = { totalPoints: 0, pointsLost: 0, gamesPlayed: 0, wins: 0, losses: 0, gamesWon: 0, gamesLost: 0, gameScores: [] };
           }
-          stats[player].totalPoints += team1Score;
-          stats[player].pointsLost += (MAX_POINTS_PER_GAME - team1Score);
-          stats[player].gameScores.push(team1Score);
+          result.games.forEach(({ team1Score, team2Score }) => {
+            stats[player].totalPoints += team1Score;
+            stats[player].pointsLost += getPointsLost(team1Score, team2Score, scoringRules);
+            stats[player].gameScores.push(team1Score);
+          });
+          stats[player].gamesWon += result.team1Games;
+          stats[player].gamesLost += result.team2Games;
           stats[player].gamesPlayed++;
           if (team1Won) {
             stats[player].wins++;
@@ -212,11 +604,15 @@ export function calculatePlayerStats(rounds: Round[]) {
         // Add points for team 2 players
         game.team2.forEach((player) => {
           if (!stats[player]) {
-            stats[player] = { totalPoints: 0, pointsLost: 0, gamesPlayed: 0, wins: 0, losses: 0, gameScores: [] };
+            stats[player] = { totalPoints: 0, pointsLost: 0, gamesPlayed: 0, wins: 0, losses: 0, gamesWon: 0, gamesLost: 0, gameScores: [] };
           }
-          stats[player].totalPoints += team2Score;
-          stats[player].pointsLost += (MAX_POINTS_PER_GAME - team2Score);
-          stats[player].gameScores.push(team2Score);
+          result.games.forEach(({ team1Score, team2Score }) => {
+            stats[player].totalPoints += team2Score;
+            stats[player].pointsLost += getPointsLost(team2Score, team1Score, scoringRules);
+            stats[player].gameScores.push(team2Score);
+          });
+          stats[player].gamesWon += result.team2Games;
+          stats[player].gamesLost += result.team1Games;
           stats[player].gamesPlayed++;
           if (!team1Won) {
             stats[player].wins++;
@@ -232,70 +628,154 @@ export function calculatePlayerStats(rounds: Round[]) {
 }
 
 /**
- * Calculates payouts based on prize pool system
- * Entry fee: $2 per player
- * 1st place: $8, 2nd place: $6, 3rd place: $2
- * Winner determined by fewest points lost
+ * Player standings with the tiebreaker chain applied to anyone level on
+ * the primary ranking
  */
-export function calculatePayouts(
+export function getPlayerStandings(
   rounds: Round[],
-  entryFee: number
-): { [player: string]: number } {
-  const stats = calculatePlayerStats(rounds);
-  const payouts: { [player: string]: number } = {};
+  ranking: PlayerRanking = 'fewest-points-lost',
+  tiebreakers: Tiebreaker[] = DEFAULT_TIEBREAKERS,
+  scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+): StandingsEntry<[string, PlayerStats]>[] {
+  const primaryValue = ([, stats]: [string, PlayerStats]) =>
+    ranking === 'most-points-scored' ? stats.totalPoints : stats.pointsLost;
+
+  return applyTiebreakers(
+    rankPlayers(calculatePlayerStats(rounds, scoringRules), ranking),
+    (a, b) => primaryValue(a) === primaryValue(b),
+    ([player]) => [player],
+    rounds,
+    tiebreakers
+  );
+}
 
-  // Sort players by points lost (ascending - fewest points lost wins)
-  const sortedPlayers = Object.entries(stats).sort(
-    ([, a], [, b]) => a.pointsLost - b.pointsLost
+/**
+ * Team standings: most wins first, with the tiebreaker chain applied to
+ * teams on the same number of wins
+ */
+export function getTeamStandings(
+  rounds: Round[],
+  tiebreakers: Tiebreaker[] = DEFAULT_TIEBREAKERS,
+  scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+): StandingsEntry<TeamStats>[] {
+  return applyTiebreakers(
+    calculateTeamStats(rounds, scoringRules),
+    (a, b) => a.wins === b.wins,
+    (team) => team.players,
+    rounds,
+    tiebreakers
   );
+}
 
-  // Prize distribution
-  const prizes = [8, 6, 2]; // 1st, 2nd, 3rd place prizes
+export interface PayoutOptions {
+  prizeSplit?: PrizeSplit;
+  ranking?: PlayerRanking; // Individual formats only
+  placement?: Array<[string, string]>; // Playoff teams in finishing order, overrides the standings
+  tiebreakers?: Tiebreaker[];
+  scoringRules?: ScoringRules;
+  // Individual formats: players who only took part in some of the games
+  // (withdrawn players and substitutes), with the share of the entry fee
+  // each owes. They aren't placed for prizes.
+  partialEntries?: { [player: string]: number };
+  // Team format: each substitute and the player they replaced, whose team
+  // keeps its results, prize and entry fee
+  substitutes?: { [substitute: string]: string };
+}
 
-  // Initialize all players with negative entry fee
-  sortedPlayers.forEach(([player]) => {
-    payouts[player] = -entryFee;
-  });
+export interface PrizePlacing<T> extends StandingsEntry<T> {
+  prize: number; // Per player
+}
 
-  // Add prizes to top 3 players
-  sortedPlayers.forEach(([player], index) => {
-    if (index < prizes.length) {
-      payouts[player] += prizes[index];
-    }
-  });
+/**
+ * Attaches prizes to standings. Entries that share a place split the
+ * prizes for the places they cover evenly.
+ */
+function attachPrizes<T>(entries: StandingsEntry<T>[], prizes: number[]): PrizePlacing<T>[] {
+  const groups = groupByPlace(entries);
+  const groupPrizes = splitTiedPrizes(prizes, groups.map((group) => group.length));
+  return groups.flatMap((group, groupIndex) =>
+    group.map((entry, index) => ({ ...entry, prize: groupPrizes[groupIndex][index] }))
+  );
+}
 
-  return payouts;
+/**
+ * Entry fee owed by each partial entrant. With a percentage split they pay
+ * their share and the pool shrinks to match; fixed prizes need the full
+ * pool, so they pay in full.
+ */
+function getPartialEntryFees(
+  entryFee: number,
+  prizeSplit: PrizeSplit,
+  partialEntries: { [player: string]: number }
+): { [player: string]: number } {
+  return Object.fromEntries(
+    Object.entries(partialEntries).map(([player, share]) => [
+      player,
+      prizeSplit.type === 'fixed' ? entryFee : Math.round(toCents(entryFee) * share) / 100,
+    ])
+  );
+}
+
+/**
+ * Final placings and prize for every player in an individual format.
+ * Partial entrants are left out of the placings.
+ */
+export function calculatePrizePlacings(
+  rounds: Round[],
+  entryFee: number,
+  options: PayoutOptions = {}
+): PrizePlacing<[string, PlayerStats]>[] {
+  const {
+    prizeSplit = DEFAULT_INDIVIDUAL_PRIZE_SPLIT,
+    ranking = 'fewest-points-lost',
+    placement,
+    tiebreakers = DEFAULT_TIEBREAKERS,
+    scoringRules = DEFAULT_SCORING_RULES,
+    partialEntries = {},
+  } = options;
+
+  const standings = applyPlacement(
+    removeEntries(
+      getPlayerStandings(rounds, ranking, tiebreakers, scoringRules),
+      ([player]) => player in partialEntries
+    ),
+    ([player]) => [player],
+    placement
+  );
+  const partialCents = Object.values(getPartialEntryFees(entryFee, prizeSplit, partialEntries))
+    .reduce((sum, fee) => sum + toCents(fee), 0);
+  const pool = (toCents(entryFee) * standings.length + partialCents) / 100;
+  return attachPrizes(standings, getPrizeAmounts(prizeSplit, pool, 1, 1));
 }
 
 /**
- * Calculates side bet gains/losses per player
+ * Calculates payouts based on prize pool system
+ * Every player pays the entry fee into the pool, which is split between
+ * the top places (by default 50% / 37.5% / 12.5%, i.e. $8 / $6 / $2 for
+ * 8 players at $2). Winner determined by fewest points lost, or by most
+ * points scored for Americano and Mexicano, then by the tiebreaker chain.
+ * Players still tied split the prizes for their places evenly. A playoff
+ * placement, if given, takes precedence. Partial entrants just pay their
+ * share of the entry fee.
  */
-export function calculateSideBetTotals(
-  sideBets: SideBet[]
+export function calculatePayouts(
+  rounds: Round[],
+  entryFee: number,
+  options: PayoutOptions = {}
 ): { [player: string]: number } {
-  const totals: { [player: string]: number } = {};
+  const payouts: { [player: string]: number } = {};
 
-  sideBets.forEach((sideBet) => {
-    if (sideBet.winner === 1) {
-      // Team 1 won
-      sideBet.team1.forEach((player) => {
-        totals[player] = (totals[player] || 0) + sideBet.amount;
-      });
-      sideBet.team2.forEach((player) => {
-        totals[player] = (totals[player] || 0) - sideBet.amount;
-      });
-    } else if (sideBet.winner === 2) {
-      // Team 2 won
-      sideBet.team2.forEach((player) => {
-        totals[player] = (totals[player] || 0) + sideBet.amount;
-      });
-      sideBet.team1.forEach((player) => {
-        totals[player] = (totals[player] || 0) - sideBet.amount;
-      });
-    }
+  calculatePrizePlacings(rounds, entryFee, options).forEach(({ item: [player], prize }) => {
+    payouts[player] = prize - entryFee;
   });
+  const { prizeSplit = DEFAULT_INDIVIDUAL_PRIZE_SPLIT, partialEntries = {} } = options;
+  Object.entries(getPartialEntryFees(entryFee, prizeSplit, partialEntries)).forEach(
+    ([player, fee]) => {
+      payouts[player] = -fee;
+    }
+  );
 
-  return totals;
+  return payouts;
 }
 
 /**
@@ -304,13 +784,14 @@ export function calculateSideBetTotals(
 export function calculatePayoutsWithSideBets(
   rounds: Round[],
   entryFee: number,
-  sideBets: SideBet[]
+  sideBets: SideBet[],
+  options: PayoutOptions = {}
 ): { [player: string]: number } {
   // Start with tournament payouts
-  const payouts = calculatePayouts(rounds, entryFee);
+  const payouts = calculatePayouts(rounds, entryFee, options);
 
   // Apply side bet wins/losses
-  const sideBetTotals = calculateSideBetTotals(sideBets);
+  const sideBetTotals = calculateSideBetTotals(sideBets, rounds);
   Object.entries(sideBetTotals).forEach(([player, amount]) => {
     payouts[player] = (payouts[player] || 0) + amount;
   });
@@ -319,67 +800,69 @@ export function calculatePayoutsWithSideBets(
 }
 
 /**
- * Calculates team statistics for 12-player format
+ * Calculates team statistics for the team round-robin format
  * Returns stats for each team (identified by their two players)
  */
-export function calculateTeamStats(rounds: Round[]): TeamStats[] {
+export function calculateTeamStats(
+  rounds: Round[],
+  scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+): TeamStats[] {
   const teamMap = new Map<string, TeamStats>();
-  const MAX_POINTS = 21;
+
+  const getTeam = (players: [string, string]): TeamStats => {
+    const key = [...players].sort().join(' & ');
+    if (!teamMap.has(key)) {
+      teamMap.set(key, {
+        teamName: key,
+        players,
+        gamesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        gamesWon: 0,
+        gamesLost: 0,
+        pointsScored: 0,
+        pointsConceded: 0,
+        pointDifferential: 0,
+        pointsLost: 0,
+        gameScores: [],
+      });
+    }
+    return teamMap.get(key)!;
+  };
 
   rounds.forEach((round) => {
     round.games.forEach((game) => {
-      if (game.team1Score !== undefined && game.team2Score !== undefined) {
-        const team1Key = [...game.team1].sort().join(' & ');
-        const team2Key = [...game.team2].sort().join(' & ');
-
-        // Initialize team1 if not exists
-        if (!teamMap.has(team1Key)) {
-          teamMap.set(team1Key, {
-            teamName: team1Key,
-            players: game.team1,
-            wins: 0,
-            losses: 0,
-            pointsScored: 0,
-            pointsConceded: 0,
-            pointDifferential: 0,
-            pointsLost: 0,
-            gameScores: [],
-          });
-        }
-
-        // Initialize team2 if not exists
-        if (!teamMap.has(team2Key)) {
-          teamMap.set(team2Key, {
-            teamName: team2Key,
-            players: game.team2,
-            wins: 0,
-            losses: 0,
-            pointsScored: 0,
-            pointsConceded: 0,
-            pointDifferential: 0,
-            pointsLost: 0,
-            gameScores: [],
-          });
-        }
-
-        const team1Stats = teamMap.get(team1Key)!;
-        const team2Stats = teamMap.get(team2Key)!;
+      // Register both teams even before the game is scored, so teams that
+      // have only had byes so far still show up in the standings
+      const team1Stats = getTeam(game.team1);
+      const team2Stats = getTeam(game.team2);
 
+      const result = getMatchResult(game);
+      if (result) {
         // Update stats
-        team1Stats.pointsScored += game.team1Score;
-        team1Stats.pointsConceded += game.team2Score;
-        team1Stats.pointsLost += (MAX_POINTS - game.team1Score);
-        team1Stats.gameScores.push(game.team1Score);
-
-        team2Stats.pointsScored += game.team2Score;
-        team2Stats.pointsConceded += game.team1Score;
-        team2Stats.pointsLost += (MAX_POINTS - game.team2Score);
-        team2Stats.gameScores.push(game.team2Score);
+        team1Stats.gamesPlayed++;
+        team1Stats.pointsScored += result.team1Points;
+        team1Stats.pointsConceded += result.team2Points;
+        team1Stats.gamesWon += result.team1Games;
+        team1Stats.gamesLost += result.team2Games;
+
+        team2Stats.gamesPlayed++;
+        team2Stats.pointsScored += result.team2Points;
+        team2Stats.pointsConceded += result.team1Points;
+        team2Stats.gamesWon += result.team2Games;
+        team2Stats.gamesLost += result.team1Games;
+
+        result.games.forEach(({ team1Score, team2Score }) => {
+          team1Stats.pointsLost += getPointsLost(team1Score, team2Score, scoringRules);
+          team1Stats.gameScores.push(team1Score);
+          team2Stats.pointsLost += getPointsLost(team2Score, team1Score, scoringRules);
+          team2Stats.gameScores.push(team2Score);
+        });
 
-        if (game.team1Score > game.team2Score) {
+        if (result.winner === 1) {
           team1Stats.wins++;
           team2Stats.losses++;
-        } else if (game.team2Score > game.team1Score) {
+        } else if (result.winner === 2) {
           team2Stats.wins++;
           team1Stats.losses++;
         }
@@ -398,34 +881,72 @@ export function calculateTeamStats(rounds: Round[]): TeamStats[] {
 }
 
 /**
- * Calculates payouts for 12-player format
- * Entry fee: $2 per player
+ * Rounds with each substitute's games credited to the player they
+ * replaced, so a team keeps one record across a substitution
+ */
+export function mergeSubstitutes(
+  rounds: Round[],
+  substitutes: { [substitute: string]: string }
+): Round[] {
+  if (Object.keys(substitutes).length === 0) return rounds;
+  const original = (player: string) => substitutes[player] ?? player;
+  return rounds.map((round) => ({
+    ...round,
+    games: round.games.map((game) => ({
+      ...game,
+      team1: [original(game.team1[0]), original(game.team1[1])],
+      team2: [original(game.team2[0]), original(game.team2[1])],
+    })),
+    ...(round.byes && { byes: round.byes.map(original) }),
+  }));
+}
+
+/**
+ * Final placings and per-player prize for every team in the team format
+ */
+export function calculateTeamPrizePlacings(
+  rounds: Round[],
+  entryFee: number,
+  options: PayoutOptions = {}
+): PrizePlacing<TeamStats>[] {
+  const {
+    prizeSplit = DEFAULT_TEAM_PRIZE_SPLIT,
+    placement,
+    tiebreakers = DEFAULT_TIEBREAKERS,
+    scoringRules = DEFAULT_SCORING_RULES,
+    substitutes = {},
+  } = options;
+
+  const standings = applyPlacement(
+    getTeamStandings(mergeSubstitutes(rounds, substitutes), tiebreakers, scoringRules),
+    (team) => team.players,
+    placement?.map((team) => team.map((player) => substitutes[player] ?? player))
+  );
+  return attachPrizes(standings, getPrizeAmounts(prizeSplit, entryFee, standings.length * 2, 2));
+}
+
+/**
+ * Calculates payouts for the team format
+ * Every player pays the entry fee; each place's prize is shared by both
+ * players on the team. By default, with 12 players at $2:
  * 1st place team: $6 each (total $12)
  * 2nd place team: $4 each (total $8)
  * 3rd place team: $2 each (total $4)
  * Total payout: $24, Total collected: $24
+ * Teams level on wins go through the tiebreaker chain, and teams still
+ * tied split their places' prizes. A playoff placement, if given, takes
+ * precedence over the standings.
  */
 export function calculate12PlayerPayouts(
   rounds: Round[],
-  entryFee: number
+  entryFee: number,
+  options: PayoutOptions = {}
 ): { [player: string]: number } {
-  const teamStats = calculateTeamStats(rounds);
   const payouts: { [player: string]: number } = {};
 
-  // Prize distribution for teams
-  const teamPrizes = [6, 4, 2]; // Per player on 1st, 2nd, 3rd place teams
-
-  // Initialize all players with negative entry fee
-  teamStats.forEach((team) => {
-    team.players.forEach((player) => {
-      payouts[player] = -entryFee;
-    });
-  });
-
-  // Add prizes to top 3 teams
-  teamStats.slice(0, 3).forEach((team, index) => {
+  calculateTeamPrizePlacings(rounds, entryFee, options).forEach(({ item: team, prize }) => {
     team.players.forEach((player) => {
-      payouts[player] += teamPrizes[index];
+      payouts[player] = prize - entryFee;
     });
   });
 
@@ -438,13 +959,14 @@ export function calculate12PlayerPayouts(
 export function calculate12PlayerPayoutsWithSideBets(
   rounds: Round[],
   entryFee: number,
-  sideBets: SideBet[]
+  sideBets: SideBet[],
+  options: PayoutOptions = {}
 ): { [player: string]: number } {
   // Start with tournament payouts
-  const payouts = calculate12PlayerPayouts(rounds, entryFee);
+  const payouts = calculate12PlayerPayouts(rounds, entryFee, options);
 
   // Apply side bet wins/losses
-  const sideBetTotals = calculateSideBetTotals(sideBets);
+  const sideBetTotals = calculateSideBetTotals(sideBets, rounds);
   Object.entries(sideBetTotals).forEach(([player, amount]) => {
     payouts[player] = (payouts[player] || 0) + amount;
   });
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_RULES,
+  getPointsLost,
+  validateScore,
+  validateScoringRules,
+  type ScoringRules,
+} from './scoring';
+
+describe('validateScore', () => {
+  it('should accept normal and deuce finishes to 21', () => {
+    expect(validateScore(21, 0)).toBeNull();
+    expect(validateScore(19, 21)).toBeNull();
+    expect(validateScore(22, 20)).toBeNull();
+    expect(validateScore(28, 30)).toBeNull();
+    expect(validateScore(30, 29)).toBeNull();
+  });
+
+  it('should reject ties, negatives and fractions', () => {
+    expect(validateScore(5, 5)).toBe('A game cannot end in a tie');
+    expect(validateScore(-1, 21)).toBe('Scores must be whole numbers of zero or more');
+    expect(validateScore(21, 10.5)).toBe('Scores must be whole numbers of zero or more');
+  });
+
+  it('should reject games that stopped before the target', () => {
+    expect(validateScore(15, 10)).toBe('The winning side must reach 21 points');
+  });
+
+  it('should reject scores beyond the cap or without a 2-point lead', () => {
+    expect(validateScore(40, 3)).toBe('Games are capped at 30 points');
+    expect(validateScore(21, 20)).toMatch(/must lead by 2/);
+    expect(validateScore(25, 21)).toMatch(/ends as soon as one side leads by 2/);
+    expect(validateScore(30, 25)).toMatch(/loser needs at least 28/);
+  });
+
+  it('should follow the configured target and cap', () => {
+    const rules: ScoringRules = { target: 11, winByTwo: true, cap: 15 };
+    expect(validateScore(11, 9, rules)).toBeNull();
+    expect(validateScore(15, 14, rules)).toBeNull();
+    expect(validateScore(21, 19, rules)).toBe('Games are capped at 15 points');
+  });
+
+  it('should require exactly the target without win-by-2', () => {
+    const rules: ScoringRules = { target: 15, winByTwo: false, cap: 15 };
+    expect(validateScore(15, 14, rules)).toBeNull();
+    expect(validateScore(16, 14, rules)).toBe('The winning side must score exactly 15 points');
+  });
+});
+
+describe('validateScoringRules', () => {
+  it('should accept the defaults', () => {
+    expect(validateScoringRules(DEFAULT_SCORING_RULES)).toBeNull();
+  });
+
+  it('should reject a cap below the target', () => {
+    expect(validateScoringRules({ target: 21, winByTwo: true, cap: 20 })).toBe(
+      'The cap must be a whole number of at least 21 points'
+    );
+  });
+});
+
+describe('getPointsLost', () => {
+  it('should count points short of the target', () => {
+    expect(getPointsLost(21, 15)).toBe(0);
+    expect(getPointsLost(15, 21)).toBe(6);
+  });
+
+  it('should count the margin in deuce games', () => {
+    expect(getPointsLost(24, 22)).toBe(0);
+    expect(getPointsLost(22, 24)).toBe(2);
+  });
+
+  it('should use the configured target', () => {
+    expect(getPointsLost(7, 11, { target: 11, winByTwo: true, cap: 15 })).toBe(4);
+  });
+});
@@ -0,0 +1,100 @@
+export type GameTarget = 11 | 15 | 21;
+
+export const GAME_TARGETS: GameTarget[] = [11, 15, 21];
+
+// A game is won by the first side to `target` points. With win-by-2, a game
+// level at target - 1 carries on until one side leads by 2, or until a side
+// reaches `cap` (the golden point).
+export interface ScoringRules {
+  target: GameTarget;
+  winByTwo: boolean;
+  cap: number;
+}
+
+// Usual cap for each game length: 21 → 30 as in BWF scoring
+export const DEFAULT_CAPS: Record<GameTarget, number> = {
+  11: 15,
+  15: 21,
+  21: 30,
+};
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  target: 21,
+  winByTwo: true,
+  cap: DEFAULT_CAPS[21],
+};
+
+/**
+ * Checks that the rules themselves make sense. Returns a message describing
+ * the problem, or null if the rules are valid.
+ */
+export function validateScoringRules(rules: ScoringRules): string | null {
+  if (!GAME_TARGETS.includes(rules.target)) {
+    return `Games must be played to ${GAME_TARGETS.join(', ')} points`;
+  }
+  if (rules.winByTwo && (!Number.isInteger(rules.cap) || rules.cap < rules.target)) {
+    return `The cap must be a whole number of at least ${rules.target} points`;
+  }
+  return null;
+}
+
+/**
+ * Checks a final score against the rules. Returns a message describing why
+ * the score is impossible, or null if it is a valid finished game.
+ */
+export function validateScore(
+  team1Score: number,
+  team2Score: number,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): string | null {
+  if (![team1Score, team2Score].every((score) => Number.isInteger(score) && score >= 0)) {
+    return 'Scores must be whole numbers of zero or more';
+  }
+  if (team1Score === team2Score) {
+    return 'A game cannot end in a tie';
+  }
+
+  const { target, winByTwo, cap } = rules;
+  const winner = Math.max(team1Score, team2Score);
+  const loser = Math.min(team1Score, team2Score);
+
+  if (!winByTwo) {
+    return winner === target ? null : `The winning side must score exactly ${target} points`;
+  }
+
+  if (winner < target) {
+    return `The winning side must reach ${target} points`;
+  }
+  if (winner > cap) {
+    return `Games are capped at ${cap} points`;
+  }
+  if (winner === cap) {
+    // The cap ends the game whatever the margin, but only once it's reached
+    // from a deuce; before that the game would already have been won
+    if (winner > target && loser < cap - 2) {
+      return `A game only reaches ${cap} from ${cap - 2}-all or more, so the loser needs at least ${cap - 2}`;
+    }
+    return null;
+  }
+  if (winner === target) {
+    return loser <= target - 2
+      ? null
+      : `From ${target - 1}-all a side must lead by 2, so ${winner}-${loser} is not a final score`;
+  }
+  return loser === winner - 2
+    ? null
+    : `Past ${target} points a game ends as soon as one side leads by 2, so ${winner} must be against ${winner - 2}`;
+}
+
+/**
+ * Points a side finished short of the winning score, taken as at least the
+ * target: 0 for the winner, the margin for the loser. Deuce games count
+ * the actual margin rather than going below zero.
+ */
+export function getPointsLost(
+  ownScore: number,
+  opponentScore: number,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): number {
+  return Math.max(rules.target, ownScore, opponentScore) - ownScore;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SEASON_FILE_TYPE,
+  calculateSeasonStats,
+  createSeason,
+  deleteSeason,
+  exportSeasonJSON,
+  formatSeasonRankingValue,
+  loadSeasons,
+  rankSeasonPlayers,
+  saveSeason,
+  seasonStandingsToCSV,
+} from './season';
+import type { SavedSession } from './history';
+import type { Round } from './scheduler';
+import type { KeyValueStorage } from './storage';
+import type { TournamentState } from './urlState';
+
+const createStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+const night = (names: string[], rounds: Round[], overrides: Partial<TournamentState> = {}): TournamentState => ({
+  stage: 'results',
+  format: '8-player',
+  players: names.map((name, index) => ({ id: `p${index + 1}`, name })),
+  rounds,
+  currentRound: 0,
+  sideBets: [],
+  prizeConfig: { entryFee: 2, split: { type: 'percentage', places: [100] } },
+  ...overrides,
+});
+
+// Week 1: Ann & Ben beat Cat & Dan 21-15
+const week1 = night(['Ann', 'Ben', 'Cat', 'Dan'], [
+  { roundNumber: 1, games: [{ id: 1, team1: ['p1', 'p2'], team2: ['p3', 'p4'], team1Score: 21, team2Score: 15 }] },
+]);
+
+// Week 2: the players are in a different order, and "ann" is typed in lower case
+const week2 = night(['Dan', 'ann', 'Eve', 'Cat'], [
+  { roundNumber: 1, games: [{ id: 1, team1: ['p1', 'p3'], team2: ['p2', 'p4'], team1Score: 21, team2Score: 10 }] },
+]);
+
+describe('calculateSeasonStats', () => {
+  it('should add up stats and attendance across nights, matching players by name', () => {
+    const { players } = calculateSeasonStats([week1, week2]);
+    const ann = players.find(({ name }) => name === 'Ann')!;
+
+    expect(players).toHaveLength(5);
+    expect(ann).toEqual({
+      name: 'Ann',
+      nights: 2,
+      gamesPlayed: 2,
+      wins: 1,
+      losses: 1,
+      pointsScored: 31,
+      pointsLost: 11,
+      netWinnings: 0,
+    });
+    expect(players.find(({ name }) => name === 'Cat')).toMatchObject({ nights: 2, losses: 2, netWinnings: -4 });
+  });
+
+  it('should only count net winnings from finished tournaments', () => {
+    const { players } = calculateSeasonStats([week1, { ...week2, stage: 'playing' }]);
+    expect(players.find(({ name }) => name === 'Ann')).toMatchObject({ gamesPlayed: 2, netWinnings: 2 });
+  });
+
+  it('should skip tournaments that have not started', () => {
+    expect(calculateSeasonStats([{ ...week1, stage: 'input', rounds: [] }]).players).toEqual([]);
+  });
+
+  it('should add up fixed teams from team round-robin nights', () => {
+    const teamNight = { ...week1, format: '12-player' as const };
+    const { teams } = calculateSeasonStats([teamNight, teamNight]);
+    expect(teams[0]).toMatchObject({ name: 'Ann & Ben', nights: 2, wins: 2, pointsScored: 42 });
+    expect(calculateSeasonStats([week1]).teams).toEqual([]);
+  });
+});
+
+describe('season leaderboard', () => {
+  const { players } = calculateSeasonStats([week1, week2]);
+
+  it('should rank by the chosen measure', () => {
+    expect(rankSeasonPlayers(players, 'net-winnings').map(({ name }) => name)).toEqual(['Ben', 'Eve', 'Ann', 'Dan', 'Cat']);
+    expect(rankSeasonPlayers(players, 'average-points-lost').map(({ name }) => name)).toEqual(['Ben', 'Eve', 'Dan', 'Ann', 'Cat']);
+    expect(formatSeasonRankingValue(players.find(({ name }) => name === 'Ann')!, 'win-rate')).toBe('50%');
+  });
+
+  it('should put players without a match last when ranking by averages', () => {
+    const idle = { ...players[0], name: 'Zoe', gamesPlayed: 0, wins: 0, losses: 0, pointsScored: 0, pointsLost: 0 };
+    expect(rankSeasonPlayers([idle, ...players], 'average-points-lost').pop()!.name).toBe('Zoe');
+    expect(formatSeasonRankingValue(idle, 'average-points-lost')).toBe('—');
+  });
+
+  it('should export the leaderboard as CSV', () => {
+    const lines = seasonStandingsToCSV(players, 'net-winnings').split('\r\n');
+    expect(lines[0]).toBe('Rank,Player,Net winnings,Nights,Matches,Wins,Losses,Points Scored,Points Lost,Net Winnings');
+    expect(lines[1]).toBe('1,Ben,$2.00,1,1,1,0,21,0,2.00');
+  });
+});
+
+describe('season storage', () => {
+  it('should save, update and delete seasons', () => {
+    const storage = createStorage();
+    const spring = createSeason('  Spring   League ', 100);
+    expect(spring.name).toBe('Spring League');
+
+    saveSeason(spring, storage);
+    saveSeason({ ...spring, sessionIds: ['a'], ranking: 'wins' }, storage);
+    expect(loadSeasons(storage)).toEqual([{ ...spring, sessionIds: ['a'], ranking: 'wins' }]);
+
+    expect(deleteSeason(spring.id, storage)).toEqual([]);
+    expect(loadSeasons(null)).toEqual([]);
+  });
+
+  it('should export a season with its tournaments', () => {
+    const season = { ...createSeason('Spring', 100), sessionIds: ['a'] };
+    const sessions: SavedSession[] = [
+      { id: 'a', createdAt: 1, updatedAt: 1, state: week1 },
+      { id: 'b', createdAt: 2, updatedAt: 2, state: week2 },
+    ];
+    const file = JSON.parse(exportSeasonJSON(season, sessions, new Date('2025-03-01T00:00:00Z')));
+    expect(file).toMatchObject({ type: SEASON_FILE_TYPE, exportedAt: '2025-03-01T00:00:00.000Z', season });
+    expect(file.sessions.map(({ id }: SavedSession) => id)).toEqual(['a']);
+  });
+});
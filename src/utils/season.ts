@@ -0,0 +1,353 @@
+import {
+  calculate12PlayerPayoutsWithSideBets,
+  calculatePayoutsWithSideBets,
+  calculatePlayerStats,
+  calculateTeamStats,
+  mergeSubstitutes,
+} from './scheduler';
+import { createSessionId, type SavedSession } from './history';
+import { getPlayoffPlacement } from './playoffs';
+import { createNameLookup, formatTeam } from './players';
+import { DEFAULT_ENTRY_FEE } from './prizes';
+import { nameKey, normalizeName } from './roster';
+import { getLocalStorage, type KeyValueStorage } from './storage';
+import { toCSV } from './tournamentExport';
+import { STATE_VERSION, type TournamentState } from './urlState';
+import { getWithdrawalPayoutOptions } from './withdrawals';
+
+export const SEASON_STORAGE_KEY = 'badminton-seasons';
+
+// Marks a JSON file as a season export
+export const SEASON_FILE_TYPE = 'badminton-season';
+
+// How the season leaderboard is ordered. Averages are per match played, so
+// players who miss nights aren't penalised for it.
+export type SeasonRanking =
+  | 'net-winnings'
+  | 'average-points-lost'
+  | 'average-points-scored'
+  | 'win-rate'
+  | 'wins';
+
+export const SEASON_RANKING_LABELS: Record<SeasonRanking, string> = {
+  'net-winnings': 'Net winnings',
+  'average-points-lost': 'Average points lost per match',
+  'average-points-scored': 'Average points scored per match',
+  'win-rate': 'Win rate',
+  wins: 'Total wins',
+};
+
+export interface Season {
+  id: string;
+  name: string;
+  createdAt: number;
+  sessionIds: string[]; // Tournaments in the local history that count towards the season
+  ranking: SeasonRanking;
+}
+
+export interface SeasonPlayerStats {
+  name: string;
+  nights: number; // Tournaments attended
+  gamesPlayed: number; // Matches, as in calculatePlayerStats
+  wins: number;
+  losses: number;
+  pointsScored: number;
+  pointsLost: number;
+  netWinnings: number; // Finished tournaments only
+}
+
+export interface SeasonTeamStats {
+  name: string;
+  nights: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsScored: number;
+  pointsConceded: number;
+}
+
+export interface SeasonExport {
+  type: typeof SEASON_FILE_TYPE;
+  version: number; // Same numbering as URL state
+  exportedAt: string;
+  season: Season;
+  sessions: SavedSession[];
+}
+
+/**
+ * Each player's net amount for a finished tournament, worked out as in the
+ * results: prizes (or playoff placings) less the entry fee, plus side bets
+ */
+function getNetWinnings(state: TournamentState): { [player: string]: number } {
+  const options = {
+    prizeSplit: state.prizeConfig?.split,
+    ranking: state.format === 'dynamic' ? ('most-points-scored' as const) : ('fewest-points-lost' as const),
+    placement: state.playoff ? getPlayoffPlacement(state.playoff) ?? undefined : undefined,
+    tiebreakers: state.tiebreakers,
+    scoringRules: state.scoringRules,
+    ...getWithdrawalPayoutOptions(state.format ?? '8-player', state.rounds, state.withdrawals),
+  };
+  const entryFee = state.prizeConfig?.entryFee ?? DEFAULT_ENTRY_FEE;
+
+  return state.format === '12-player'
+    ? calculate12PlayerPayoutsWithSideBets(state.rounds, entryFee, state.sideBets, options)
+    : calculatePayoutsWithSideBets(state.rounds, entryFee, state.sideBets, options);
+}
+
+/**
+ * Adds up player and team stats across a season's tournaments. Players are
+ * matched between nights by name, ignoring case; teams only come from team
+ * round-robin nights, where partners are fixed. Tournaments still being set
+ * up are skipped, and only finished ones count towards net winnings.
+ */
+export function calculateSeasonStats(states: TournamentState[]): {
+  players: SeasonPlayerStats[];
+  teams: SeasonTeamStats[];
+} {
+  const players = new Map<string, SeasonPlayerStats>();
+  const teams = new Map<string, SeasonTeamStats>();
+
+  states
+    .filter((state) => state.stage !== 'input')
+    .forEach((state) => {
+      const nameOf = createNameLookup(state.players);
+      const getPlayer = (id: string): SeasonPlayerStats => {
+        const key = nameKey(nameOf(id));
+        if (!players.has(key)) {
+          players.set(key, {
+            name: normalizeName(nameOf(id)),
+            nights: 0,
+            gamesPlayed: 0,
+            wins: 0,
+            losses: 0,
+            pointsScored: 0,
+            pointsLost: 0,
+            netWinnings: 0,
+          });
+        }
+        return players.get(key)!;
+      };
+
+      state.players.forEach(({ id }) => getPlayer(id).nights++);
+
+      Object.entries(calculatePlayerStats(state.rounds, state.scoringRules)).forEach(([id, stats]) => {
+        const season = getPlayer(id);
+        season.gamesPlayed += stats.gamesPlayed;
+        season.wins += stats.wins;
+        season.losses += stats.losses;
+        season.pointsScored += stats.totalPoints;
+        season.pointsLost += stats.pointsLost;
+      });
+
+      if (state.stage === 'results') {
+        Object.entries(getNetWinnings(state)).forEach(([id, amount]) => {
+          const season = getPlayer(id);
+          season.netWinnings = Math.round((season.netWinnings + amount) * 100) / 100;
+        });
+      }
+
+      if (state.format === '12-player') {
+        const { substitutes = {} } = getWithdrawalPayoutOptions('12-player', state.rounds, state.withdrawals);
+        calculateTeamStats(mergeSubstitutes(state.rounds, substitutes), state.scoringRules).forEach((team) => {
+          const key = team.players.map((id) => nameKey(nameOf(id))).sort().join(' & ');
+          if (!teams.has(key)) {
+            teams.set(key, {
+              name: formatTeam(team.players, (id) => normalizeName(nameOf(id))),
+              nights: 0,
+              gamesPlayed: 0,
+              wins: 0,
+              losses: 0,
+              pointsScored: 0,
+              pointsConceded: 0,
+            });
+          }
+          const season = teams.get(key)!;
+          season.nights++;
+          season.gamesPlayed += team.gamesPlayed;
+          season.wins += team.wins;
+          season.losses += team.losses;
+          season.pointsScored += team.pointsScored;
+          season.pointsConceded += team.pointsConceded;
+        });
+      }
+    });
+
+  return {
+    players: Array.from(players.values()),
+    teams: Array.from(teams.values()).sort(
+      (a, b) => b.wins - a.wins || b.pointsScored - b.pointsConceded - (a.pointsScored - a.pointsConceded)
+    ),
+  };
+}
+
+/**
+ * A player's score for the given ranking, or null if they haven't played a
+ * match to average over
+ */
+export function getSeasonRankingValue(stats: SeasonPlayerStats, ranking: SeasonRanking): number | null {
+  switch (ranking) {
+    case 'net-winnings':
+      return stats.netWinnings;
+    case 'wins':
+      return stats.wins;
+    default: {
+      if (stats.gamesPlayed === 0) return null;
+      const total = {
+        'average-points-lost': stats.pointsLost,
+        'average-points-scored': stats.pointsScored,
+        'win-rate': stats.wins,
+      }[ranking];
+      return total / stats.gamesPlayed;
+    }
+  }
+}
+
+/**
+ * Orders players for the season leaderboard, best first. Players with
+ * nothing to rank on go last; ties are listed by name.
+ */
+export function rankSeasonPlayers(players: SeasonPlayerStats[], ranking: SeasonRanking): SeasonPlayerStats[] {
+  const lowerIsBetter = ranking === 'average-points-lost';
+  return [...players].sort((a, b) => {
+    const aValue = getSeasonRankingValue(a, ranking);
+    const bValue = getSeasonRankingValue(b, ranking);
+    if (aValue === null || bValue === null) {
+      if (aValue !== bValue) return aValue === null ? 1 : -1;
+    } else if (aValue !== bValue) {
+      return lowerIsBetter ? aValue - bValue : bValue - aValue;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Formats a player's ranking value for display, e.g. "$4.50", "62%" or "8.3"
+ */
+export function formatSeasonRankingValue(stats: SeasonPlayerStats, ranking: SeasonRanking): string {
+  const value = getSeasonRankingValue(stats, ranking);
+  if (value === null) return '—';
+  if (ranking === 'net-winnings') return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  if (ranking === 'win-rate') return `${Math.round(value * 100)}%`;
+  if (ranking === 'wins') return String(value);
+  return value.toFixed(1);
+}
+
+/**
+ * Creates an empty season, ranked by net winnings
+ */
+export function createSeason(name: string, now: number = Date.now()): Season {
+  return {
+    id: createSessionId(),
+    name: normalizeName(name),
+    createdAt: now,
+    sessionIds: [],
+    ranking: 'net-winnings',
+  };
+}
+
+function writeSeasons(seasons: Season[], storage: KeyValueStorage | null): void {
+  if (!storage) return;
+  try {
+    storage.setItem(SEASON_STORAGE_KEY, JSON.stringify(seasons));
+  } catch (error) {
+    console.error('Failed to save seasons:', error);
+  }
+}
+
+/**
+ * Gets every saved season, newest first
+ */
+export function loadSeasons(storage: KeyValueStorage | null = getLocalStorage()): Season[] {
+  if (!storage) return [];
+  try {
+    const seasons = JSON.parse(storage.getItem(SEASON_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(seasons)) return [];
+
+    return seasons
+      .filter((season): season is Season =>
+        season &&
+        typeof season.id === 'string' &&
+        typeof season.name === 'string' &&
+        Array.isArray(season.sessionIds) &&
+        season.ranking in SEASON_RANKING_LABELS
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Failed to load seasons:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves a season, adding it if it is new. Returns the updated list.
+ */
+export function saveSeason(season: Season, storage: KeyValueStorage | null = getLocalStorage()): Season[] {
+  const seasons = loadSeasons(storage);
+  const index = seasons.findIndex(({ id }) => id === season.id);
+  if (index === -1) {
+    seasons.unshift(season);
+  } else {
+    seasons[index] = season;
+  }
+  writeSeasons(seasons, storage);
+  return seasons;
+}
+
+/**
+ * Removes a season. Its tournaments stay in the history. Returns the
+ * updated list.
+ */
+export function deleteSeason(id: string, storage: KeyValueStorage | null = getLocalStorage()): Season[] {
+  const seasons = loadSeasons(storage).filter((season) => season.id !== id);
+  writeSeasons(seasons, storage);
+  return seasons;
+}
+
+/**
+ * The season with every tournament in it, as a JSON file
+ */
+export function exportSeasonJSON(season: Season, sessions: SavedSession[], now: Date = new Date()): string {
+  const file: SeasonExport = {
+    type: SEASON_FILE_TYPE,
+    version: STATE_VERSION,
+    exportedAt: now.toISOString(),
+    season,
+    sessions: sessions.filter(({ id }) => season.sessionIds.includes(id)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * The season leaderboard as CSV, in the season's ranking order
+ */
+export function seasonStandingsToCSV(players: SeasonPlayerStats[], ranking: SeasonRanking): string {
+  const rows: Array<Array<string | number>> = [
+    [
+      'Rank',
+      'Player',
+      SEASON_RANKING_LABELS[ranking],
+      'Nights',
+      'Matches',
+      'Wins',
+      'Losses',
+      'Points Scored',
+      'Points Lost',
+      'Net Winnings',
+    ],
+  ];
+  rankSeasonPlayers(players, ranking).forEach((stats, index) => {
+    rows.push([
+      index + 1,
+      stats.name,
+      formatSeasonRankingValue(stats, ranking),
+      stats.nights,
+      stats.gamesPlayed,
+      stats.wins,
+      stats.losses,
+      stats.pointsScored,
+      stats.pointsLost,
+      stats.netWinnings.toFixed(2),
+    ]);
+  });
+  return toCSV(rows);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSettlement, formatSettlement, type Transfer } from './settlement';
+
+const netAfter = (payouts: { [player: string]: number }, transfers: Transfer[]) => {
+  const balances = { ...payouts };
+  transfers.forEach(({ from, to, amount }) => {
+    balances[from] = Math.round((balances[from] + amount) * 100) / 100;
+    balances[to] = Math.round((balances[to] - amount) * 100) / 100;
+  });
+  return balances;
+};
+
+describe('calculateSettlement', () => {
+  it('should settle every balance to zero', () => {
+    const payouts = { A: 6, B: 4, C: 0, D: -2, E: -2, F: -2, G: -2, H: -2 };
+    const transfers = calculateSettlement(payouts);
+
+    Object.values(netAfter(payouts, transfers)).forEach((balance) => expect(balance).toBe(0));
+    expect(transfers.every(({ amount }) => amount > 0)).toBe(true);
+    expect(transfers).toHaveLength(5);
+  });
+
+  it('should use matching debts to save transfers', () => {
+    // Greedy largest-first would take 4 transfers; pairing exact matches takes 3
+    const payouts = { A: 7, B: 5, C: 3, D: -7, E: -5, F: -3 };
+    const transfers = calculateSettlement(payouts);
+
+    expect(transfers).toHaveLength(3);
+    expect(transfers).toContainEqual({ from: 'D', to: 'A', amount: 7 });
+    expect(transfers).toContainEqual({ from: 'E', to: 'B', amount: 5 });
+    expect(transfers).toContainEqual({ from: 'F', to: 'C', amount: 3 });
+  });
+
+  it('should find zero-sum groups that are not simple pairs', () => {
+    const payouts = { A: 10, B: -6, C: -4, D: 3, E: 2, F: -5 };
+    expect(calculateSettlement(payouts)).toHaveLength(4);
+  });
+
+  it('should work in whole cents', () => {
+    const transfers = calculateSettlement({ A: 0.1 + 0.2, B: -0.3 });
+    expect(transfers).toEqual([{ from: 'B', to: 'A', amount: 0.3 }]);
+  });
+
+  it('should absorb rounding left over from uneven amounts', () => {
+    const transfers = calculateSettlement({ A: 10 / 3, B: 10 / 3, C: 10 / 3, D: -10 });
+    const received = transfers.reduce((sum, { amount }) => sum + Math.round(amount * 100), 0);
+    expect(received).toBe(999);
+    expect(transfers.every(({ from }) => from === 'D')).toBe(true);
+  });
+
+  it('should return no transfers when everyone is square', () => {
+    expect(calculateSettlement({ A: 0, B: 0 })).toEqual([]);
+  });
+});
+
+describe('formatSettlement', () => {
+  it('should list one transfer per line', () => {
+    expect(formatSettlement([
+      { from: 'D', to: 'A', amount: 7 },
+      { from: 'E', to: 'B', amount: 4.5 },
+    ])).toBe('D pays A $7.00\nE pays B $4.50');
+  });
+
+  it('should say when no payments are needed', () => {
+    expect(formatSettlement([])).toBe('Everyone is square - no payments needed.');
+  });
+});
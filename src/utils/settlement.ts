@@ -0,0 +1,137 @@
+import { toCents } from './prizes';
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Above this many players with a balance the exact search gets slow, so
+// fall back to settling largest debts first
+const MAX_EXACT_SETTLEMENT_PLAYERS = 16;
+
+/**
+ * Balances in whole cents that add up to exactly zero. Rounding can leave a
+ * few cents over or under; the difference is taken off the largest balance
+ * on the side that has too much, so no one is asked to pay money that
+ * doesn't exist.
+ */
+function toBalancedCents(payouts: { [player: string]: number }): Array<[string, number]> {
+  const balances = Object.entries(payouts)
+    .map(([player, amount]): [string, number] => [player, toCents(amount)])
+    .filter(([, cents]) => cents !== 0);
+
+  const residual = balances.reduce((sum, [, cents]) => sum + cents, 0);
+  if (residual !== 0 && balances.length > 0) {
+    const sign = Math.sign(residual);
+    const largest = balances.reduce((best, entry) =>
+      entry[1] * sign > best[1] * sign ? entry : best
+    );
+    largest[1] -= residual;
+  }
+
+  return balances.filter(([, cents]) => cents !== 0);
+}
+
+/**
+ * Orders balances so they split into as many zero-sum groups as possible,
+ * returning the groups. Each group of n players settles in n - 1 transfers,
+ * so more groups means fewer transfers overall.
+ */
+function findZeroSumGroups(balances: Array<[string, number]>): Array<Array<[string, number]>> {
+  const count = balances.length;
+  const maskCount = 1 << count;
+  const sums = new Array<number>(maskCount).fill(0);
+  const groups = new Array<number>(maskCount).fill(0);
+
+  for (let mask = 1; mask < maskCount; mask++) {
+    const lowestBit = mask & -mask;
+    sums[mask] = sums[mask ^ lowestBit] + balances[31 - Math.clz32(lowestBit)][1];
+
+    let best = 0;
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set, removing one player at a time; each time
+  // the remaining players sum to zero a group is closed off
+  const result: Array<Array<[string, number]>> = [];
+  let current: Array<[string, number]> = [];
+  let mask = maskCount - 1;
+  while (mask) {
+    const closesGroup = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < count; i++) {
+      const bit = 1 << i;
+      if (mask & bit && groups[mask ^ bit] === groups[mask] - closesGroup) {
+        if (closesGroup && current.length > 0) {
+          result.push(current);
+          current = [];
+        }
+        current.push(balances[i]);
+        mask ^= bit;
+        break;
+      }
+    }
+  }
+  if (current.length > 0) result.push(current);
+
+  return result;
+}
+
+/**
+ * Settles one group of balances, largest debtor to largest creditor
+ */
+function settleGroup(balances: Array<[string, number]>): Transfer[] {
+  const debtors = balances
+    .filter(([, cents]) => cents < 0)
+    .map(([player, cents]): [string, number] => [player, -cents])
+    .sort((a, b) => b[1] - a[1]);
+  const creditors = balances
+    .filter(([, cents]) => cents > 0)
+    .map(([player, cents]): [string, number] => [player, cents])
+    .sort((a, b) => b[1] - a[1]);
+
+  const transfers: Transfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const cents = Math.min(debtors[d][1], creditors[c][1]);
+    transfers.push({ from: debtors[d][0], to: creditors[c][0], amount: cents / 100 });
+    debtors[d][1] -= cents;
+    creditors[c][1] -= cents;
+    if (debtors[d][1] === 0) d++;
+    if (creditors[c][1] === 0) c++;
+  }
+
+  return transfers;
+}
+
+/**
+ * Works out the fewest payer → payee transfers that settle everyone's net
+ * amount (as returned by calculatePayoutsWithSideBets or
+ * calculate12PlayerPayoutsWithSideBets), to the cent
+ */
+export function calculateSettlement(payouts: { [player: string]: number }): Transfer[] {
+  const balances = toBalancedCents(payouts);
+  if (balances.length === 0) return [];
+
+  if (balances.length > MAX_EXACT_SETTLEMENT_PLAYERS) {
+    return settleGroup(balances);
+  }
+
+  return findZeroSumGroups(balances).flatMap(settleGroup);
+}
+
+/**
+ * Settlement plan as plain text, one transfer per line, for sharing
+ */
+export function formatSettlement(transfers: Transfer[]): string {
+  if (transfers.length === 0) {
+    return 'Everyone is square - no payments needed.';
+  }
+  return transfers
+    .map(({ from, to, amount }) => `${from} pays ${to} $${amount.toFixed(2)}`)
+    .join('\n');
+}
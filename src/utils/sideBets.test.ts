@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSideBetTotals, resolveSideBet, validateSideBet, type SideBet } from './sideBets';
+import type { Round } from './scheduler';
+
+describe('calculateSideBetTotals', () => {
+  const rounds: Round[] = [
+    {
+      roundNumber: 1,
+      games: [
+        { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 15 },
+        { id: 2, team1: ['E', 'F'], team2: ['G', 'H'] },
+      ],
+    },
+  ];
+
+  const gameBet = (gameId: number, team1: [string, string], team2: [string, string]): SideBet => ({
+    id: gameId,
+    team1,
+    team2,
+    amount: 5,
+    winner: null,
+    gameId,
+  });
+
+  it('should settle ad-hoc bets with the winner picked by hand', () => {
+    const totals = calculateSideBetTotals([
+      { id: 1, team1: ['A', 'E'], team2: ['B', 'F'], amount: 3, winner: 2 },
+    ]);
+    expect(totals).toEqual({ A: -3, E: -3, B: 3, F: 3 });
+  });
+
+  it('should resolve bets on a game from its score', () => {
+    const bet = gameBet(1, ['A', 'B'], ['C', 'D']);
+    expect(resolveSideBet(bet, rounds)).toBe(1);
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({ A: 5, B: 5, C: -5, D: -5 });
+  });
+
+  it('should leave bets on unscored games unsettled', () => {
+    const bet = gameBet(2, ['E', 'F'], ['G', 'H']);
+    expect(resolveSideBet(bet, rounds)).toBeNull();
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({});
+  });
+
+  it('should re-resolve when the score is edited', () => {
+    const bet = gameBet(1, ['A', 'B'], ['C', 'D']);
+    const edited = rounds.map((round) => ({
+      ...round,
+      games: round.games.map((game) => (game.id === 1 ? { ...game, team1Score: 19, team2Score: 21 } : game)),
+    }));
+    expect(resolveSideBet(bet, edited)).toBe(2);
+  });
+
+  it('should match sides by players, not order', () => {
+    expect(resolveSideBet(gameBet(1, ['C', 'D'], ['B', 'A']), rounds)).toBe(2);
+  });
+
+  it('should push a spread bet when the handicapped score is level', () => {
+    const bet = { ...gameBet(1, ['A', 'B'], ['C', 'D']), type: 'spread' as const, spread: -6 };
+    expect(resolveSideBet(bet, rounds)).toBe('push');
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({});
+  });
+
+  it('should apply the spread to the winning margin', () => {
+    const favourite = { ...gameBet(1, ['A', 'B'], ['C', 'D']), type: 'spread' as const, spread: -4 };
+    const longShot = { ...favourite, spread: -8 };
+    expect(resolveSideBet(favourite, rounds)).toBe(1); // Won by 6, covers -4
+    expect(resolveSideBet(longShot, rounds)).toBe(2); // Didn't cover -8
+    expect(resolveSideBet({ ...longShot, team1: ['C', 'D'], team2: ['A', 'B'], spread: 8 }, rounds)).toBe(1);
+  });
+
+  it('should pay team 1 at the given odds', () => {
+    const bet: SideBet = { ...gameBet(1, ['A', 'B'], ['C', 'D']), type: 'odds', odds: [5, 2], amount: 2 };
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({ A: 5, B: 5, C: -5, D: -5 });
+
+    const team2Wins: SideBet = { ...bet, gameId: undefined, winner: 2 };
+    expect(calculateSideBetTotals([team2Wins])).toEqual({ A: -2, B: -2, C: 2, D: 2 });
+  });
+
+  it('should share a pool between the winning backers by stake', () => {
+    const bet: SideBet = {
+      ...gameBet(1, ['A', 'B'], ['C', 'D']),
+      type: 'pool',
+      amount: 0,
+      stakes: [
+        { player: 'E', side: 1, stake: 10 },
+        { player: 'F', side: 1, stake: 5 },
+        { player: 'G', side: 2, stake: 6 },
+        { player: 'H', side: 2, stake: 4 },
+      ],
+    };
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({ E: 6.67, F: 3.33, G: -6, H: -4 });
+  });
+
+  it('should return every stake when only one side of a pool is backed', () => {
+    const bet: SideBet = {
+      ...gameBet(1, ['A', 'B'], ['C', 'D']),
+      type: 'pool',
+      stakes: [{ player: 'E', side: 2, stake: 10 }],
+    };
+    expect(calculateSideBetTotals([bet], rounds)).toEqual({});
+  });
+});
+
+describe('validateSideBet', () => {
+  const base: SideBet = { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], amount: 5, winner: null };
+
+  it('should accept even-money bets', () => {
+    expect(validateSideBet(base)).toBeNull();
+  });
+
+  it('should check the terms of each bet type', () => {
+    expect(validateSideBet({ ...base, amount: 0 })).toBe('Please enter a valid amount');
+    expect(validateSideBet({ ...base, type: 'spread' })).toMatch(/enter the spread/);
+    expect(validateSideBet({ ...base, type: 'spread', spread: -4 })).toBe(
+      'A point spread bet must be on a scheduled game'
+    );
+    expect(validateSideBet({ ...base, type: 'spread', spread: -4, gameId: 1 })).toBeNull();
+    expect(validateSideBet({ ...base, type: 'odds', odds: [0, 1] })).toMatch(/two positive numbers/);
+    expect(validateSideBet({ ...base, type: 'pool', stakes: [] })).toBe('Add at least one backer to the pool');
+    expect(validateSideBet({ ...base, type: 'pool', stakes: [{ player: 'E', side: 1, stake: 0 }] })).toMatch(
+      /stake above zero/
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { getMatchResult } from './match';
+import type { Round } from './scheduler';
+import { toCents } from './prizes';
+
+// 'even' pays each player on the winning side the stake; 'spread' is even
+// money once a points handicap is applied; 'odds' pays team 1 at fixed
+// odds; 'pool' is pari-mutuel, with the losing stakes shared by the winners
+export type SideBetType = 'even' | 'spread' | 'odds' | 'pool';
+
+export interface PoolStake {
+  player: string;
+  side: 1 | 2;
+  stake: number;
+}
+
+export interface SideBet {
+  id: number;
+  team1: [string, string];
+  team2: [string, string];
+  amount: number; // Stake per player; unused for pools
+  winner: 1 | 2 | null; // 1 for team1, 2 for team2, null if not yet determined
+  gameId?: number; // Bet on a scheduled game; its winner comes from the score instead
+  type?: SideBetType; // Even money when absent
+  spread?: number; // Points added to team 1's score, e.g. -4 for "Team 1 -4"
+  odds?: [number, number]; // Team 1's odds, e.g. [2, 1] pays a team 1 win at 2:1
+  stakes?: PoolStake[]; // Pool backers; the teams are then just the sides
+}
+
+// A spread bet where the handicapped score is level is a push: no one pays
+export type SideBetOutcome = 1 | 2 | 'push' | null;
+
+export const SIDE_BET_TYPE_LABELS: Record<SideBetType, string> = {
+  even: 'Even money',
+  spread: 'Point spread',
+  odds: 'Odds',
+  pool: 'Pool',
+};
+
+/**
+ * Outcome of a side bet. Bets on a scheduled game follow that game's
+ * result, so they re-resolve whenever its score is edited; ad-hoc bets use
+ * the winner picked by hand.
+ */
+export function resolveSideBet(sideBet: SideBet, rounds: Round[]): SideBetOutcome {
+  if (sideBet.gameId === undefined) return sideBet.winner;
+
+  const game = rounds.flatMap((round) => round.games).find(({ id }) => id === sideBet.gameId);
+  const result = game ? getMatchResult(game) : null;
+  if (!game || !result || result.winner === null) return null;
+
+  // The bet's sides are copied from the game, but match by players in case
+  // they were entered the other way round
+  const reversed = !game.team1.every((player) => sideBet.team1.includes(player));
+
+  if (sideBet.type === 'spread') {
+    const margin = result.team1Points - result.team2Points;
+    const handicapped = (reversed ? -margin : margin) + (sideBet.spread ?? 0);
+    if (handicapped === 0) return 'push';
+    return handicapped > 0 ? 1 : 2;
+  }
+
+  const gameWinner = result.winner;
+  return reversed ? (gameWinner === 1 ? 2 : 1) : gameWinner;
+}
+
+/**
+ * Shares the losing side's stakes between the winning backers in
+ * proportion to their stakes, in whole cents (largest remainder first)
+ */
+function settlePool(stakes: PoolStake[], winner: 1 | 2): Array<[string, number]> {
+  const winning = stakes.filter(({ side }) => side === winner);
+  const losing = stakes.filter(({ side }) => side !== winner);
+  const winningCents = winning.reduce((sum, { stake }) => sum + toCents(stake), 0);
+  const losingCents = losing.reduce((sum, { stake }) => sum + toCents(stake), 0);
+
+  // Nobody to pay or nobody to collect: every stake is returned
+  if (winningCents === 0 || losingCents === 0) return [];
+
+  const exactShares = winning.map(({ stake }) => (losingCents * toCents(stake)) / winningCents);
+  const shares = exactShares.map(Math.floor);
+  let leftover = losingCents - shares.reduce((sum, share) => sum + share, 0);
+  exactShares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        shares[index]++;
+        leftover--;
+      }
+    });
+
+  return [
+    ...winning.map(({ player }, index): [string, number] => [player, shares[index]]),
+    ...losing.map(({ player, stake }): [string, number] => [player, -toCents(stake)]),
+  ];
+}
+
+/**
+ * What each player wins (positive) or loses (negative) on one side bet,
+ * in cents, given its outcome
+ */
+function settleSideBet(sideBet: SideBet, outcome: SideBetOutcome): Array<[string, number]> {
+  if (outcome === null || outcome === 'push') return [];
+
+  if (sideBet.type === 'pool') {
+    return settlePool(sideBet.stakes ?? [], outcome);
+  }
+
+  let cents = toCents(sideBet.amount);
+  if (sideBet.type === 'odds' && outcome === 1) {
+    const [odds, stake] = sideBet.odds ?? [1, 1];
+    cents = Math.round((cents * odds) / stake);
+  }
+
+  const [winners, losers] = outcome === 1
+    ? [sideBet.team1, sideBet.team2]
+    : [sideBet.team2, sideBet.team1];
+  return [
+    ...winners.map((player): [string, number] => [player, cents]),
+    ...losers.map((player): [string, number] => [player, -cents]),
+  ];
+}
+
+/**
+ * Calculates side bet gains/losses per player. Pass the rounds so bets on
+ * scheduled games can be resolved from their scores.
+ */
+export function calculateSideBetTotals(
+  sideBets: SideBet[],
+  rounds: Round[] = []
+): { [player: string]: number } {
+  const totalCents: { [player: string]: number } = {};
+
+  sideBets.forEach((sideBet) => {
+    settleSideBet(sideBet, resolveSideBet(sideBet, rounds)).forEach(([player, cents]) => {
+      totalCents[player] = (totalCents[player] || 0) + cents;
+    });
+  });
+
+  const totals: { [player: string]: number } = {};
+  Object.entries(totalCents).forEach(([player, cents]) => {
+    totals[player] = cents / 100;
+  });
+  return totals;
+}
+
+/**
+ * Checks the terms of a new side bet. Returns a message describing the
+ * problem, or null if the bet is valid.
+ */
+export function validateSideBet(sideBet: SideBet): string | null {
+  if (sideBet.type === 'pool') {
+    const stakes = sideBet.stakes ?? [];
+    if (stakes.length === 0) return 'Add at least one backer to the pool';
+    if (stakes.some(({ player, stake }) => !player || !Number.isFinite(stake) || stake <= 0)) {
+      return 'Every backer needs a name and a stake above zero';
+    }
+    return null;
+  }
+
+  if (!Number.isFinite(sideBet.amount) || sideBet.amount <= 0) {
+    return 'Please enter a valid amount';
+  }
+  if (sideBet.type === 'spread' && !Number.isFinite(sideBet.spread)) {
+    return 'Please enter the spread, e.g. -4 if team 1 must win by more than 4';
+  }
+  // Ad-hoc bets are settled by picking the winner, with no score to apply
+  // the spread to
+  if (sideBet.type === 'spread' && sideBet.gameId === undefined) {
+    return 'A point spread bet must be on a scheduled game';
+  }
+  if (sideBet.type === 'odds') {
+    const [odds, stake] = sideBet.odds ?? [NaN, NaN];
+    if (!(odds > 0) || !(stake > 0)) {
+      return 'Odds must be two positive numbers, e.g. 2 : 1';
+    }
+  }
+  return null;
+}
+
+/**
+ * Short description of a bet's terms for the side bets list
+ */
+export function describeSideBetTerms(sideBet: SideBet): string {
+  switch (sideBet.type) {
+    case 'spread': {
+      const spread = sideBet.spread ?? 0;
+      return `Team 1 ${spread > 0 ? '+' : ''}${spread}, $${sideBet.amount.toFixed(2)}`;
+    }
+    case 'odds': {
+      const [odds, stake] = sideBet.odds ?? [1, 1];
+      return `Team 1 at ${odds}:${stake}, $${sideBet.amount.toFixed(2)}`;
+    }
+    case 'pool': {
+      const stakes = sideBet.stakes ?? [];
+      const total = stakes.reduce((sum, { stake }) => sum + stake, 0);
+      return `Pool of $${total.toFixed(2)} from ${stakes.length} backer${stakes.length === 1 ? '' : 's'}`;
+    }
+    default:
+      return `$${sideBet.amount.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { validateTournamentState } from './stateValidation';
+import type { TournamentState } from './urlState';
+
+const validState = (): TournamentState => ({
+  stage: 'playing',
+  format: '8-player',
+  players: ['A', 'B', 'C', 'D', 'E'].map((id) => ({ id, name: `Player ${id}` })),
+  rounds: [
+    {
+      roundNumber: 1,
+      games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 17, court: 1 }],
+      byes: ['E'],
+    },
+    {
+      roundNumber: 2,
+      games: [
+        {
+          id: 2,
+          team1: ['A', 'E'],
+          team2: ['B', 'C'],
+          bestOf: 3,
+          matchGames: [{ team1Score: 21, team2Score: 10 }],
+        },
+      ],
+    },
+  ],
+  currentRound: 1,
+  sideBets: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'], amount: 2, winner: null, gameId: 1 }],
+  playoff: {
+    seeds: [['A', 'B'], ['C', 'D']],
+    games: [{ id: 3, stage: 'final', team1: ['A', 'B'], team2: ['C', 'D'] }],
+  },
+  scoringRules: { target: 21, winByTwo: true, cap: 30 },
+});
+
+// Applies a change to a copy of the valid state, as a hand-edited link would
+type DecodedJson = ReturnType<typeof JSON.parse>;
+const withChange = (change: (state: DecodedJson) => void) => {
+  const state: DecodedJson = JSON.parse(JSON.stringify(validState()));
+  change(state);
+  return state;
+};
+
+describe('validateTournamentState', () => {
+  it('should accept a consistent tournament', () => {
+    expect(validateTournamentState(validState())).toBeNull();
+  });
+
+  it('should reject values that are not tournaments', () => {
+    expect(validateTournamentState(null)).toBe('The tournament data is missing');
+    expect(validateTournamentState([])).toBe('The tournament data is missing');
+    expect(validateTournamentState(withChange((s) => (s.stage = 'paused')))).toBe(
+      'The tournament stage is not recognised'
+    );
+  });
+
+  it('should check the player list once the tournament has started', () => {
+    expect(validateTournamentState(withChange((s) => (s.players[4].name = 'Player A')))).toBe(
+      '"Player A" appears more than once in the player list'
+    );
+    expect(validateTournamentState(withChange((s) => (s.players[4].name = ' ')))).toBe('Every player needs a name');
+  });
+
+  it('should require every player to have a unique id', () => {
+    expect(validateTournamentState(withChange((s) => (s.players[4] = 'E')))).toBe(
+      'The player list must be a list of players with ids and names'
+    );
+    expect(validateTournamentState(withChange((s) => (s.players[4].id = 'A')))).toBe(
+      'Player id "A" is blank or used more than once'
+    );
+  });
+
+  it('should check the shape of every game', () => {
+    expect(validateTournamentState(withChange((s) => delete s.rounds[0].games[0].team2))).toBe(
+      'Round 1, game 1, team 2 must be a pair of players'
+    );
+    expect(validateTournamentState(withChange((s) => (s.rounds[0].games[0].team1Score = '21')))).toBe(
+      'Round 1, game 1 must have two whole-number scores of zero or more'
+    );
+    expect(validateTournamentState(withChange((s) => (s.rounds[1].games[0].matchGames[0].team2Score = -1)))).toBe(
+      'Round 2, game 1, game 1 of the match, must have two whole-number scores of zero or more'
+    );
+    expect(validateTournamentState(withChange((s) => (s.rounds[1].games[0].id = 1)))).toBe(
+      'Round 2, game 1 has the same id as an earlier game'
+    );
+  });
+
+  it('should require every team member and bye to be a listed player', () => {
+    expect(validateTournamentState(withChange((s) => (s.rounds[0].games[0].team2[1] = 'Zed')))).toBe(
+      'Round 1, game 1, team 2 has "Zed", who is not in the player list'
+    );
+    expect(validateTournamentState(withChange((s) => (s.rounds[1].games[0].team2 = ['A', 'C'])))).toBe(
+      'Round 2, game 1 has "A" on both teams'
+    );
+    expect(validateTournamentState(withChange((s) => (s.rounds[0].byes = ['Zed'])))).toBe(
+      'Round 1 has a bye for "Zed", who is not in the player list'
+    );
+    expect(validateTournamentState(withChange((s) => (s.playoff.seeds[1] = ['C', 'Zed'])))).toBe(
+      'Playoff seed 2 has "Zed", who is not in the player list'
+    );
+  });
+
+  it('should keep the current round in range', () => {
+    expect(validateTournamentState(withChange((s) => (s.currentRound = 2)))).toBe(
+      'The current round (2) is outside the 2 scheduled rounds'
+    );
+    expect(validateTournamentState(withChange((s) => (s.currentRound = -1)))).toMatch(/current round/);
+  });
+
+  it('should check side bets', () => {
+    expect(validateTournamentState(withChange((s) => (s.sideBets[0].winner = 3)))).toBe(
+      'Side bet 1 must have a winner of team 1, team 2 or none yet'
+    );
+    expect(validateTournamentState(withChange((s) => (s.sideBets[0].gameId = 99)))).toBe(
+      'Side bet 1 is on game 99, which is not in the schedule'
+    );
+    expect(validateTournamentState(withChange((s) => (s.sideBets[0].amount = 'lots')))).toBe(
+      'Side bet 1 has an invalid amount'
+    );
+  });
+
+  it('should check the settings', () => {
+    expect(validateTournamentState(withChange((s) => (s.scoringRules.target = 25)))).toBe(
+      'Games must be played to 11, 15, 21 points'
+    );
+    expect(validateTournamentState(withChange((s) => (s.matchLength = 5)))).toBe(
+      'Matches must be a single game or best of 3'
+    );
+    expect(validateTournamentState(withChange((s) => (s.drawSeed = -1)))).toBe(
+      'The draw seed must be a whole number from 0 to 4294967295'
+    );
+    expect(validateTournamentState(withChange((s) => (s.balanceOpponents = 'yes')))).toBe(
+      'Balance opponents must be on or off'
+    );
+  });
+
+  it('should check withdrawals', () => {
+    expect(validateTournamentState({ ...validState(), withdrawals: [{ player: 'E', substitute: 'A' }] })).toBeNull();
+    expect(validateTournamentState(withChange((s) => (s.withdrawals = [{ player: 'Z' }])))).toBe(
+      'Withdrawal 1 must name players from the player list'
+    );
+    expect(validateTournamentState(withChange((s) => (s.withdrawals = [{ player: 'E' }, { player: 'E' }])))).toBe(
+      'Withdrawal 2 withdraws a player a second time'
+    );
+  });
+});
@@ -0,0 +1,333 @@
+import type { TournamentState } from './urlState';
+import type { Player } from './players';
+import { SIDE_BET_TYPE_LABELS } from './sideBets';
+import { TIEBREAKER_LABELS } from './tiebreakers';
+import { validateScoringRules, type ScoringRules } from './scoring';
+import { MAX_SEED } from './random';
+
+const STAGES = ['input', 'playing', 'playoffs', 'results'];
+const FORMATS = ['8-player', '12-player', 'dynamic'];
+const PAIRING_MODES = ['americano', 'mexicano'];
+const PLAYOFF_STAGES = ['semifinal', 'final'];
+const PRIZE_SPLIT_TYPES = ['percentage', 'fixed'];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWholeNumber(value: unknown, min = 0): value is number {
+  return Number.isInteger(value) && (value as number) >= min;
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Checks a pair of player ids, each of which must be in the player list (if
+ * one is given)
+ */
+function validateTeam(team: unknown, label: string, playerIds: string[] | null): string | null {
+  if (!Array.isArray(team) || team.length !== 2 || team.some((player) => typeof player !== 'string')) {
+    return `${label} must be a pair of players`;
+  }
+  if (!playerIds) return null;
+  const unknownPlayer = team.find((player) => !playerIds.includes(player));
+  if (unknownPlayer !== undefined) {
+    return `${label} has "${unknownPlayer}", who is not in the player list`;
+  }
+  if (team[0] === team[1]) {
+    return `${label} has "${team[0]}" twice`;
+  }
+  return null;
+}
+
+function validateGameScore(score: unknown, label: string): string | null {
+  if (!isObject(score) || !isWholeNumber(score.team1Score) || !isWholeNumber(score.team2Score)) {
+    return `${label} must have two whole-number scores of zero or more`;
+  }
+  return null;
+}
+
+function validateGame(game: unknown, label: string, playerIds: string[]): string | null {
+  if (!isObject(game)) return `${label} is not a game`;
+  if (!isWholeNumber(game.id, 1)) return `${label} has an invalid id`;
+
+  const teamError =
+    validateTeam(game.team1, `${label}, team 1`, playerIds) ??
+    validateTeam(game.team2, `${label}, team 2`, playerIds);
+  if (teamError) return teamError;
+
+  const team1 = game.team1 as string[];
+  const sharedPlayer = team1.find((player) => (game.team2 as string[]).includes(player));
+  if (sharedPlayer !== undefined) {
+    return `${label} has "${sharedPlayer}" on both teams`;
+  }
+
+  if (game.court !== undefined && !isWholeNumber(game.court, 1)) {
+    return `${label} has an invalid court number`;
+  }
+
+  if (game.bestOf !== undefined) {
+    if (game.bestOf !== 3) return `${label} must be best of 3 if it is not a single game`;
+    if (game.matchGames !== undefined) {
+      if (!Array.isArray(game.matchGames) || game.matchGames.length > 3) {
+        return `${label} must have at most 3 game scores`;
+      }
+      for (let i = 0; i < game.matchGames.length; i++) {
+        const error = validateGameScore(game.matchGames[i], `${label}, game ${i + 1} of the match,`);
+        if (error) return error;
+      }
+    }
+    return null;
+  }
+
+  if (game.team1Score === undefined && game.team2Score === undefined) return null;
+  return validateGameScore(game, label);
+}
+
+function validateSideBetFields(
+  bet: unknown,
+  label: string,
+  playerIds: string[],
+  gameIds: Set<number>
+): string | null {
+  if (!isObject(bet)) return `${label} is not a side bet`;
+  if (typeof bet.id !== 'number') return `${label} has an invalid id`;
+
+  const teamError =
+    validateTeam(bet.team1, `${label}, team 1`, playerIds) ??
+    validateTeam(bet.team2, `${label}, team 2`, playerIds);
+  if (teamError) return teamError;
+
+  if (!isAmount(bet.amount)) return `${label} has an invalid amount`;
+  if (bet.winner !== null && bet.winner !== 1 && bet.winner !== 2) {
+    return `${label} must have a winner of team 1, team 2 or none yet`;
+  }
+  if (bet.gameId !== undefined && !gameIds.has(bet.gameId as number)) {
+    return `${label} is on game ${String(bet.gameId)}, which is not in the schedule`;
+  }
+  if (bet.type !== undefined && !Object.keys(SIDE_BET_TYPE_LABELS).includes(bet.type as string)) {
+    return `${label} has an unknown bet type`;
+  }
+  if (bet.spread !== undefined && !(typeof bet.spread === 'number' && Number.isFinite(bet.spread))) {
+    return `${label} has an invalid spread`;
+  }
+  if (
+    bet.odds !== undefined &&
+    !(Array.isArray(bet.odds) && bet.odds.length === 2 && bet.odds.every((value) => isAmount(value) && value > 0))
+  ) {
+    return `${label} must have odds of two positive numbers`;
+  }
+  if (bet.stakes !== undefined) {
+    if (!Array.isArray(bet.stakes)) return `${label} has an invalid list of backers`;
+    for (let i = 0; i < bet.stakes.length; i++) {
+      const stake: unknown = bet.stakes[i];
+      const stakeLabel = `${label}, backer ${i + 1}`;
+      if (!isObject(stake) || typeof stake.player !== 'string') return `${stakeLabel} has no player`;
+      if (!playerIds.includes(stake.player)) {
+        return `${stakeLabel} is "${stake.player}", who is not in the player list`;
+      }
+      if (stake.side !== 1 && stake.side !== 2) return `${stakeLabel} must back team 1 or team 2`;
+      if (!isAmount(stake.stake)) return `${stakeLabel} has an invalid stake`;
+    }
+  }
+  return null;
+}
+
+function validateSettings(state: Fields, playerIds: string[]): string | null {
+  // Teams picked during setup may still refer to players who are being removed
+  const teamPlayers = state.stage === 'input' ? null : playerIds;
+
+  if (state.customPairing !== undefined && typeof state.customPairing !== 'boolean') {
+    return 'Custom pairing must be on or off';
+  }
+  if (state.customTeams !== undefined) {
+    if (!Array.isArray(state.customTeams)) return 'Custom teams must be a list of pairs';
+    for (let i = 0; i < state.customTeams.length; i++) {
+      const error = validateTeam(state.customTeams[i], `Custom team ${i + 1}`, teamPlayers);
+      if (error) return error;
+    }
+  }
+  if (state.courtCount !== undefined && !isWholeNumber(state.courtCount, 1)) {
+    return 'The number of courts must be a whole number of at least 1';
+  }
+  if (state.pairingMode !== undefined && !PAIRING_MODES.includes(state.pairingMode as string)) {
+    return `Pairing mode must be one of ${PAIRING_MODES.join(', ')}`;
+  }
+  if (state.totalRounds !== undefined && !isWholeNumber(state.totalRounds, 1)) {
+    return 'The number of rounds must be a whole number of at least 1';
+  }
+  if (state.matchLength !== undefined && state.matchLength !== 1 && state.matchLength !== 3) {
+    return 'Matches must be a single game or best of 3';
+  }
+  if (state.drawSeed !== undefined && !(isWholeNumber(state.drawSeed) && state.drawSeed <= MAX_SEED)) {
+    return `The draw seed must be a whole number from 0 to ${MAX_SEED}`;
+  }
+  if (state.balanceOpponents !== undefined && typeof state.balanceOpponents !== 'boolean') {
+    return 'Balance opponents must be on or off';
+  }
+
+  if (state.withdrawals !== undefined) {
+    if (!Array.isArray(state.withdrawals)) return 'Withdrawals must be a list';
+    const withdrawn = new Set<string>();
+    for (let i = 0; i < state.withdrawals.length; i++) {
+      const withdrawal: unknown = state.withdrawals[i];
+      const label = `Withdrawal ${i + 1}`;
+      if (
+        !isObject(withdrawal) ||
+        !playerIds.includes(withdrawal.player as string) ||
+        (withdrawal.substitute !== undefined && !playerIds.includes(withdrawal.substitute as string))
+      ) {
+        return `${label} must name players from the player list`;
+      }
+      if (withdrawn.has(withdrawal.player as string)) return `${label} withdraws a player a second time`;
+      withdrawn.add(withdrawal.player as string);
+    }
+  }
+
+  if (state.prizeConfig !== undefined) {
+    const config = state.prizeConfig;
+    if (!isObject(config) || !isAmount(config.entryFee)) return 'The entry fee must be zero or more';
+    if (
+      !isObject(config.split) ||
+      !PRIZE_SPLIT_TYPES.includes(config.split.type as string) ||
+      !Array.isArray(config.split.places) ||
+      !config.split.places.every(isAmount)
+    ) {
+      return 'The prize split must be a list of percentages or amounts of zero or more';
+    }
+  }
+
+  if (state.tiebreakers !== undefined) {
+    const known = Object.keys(TIEBREAKER_LABELS);
+    if (!Array.isArray(state.tiebreakers) || !state.tiebreakers.every((tiebreaker) => known.includes(tiebreaker))) {
+      return `Tiebreakers must be from ${known.join(', ')}`;
+    }
+  }
+
+  if (state.scoringRules !== undefined) {
+    const rules = state.scoringRules;
+    if (!isObject(rules) || typeof rules.winByTwo !== 'boolean' || typeof rules.cap !== 'number') {
+      return 'Scoring rules are incomplete';
+    }
+    const error = validateScoringRules(rules as unknown as ScoringRules);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a decoded value is a complete, consistent tournament: every
+ * game is well formed, every team member is a listed player id, the current
+ * round exists and side bets point at real games with valid winners.
+ * Returns a message describing the first problem found, or null if the
+ * state is valid.
+ */
+export function validateTournamentState(value: unknown): string | null {
+  if (!isObject(value)) return 'The tournament data is missing';
+  const state = value;
+
+  if (!STAGES.includes(state.stage as string)) return 'The tournament stage is not recognised';
+  if (state.format !== undefined && !FORMATS.includes(state.format as string)) {
+    return 'The tournament format is not recognised';
+  }
+
+  if (
+    !Array.isArray(state.players) ||
+    !state.players.every((player) => isObject(player) && typeof player.id === 'string' && typeof player.name === 'string')
+  ) {
+    return 'The player list must be a list of players with ids and names';
+  }
+  const players = state.players as Player[];
+  const playerIds = players.map(({ id }) => id);
+  const duplicateId = playerIds.find((id, index) => id === '' || playerIds.indexOf(id) !== index);
+  if (duplicateId !== undefined) return `Player id "${duplicateId}" is blank or used more than once`;
+  if (state.stage !== 'input') {
+    const names = players.map(({ name }) => name);
+    if (names.some((name) => name.trim() === '')) return 'Every player needs a name';
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate !== undefined) return `"${duplicate}" appears more than once in the player list`;
+  }
+
+  if (!Array.isArray(state.rounds)) return 'The schedule must be a list of rounds';
+  const gameIds = new Set<number>();
+  const addGameId = (game: Fields, label: string): string | null => {
+    if (gameIds.has(game.id as number)) return `${label} has the same id as an earlier game`;
+    gameIds.add(game.id as number);
+    return null;
+  };
+
+  for (let r = 0; r < state.rounds.length; r++) {
+    const round: unknown = state.rounds[r];
+    const roundLabel = `Round ${r + 1}`;
+    if (!isObject(round) || !isWholeNumber(round.roundNumber, 1) || !Array.isArray(round.games)) {
+      return `${roundLabel} must have a round number and a list of games`;
+    }
+    for (let g = 0; g < round.games.length; g++) {
+      const label = `${roundLabel}, game ${g + 1}`;
+      const error = validateGame(round.games[g], label, playerIds) ?? addGameId(round.games[g], label);
+      if (error) return error;
+    }
+    if (round.byes !== undefined) {
+      if (!Array.isArray(round.byes)) return `${roundLabel} has an invalid list of byes`;
+      const unknownPlayer = round.byes.find((player) => !playerIds.includes(player));
+      if (unknownPlayer !== undefined) {
+        return `${roundLabel} has a bye for "${String(unknownPlayer)}", who is not in the player list`;
+      }
+    }
+  }
+
+  if (
+    !isWholeNumber(state.currentRound) ||
+    (state.rounds.length > 0 && state.currentRound >= state.rounds.length) ||
+    (state.rounds.length === 0 && state.currentRound !== 0)
+  ) {
+    return `The current round (${String(state.currentRound)}) is outside the ${state.rounds.length} scheduled rounds`;
+  }
+
+  if (state.playoff !== undefined && state.playoff !== null) {
+    const playoff = state.playoff;
+    if (!isObject(playoff) || !Array.isArray(playoff.seeds) || !Array.isArray(playoff.games)) {
+      return 'The playoff bracket must have seeds and games';
+    }
+    for (let i = 0; i < playoff.seeds.length; i++) {
+      const error = validateTeam(playoff.seeds[i], `Playoff seed ${i + 1}`, playerIds);
+      if (error) return error;
+    }
+    for (let i = 0; i < playoff.games.length; i++) {
+      const game: unknown = playoff.games[i];
+      const label = `Playoff game ${i + 1}`;
+      const error = validateGame(game, label, playerIds) ?? addGameId(game as Fields, label);
+      if (error) return error;
+      if (!PLAYOFF_STAGES.includes((game as Fields).stage as string)) {
+        return `${label} must be a semifinal or a final`;
+      }
+    }
+    if (playoff.bestOf !== undefined && playoff.bestOf !== 3) {
+      return 'Playoff matches must be a single game or best of 3';
+    }
+  }
+
+  if (!Array.isArray(state.sideBets)) return 'Side bets must be a list';
+  for (let i = 0; i < state.sideBets.length; i++) {
+    const error = validateSideBetFields(state.sideBets[i], `Side bet ${i + 1}`, playerIds, gameIds);
+    if (error) return error;
+  }
+
+  return validateSettings(state, playerIds);
+}
+
+/**
+ * Narrows a decoded value to a tournament state, throwing an error that
+ * describes the first problem if it is not valid
+ */
+export function assertTournamentState(value: unknown): asserts value is TournamentState {
+  const error = validateTournamentState(value);
+  if (error) {
+    throw new Error(error);
+  }
+}
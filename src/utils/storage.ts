@@ -0,0 +1,14 @@
+// The parts of localStorage the app uses, so tests can pass an in-memory store
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * The browser's localStorage, or null where it is unavailable (e.g. some
+ * private browsing modes, or outside a browser)
+ */
+export function getLocalStorage(): KeyValueStorage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { applyPlacement, applyTiebreakers, groupByPlace, removeEntries } from './tiebreakers';
+import type { Round } from './scheduler';
+
+// A, B, C and D each win once, with W, X, Y and Z as filler partners
+const rounds: Round[] = [
+  {
+    roundNumber: 1,
+    games: [
+      { id: 1, team1: ['A', 'W'], team2: ['B', 'X'], team1Score: 21, team2Score: 19 },
+      { id: 2, team1: ['C', 'Y'], team2: ['D', 'Z'], team1Score: 21, team2Score: 10 },
+    ],
+  },
+  {
+    roundNumber: 2,
+    games: [
+      { id: 3, team1: ['B', 'W'], team2: ['C', 'X'], team1Score: 21, team2Score: 5 },
+      { id: 4, team1: ['D', 'Y'], team2: ['A', 'Z'], team1Score: 21, team2Score: 20 },
+    ],
+  },
+];
+
+const players = ['A', 'B', 'C', 'D'];
+const allTied = () => true;
+const single = (player: string) => [player];
+
+describe('applyTiebreakers', () => {
+  it('should keep items that differ on the primary ranking in order', () => {
+    const standings = applyTiebreakers(players, () => false, single, rounds);
+    expect(standings.map(({ item, place, tied }) => [item, place, tied])).toEqual([
+      ['A', 1, false],
+      ['B', 2, false],
+      ['C', 3, false],
+      ['D', 4, false],
+    ]);
+  });
+
+  it('should use head-to-head first, then point differential', () => {
+    // Head-to-head: A beat B, B beat C, C beat D, D beat A, so every player
+    // is on 0 and point differential decides: B +14, C -5, A +1, D -10
+    const standings = applyTiebreakers(players, allTied, single, rounds);
+    expect(standings.map(({ item }) => item)).toEqual(['B', 'A', 'C', 'D']);
+    expect(standings.map(({ decidedBy }) => decidedBy)).toEqual([
+      null,
+      'point-differential',
+      'point-differential',
+      'point-differential',
+    ]);
+  });
+
+  it('should only count head-to-head games within the tied group', () => {
+    const standings = applyTiebreakers(['A', 'D'], allTied, single, rounds);
+    expect(standings.map(({ item }) => item)).toEqual(['D', 'A']);
+    expect(standings[1].decidedBy).toBe('head-to-head');
+  });
+
+  it('should follow a custom tiebreaker order', () => {
+    const standings = applyTiebreakers(players, allTied, single, rounds, ['total-points']);
+    // Total points: A 41, B 40, C 26, D 31
+    expect(standings.map(({ item }) => item)).toEqual(['A', 'B', 'D', 'C']);
+  });
+
+  it('should leave items that no tiebreaker separates sharing a place', () => {
+    const standings = applyTiebreakers(['W', 'A', 'C'], allTied, single, rounds, []);
+    expect(standings.map(({ place, tied }) => [place, tied])).toEqual([
+      [1, true],
+      [1, true],
+      [1, true],
+    ]);
+  });
+});
+
+describe('groupByPlace', () => {
+  it('should group entries that share a place', () => {
+    const standings = applyTiebreakers(['A', 'B', 'C'], (a) => a !== 'A', single, rounds, []);
+    expect(groupByPlace(standings).map((group) => group.map(({ item }) => item))).toEqual([
+      ['A'],
+      ['B', 'C'],
+    ]);
+  });
+});
+
+describe('applyPlacement', () => {
+  it('should put placed entries first and shift the remaining places down', () => {
+    const standings = applyTiebreakers(['A', 'B', 'C', 'D'], (a, b) => a !== 'A' && b !== 'A', single, rounds, []);
+    const placed = applyPlacement(standings, single, [['C']]);
+    expect(placed.map(({ item, place }) => [item, place])).toEqual([
+      ['C', 1],
+      ['A', 2],
+      ['B', 3],
+      ['D', 3],
+    ]);
+  });
+
+  it('should give the players in one place a shared place', () => {
+    const standings = applyTiebreakers(['A', 'B', 'C', 'D'], (a, b) => a !== 'A' && b !== 'A', single, rounds, []);
+    const placed = applyPlacement(standings, single, [['C', 'D']]);
+    expect(placed.map(({ item, place, tied }) => [item, place, tied])).toEqual([
+      ['C', 1, true],
+      ['D', 1, true],
+      ['A', 3, false],
+      ['B', 4, false],
+    ]);
+  });
+
+  it('should return the standings unchanged without a placement', () => {
+    const standings = applyTiebreakers(players, () => false, single, rounds);
+    expect(applyPlacement(standings, single, undefined)).toBe(standings);
+  });
+});
+
+describe('removeEntries', () => {
+  it('should close up the places and ties left by removed entries', () => {
+    const standings = applyTiebreakers(['A', 'B', 'C', 'D'], (a, b) => a !== 'A' && b !== 'A', single, rounds, []);
+    expect(removeEntries(standings, (item) => item === 'A' || item === 'C').map(({ item, place, tied }) => [item, place, tied])).toEqual([
+      ['B', 1, true],
+      ['D', 1, true],
+    ]);
+    expect(removeEntries(standings, (item) => item === 'B' || item === 'C').map(({ item, place, tied }) => [item, place, tied])).toEqual([
+      ['A', 1, false],
+      ['D', 2, false],
+    ]);
+  });
+});
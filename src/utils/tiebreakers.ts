@@ -0,0 +1,242 @@
+import { getMatchResult } from './match';
+import type { Game, Round } from './scheduler';
+
+export type Tiebreaker = 'head-to-head' | 'point-differential' | 'total-points';
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  'head-to-head': 'Head-to-head',
+  'point-differential': 'Point differential',
+  'total-points': 'Total points',
+};
+
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = [
+  'head-to-head',
+  'point-differential',
+  'total-points',
+];
+
+export interface StandingsEntry<T> {
+  item: T;
+  place: number; // 1-based; entries that are still tied share a place
+  tied: boolean;
+  decidedBy: Tiebreaker | null; // Tiebreaker that put this entry below the one above it
+}
+
+/**
+ * Which side of a game a player or team is on: 1, 2, or null if the
+ * players are not all on the same side
+ */
+function sideOf(game: Game, players: string[]): 1 | 2 | null {
+  if (players.every((player) => game.team1.includes(player))) return 1;
+  if (players.every((player) => game.team2.includes(player))) return 2;
+  return null;
+}
+
+/**
+ * Value of a tiebreaker for one entry; higher is better. Head-to-head only
+ * counts games against the other entries in the tied group.
+ */
+function tiebreakerValue(
+  tiebreaker: Tiebreaker,
+  players: string[],
+  groupPlayers: string[][],
+  rounds: Round[]
+): number {
+  let value = 0;
+
+  rounds.forEach((round) => {
+    round.games.forEach((game) => {
+      const result = getMatchResult(game);
+      const side = sideOf(game, players);
+      if (!result || side === null) return;
+
+      // Rally points across every game of the match
+      const ownScore = side === 1 ? result.team1Points : result.team2Points;
+      const otherScore = side === 1 ? result.team2Points : result.team1Points;
+
+      if (tiebreaker === 'total-points') {
+        value += ownScore;
+      } else if (tiebreaker === 'point-differential') {
+        value += ownScore - otherScore;
+      } else {
+        const opposingSide = side === 1 ? 2 : 1;
+        const facedGroupRival = groupPlayers.some(
+          (rival) => rival !== players && sideOf(game, rival) === opposingSide
+        );
+        if (facedGroupRival && result.winner !== null) {
+          value += result.winner === side ? 1 : -1;
+        }
+      }
+    });
+  });
+
+  return value;
+}
+
+interface TiedGroup<T> {
+  items: T[];
+  decidedBy: Tiebreaker | null;
+}
+
+/**
+ * Splits a tied group using the first tiebreaker that separates anyone,
+ * then keeps breaking any smaller ties with the rest of the chain
+ */
+function breakTie<T>(
+  group: T[],
+  getPlayers: (item: T) => string[],
+  rounds: Round[],
+  tiebreakers: Tiebreaker[]
+): TiedGroup<T>[] {
+  if (group.length === 1 || tiebreakers.length === 0) {
+    return [{ items: group, decidedBy: null }];
+  }
+
+  const [tiebreaker, ...rest] = tiebreakers;
+  const groupPlayers = group.map(getPlayers);
+  const valued = group
+    .map((item, index) => ({
+      item,
+      value: tiebreakerValue(tiebreaker, groupPlayers[index], groupPlayers, rounds),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  const subgroups: T[][] = [];
+  valued.forEach(({ item, value }, index) => {
+    if (index > 0 && value === valued[index - 1].value) {
+      subgroups[subgroups.length - 1].push(item);
+    } else {
+      subgroups.push([item]);
+    }
+  });
+
+  if (subgroups.length === 1) {
+    return breakTie(group, getPlayers, rounds, rest);
+  }
+
+  return subgroups.flatMap((subgroup, index) => {
+    const resolved = breakTie(subgroup, getPlayers, rounds, rest);
+    if (index > 0) {
+      resolved[0] = { ...resolved[0], decidedBy: tiebreaker };
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Builds standings from items already sorted by the primary ranking.
+ * Items equal on the primary ranking go through the tiebreaker chain; any
+ * still level at the end share a place.
+ */
+export function applyTiebreakers<T>(
+  sortedItems: T[],
+  isTiedOnPrimary: (a: T, b: T) => boolean,
+  getPlayers: (item: T) => string[],
+  rounds: Round[],
+  tiebreakers: Tiebreaker[] = DEFAULT_TIEBREAKERS
+): StandingsEntry<T>[] {
+  const primaryGroups: T[][] = [];
+  sortedItems.forEach((item, index) => {
+    if (index > 0 && isTiedOnPrimary(primaryGroups[primaryGroups.length - 1][0], item)) {
+      primaryGroups[primaryGroups.length - 1].push(item);
+    } else {
+      primaryGroups.push([item]);
+    }
+  });
+
+  const entries: StandingsEntry<T>[] = [];
+  primaryGroups.forEach((group) => {
+    breakTie(group, getPlayers, rounds, tiebreakers).forEach(({ items, decidedBy }) => {
+      const place = entries.length + 1;
+      items.forEach((item, index) => {
+        entries.push({
+          item,
+          place,
+          tied: items.length > 1,
+          decidedBy: index === 0 ? decidedBy : null,
+        });
+      });
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Groups standings entries that share a place, in standings order
+ */
+export function groupByPlace<T>(entries: StandingsEntry<T>[]): StandingsEntry<T>[][] {
+  const groups: StandingsEntry<T>[][] = [];
+  entries.forEach((entry, index) => {
+    if (index > 0 && entry.place === entries[index - 1].place) {
+      groups[groups.length - 1].push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Moves entries whose players appear in `placement` (e.g. playoff finishing
+ * order) to the top in that order. Each place lists the players who share
+ * it, such as a playoff team, so in individual formats the partners are
+ * placed together and split the prizes for the places they cover. Everyone
+ * else keeps their standings and ties, with places shifted down.
+ */
+export function applyPlacement<T>(
+  entries: StandingsEntry<T>[],
+  getPlayers: (item: T) => string[],
+  placement: string[][] | undefined
+): StandingsEntry<T>[] {
+  if (!placement || placement.length === 0) return entries;
+
+  const position = (entry: StandingsEntry<T>) => {
+    const indices = getPlayers(entry.item)
+      .map((player) => placement.findIndex((players) => players.includes(player)))
+      .filter((index) => index !== -1);
+    return indices.length > 0 ? Math.min(...indices) : -1;
+  };
+
+  const placed: StandingsEntry<T>[] = [];
+  placement.forEach((_, index) => {
+    const group = entries.filter((entry) => position(entry) === index);
+    const place = placed.length + 1;
+    group.forEach((entry) =>
+      placed.push({ ...entry, place, tied: group.length > 1, decidedBy: null })
+    );
+  });
+
+  const rest = groupByPlace(entries.filter((entry) => position(entry) === -1));
+  const restEntries: StandingsEntry<T>[] = [];
+  rest.forEach((group) => {
+    const place = placed.length + restEntries.length + 1;
+    group.forEach((entry) => restEntries.push({ ...entry, place, tied: group.length > 1 }));
+  });
+
+  return [...placed, ...restEntries];
+}
+
+/**
+ * Drops entries from standings (e.g. players who can't win prizes),
+ * closing up the places and ties they leave behind
+ */
+export function removeEntries<T>(
+  entries: StandingsEntry<T>[],
+  shouldRemove: (item: T) => boolean
+): StandingsEntry<T>[] {
+  const result: StandingsEntry<T>[] = [];
+  groupByPlace(entries).forEach((group) => {
+    const kept = group.filter((entry) => !shouldRemove(entry.item));
+    const place = result.length + 1;
+    kept.forEach((entry, index) => {
+      result.push({
+        ...entry,
+        place,
+        tied: kept.length > 1,
+        decidedBy: index === 0 ? group[0].decidedBy : null,
+      });
+    });
+  });
+  return result;
+}
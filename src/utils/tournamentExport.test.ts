@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXPORT_FILE_TYPE,
+  exportTournamentJSON,
+  gamesToCSV,
+  importTournamentJSON,
+  payoutsToCSV,
+  playerStatsToCSV,
+  teamStatsToCSV,
+  toCSV,
+} from './tournamentExport';
+import { STATE_VERSION, type TournamentState } from './urlState';
+import type { Round } from './scheduler';
+import type { PlayoffBracket } from './playoffs';
+import { DEFAULT_SCORING_RULES } from './scoring';
+
+const rounds: Round[] = [
+  {
+    roundNumber: 1,
+    games: [
+      { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 15, court: 1 },
+      {
+        id: 2,
+        team1: ['A', 'C'],
+        team2: ['B', 'D'],
+        bestOf: 3,
+        matchGames: [
+          { team1Score: 21, team2Score: 19 },
+          { team1Score: 18, team2Score: 21 },
+          { team1Score: 21, team2Score: 10 },
+        ],
+      },
+    ],
+  },
+  {
+    roundNumber: 2,
+    games: [{ id: 3, team1: ['A', 'D'], team2: ['B', 'C'] }],
+  },
+];
+
+const players = ['A', 'B', 'C', 'D'].map((id) => ({ id, name: `Player ${id}` }));
+
+const state: TournamentState = {
+  sessionId: 'abc',
+  stage: 'results',
+  format: '8-player',
+  players,
+  rounds,
+  currentRound: 1,
+  sideBets: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'], amount: 1, winner: null, gameId: 1 }],
+};
+
+describe('JSON export', () => {
+  it('should restore an exported tournament', () => {
+    const json = exportTournamentJSON(state, new Date('2025-01-02T03:04:05Z'));
+    expect(JSON.parse(json)).toMatchObject({
+      type: EXPORT_FILE_TYPE,
+      version: STATE_VERSION,
+      exportedAt: '2025-01-02T03:04:05.000Z',
+    });
+    expect(importTournamentJSON(json)).toEqual(state);
+  });
+
+  it('should reject files that are not usable exports', () => {
+    expect(() => importTournamentJSON('{')).toThrow('The file is not valid JSON');
+    expect(() => importTournamentJSON('{"rounds": []}')).toThrow('The file is not a tournament export');
+
+    const newer = JSON.stringify({ type: EXPORT_FILE_TYPE, version: STATE_VERSION + 1, state });
+    expect(() => importTournamentJSON(newer)).toThrow('newer version');
+
+    const broken = JSON.stringify({
+      type: EXPORT_FILE_TYPE,
+      version: STATE_VERSION,
+      state: { ...state, currentRound: 5 },
+    });
+    expect(() => importTournamentJSON(broken)).toThrow('The current round (5) is outside the 2 scheduled rounds');
+  });
+
+  it('should give players ids when importing files from before version 3', () => {
+    const legacy = { ...state, players: undefined, playerNames: ['A', 'B', 'C', 'D'] };
+    const imported = importTournamentJSON(JSON.stringify({ type: EXPORT_FILE_TYPE, version: 2, state: legacy }));
+    expect(imported.players[0]).toEqual({ id: 'p1', name: 'A' });
+    expect(imported.rounds[0].games[0]).toMatchObject({ team1: ['p1', 'p2'], team2: ['p3', 'p4'] });
+  });
+});
+
+describe('CSV export', () => {
+  it('should quote cells that need it', () => {
+    expect(toCSV([['a', 'b,c', 'say "hi"', 3]])).toBe('a,"b,c","say ""hi""",3');
+  });
+
+  it('should list every game with its score and winner', () => {
+    expect(gamesToCSV(rounds, players).split('\r\n')).toEqual([
+      'Round,Game,Court,Team 1,Team 2,Score,Winner',
+      '1,1,1,Player A & Player B,Player C & Player D,21-15,Player A & Player B',
+      '1,2,,Player A & Player C,Player B & Player D,"21-19, 18-21, 21-10",Player A & Player C',
+      '2,3,,Player A & Player D,Player B & Player C,,',
+    ]);
+  });
+
+  it('should include playoff games after the rounds', () => {
+    const playoff: PlayoffBracket = {
+      seeds: [['A', 'B'], ['C', 'D']],
+      games: [{ id: 4, stage: 'final', team1: ['A', 'B'], team2: ['C', 'D'] }],
+    };
+    expect(gamesToCSV(rounds, players, playoff).split('\r\n').pop()).toBe('Final,4,,Player A & Player B,Player C & Player D,,');
+  });
+
+  it('should export player and team standings', () => {
+    const standings = playerStatsToCSV(rounds, players, 'fewest-points-lost', [], DEFAULT_SCORING_RULES).split('\r\n');
+    expect(standings[0]).toBe('Rank,Player,Points Scored,Points Lost,Wins,Losses,Games Won,Games Lost,Tiebreak');
+    expect(standings[1]).toBe('1,Player A,81,3,2,0,3,1,');
+
+    const teams = teamStatsToCSV(rounds, players, [], DEFAULT_SCORING_RULES).split('\r\n');
+    expect(teams[0]).toMatch(/^Rank,Team,Points Lost/);
+    expect(teams[1]).toMatch(/^T-1,Player A & Player C,/);
+    expect(teams).toHaveLength(7);
+  });
+
+  it('should export payouts that balance out', () => {
+    const lines = payoutsToCSV(rounds, players, 2, state.sideBets, '8-player', {}).split('\r\n');
+    expect(lines[0]).toBe('Rank,Player,Team,Prize,Entry Fee,Side Bets,Net Amount');
+    expect(lines[1]).toBe('1,Player A,,4.00,-2.00,1.00,3.00');
+
+    const netTotal = lines.slice(1).reduce((sum, line) => sum + parseFloat(line.split(',')[6]), 0);
+    expect(netTotal).toBeCloseTo(0);
+  });
+
+  it('should list partial entrants unranked with their share of the fee', () => {
+    const lines = payoutsToCSV(rounds, players, 2, [], '8-player', { partialEntries: { D: 0.5 } }).split('\r\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe(',Player D,,0.00,-1.00,0.00,-1.00');
+
+    const netTotal = lines.slice(1).reduce((sum, line) => sum + parseFloat(line.split(',')[6]), 0);
+    expect(netTotal).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  calculate12PlayerPayoutsWithSideBets,
+  calculatePayoutsWithSideBets,
+  calculatePrizePlacings,
+  calculateTeamPrizePlacings,
+  getPlayerStandings,
+  getTeamStandings,
+  type Game,
+  type PayoutOptions,
+  type PlayerRanking,
+  type Round,
+  type TournamentFormat,
+} from './scheduler';
+import { getGameScores, getMatchResult } from './match';
+import type { PlayoffBracket } from './playoffs';
+import { createNameLookup, formatTeam, type Player } from './players';
+import type { ScoringRules } from './scoring';
+import { calculateSideBetTotals, type SideBet } from './sideBets';
+import { TIEBREAKER_LABELS, type StandingsEntry, type Tiebreaker } from './tiebreakers';
+import { STATE_VERSION, migrateState, type TournamentState } from './urlState';
+
+// Marks a JSON file as one of our exports
+export const EXPORT_FILE_TYPE = 'badminton-tournament';
+
+export interface TournamentExport {
+  type: typeof EXPORT_FILE_TYPE;
+  version: number; // Same numbering as URL state
+  exportedAt: string;
+  state: TournamentState;
+}
+
+type CSVCell = string | number;
+
+/**
+ * Whole tournament as a JSON file, restorable with importTournamentJSON
+ */
+export function exportTournamentJSON(state: TournamentState, now: Date = new Date()): string {
+  const file: TournamentExport = {
+    type: EXPORT_FILE_TYPE,
+    version: STATE_VERSION,
+    exportedAt: now.toISOString(),
+    state,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads a tournament exported by exportTournamentJSON, migrating files
+ * from older versions and validating them as for URL state. Throws an
+ * error describing the problem if the file can't be used.
+ */
+export function importTournamentJSON(text: string): TournamentState {
+  let file: Partial<TournamentExport>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!file || file.type !== EXPORT_FILE_TYPE || typeof file.version !== 'number') {
+    throw new Error('The file is not a tournament export');
+  }
+  return migrateState(file.state as TournamentState, file.version);
+}
+
+/**
+ * Formats rows as CSV, quoting any cell that needs it
+ */
+export function toCSV(rows: CSVCell[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const text = String(cell);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
+
+function formatPlace(entry: StandingsEntry<unknown>): string {
+  return `${entry.tied ? 'T-' : ''}${entry.place}`;
+}
+
+function formatTiebreak(entry: StandingsEntry<unknown>): string {
+  if (entry.decidedBy) return TIEBREAKER_LABELS[entry.decidedBy];
+  return entry.tied ? 'Tied' : '';
+}
+
+function gameRow(label: CSVCell, game: Game, nameOf: (id: string) => string): CSVCell[] {
+  const result = getMatchResult(game);
+  const winner = result?.winner ? formatTeam(result.winner === 1 ? game.team1 : game.team2, nameOf) : '';
+  return [
+    label,
+    game.id,
+    game.court ?? '',
+    formatTeam(game.team1, nameOf),
+    formatTeam(game.team2, nameOf),
+    getGameScores(game).map(({ team1Score, team2Score }) => `${team1Score}-${team2Score}`).join(', '),
+    winner,
+  ];
+}
+
+/**
+ * Every game with its score and winner, round by round, then any playoff
+ * games. Best-of-three scores are listed game by game.
+ */
+export function gamesToCSV(rounds: Round[], players: Player[], playoff?: PlayoffBracket | null): string {
+  const nameOf = createNameLookup(players);
+  const rows: CSVCell[][] = [['Round', 'Game', 'Court', 'Team 1', 'Team 2', 'Score', 'Winner']];
+  rounds.forEach((round) => {
+    round.games.forEach((game) => rows.push(gameRow(round.roundNumber, game, nameOf)));
+  });
+  playoff?.games.forEach((game) => {
+    rows.push(gameRow(game.stage === 'final' ? 'Final' : 'Semifinal', game, nameOf));
+  });
+  return toCSV(rows);
+}
+
+/**
+ * Player standings with every stat, as shown in the results
+ */
+export function playerStatsToCSV(
+  rounds: Round[],
+  players: Player[],
+  ranking: PlayerRanking,
+  tiebreakers: Tiebreaker[],
+  scoringRules: ScoringRules
+): string {
+  const rows: CSVCell[][] = [
+    ['Rank', 'Player', 'Points Scored', 'Points Lost', 'Wins', 'Losses', 'Games Won', 'Games Lost', 'Tiebreak'],
+  ];
+  const nameOf = createNameLookup(players);
+  getPlayerStandings(rounds, ranking, tiebreakers, scoringRules).forEach((entry) => {
+    const [player, stats] = entry.item;
+    rows.push([
+      formatPlace(entry),
+      nameOf(player),
+      stats.totalPoints,
+      stats.pointsLost,
+      stats.wins,
+      stats.losses,
+      stats.gamesWon,
+      stats.gamesLost,
+      formatTiebreak(entry),
+    ]);
+  });
+  return toCSV(rows);
+}
+
+/**
+ * Team standings with every stat, as shown in the results
+ */
+export function teamStatsToCSV(
+  rounds: Round[],
+  players: Player[],
+  tiebreakers: Tiebreaker[],
+  scoringRules: ScoringRules
+): string {
+  const rows: CSVCell[][] = [
+    [
+      'Rank',
+      'Team',
+      'Points Lost',
+      'Points Scored',
+      'Points Conceded',
+      'Played',
+      'Wins',
+      'Losses',
+      'Games Won',
+      'Games Lost',
+      'Tiebreak',
+    ],
+  ];
+  const nameOf = createNameLookup(players);
+  getTeamStandings(rounds, tiebreakers, scoringRules).forEach((entry) => {
+    const team = entry.item;
+    rows.push([
+      formatPlace(entry),
+      formatTeam(team.players, nameOf),
+      team.pointsLost,
+      team.pointsScored,
+      team.pointsConceded,
+      team.gamesPlayed,
+      team.wins,
+      team.losses,
+      team.gamesWon,
+      team.gamesLost,
+      formatTiebreak(entry),
+    ]);
+  });
+  return toCSV(rows);
+}
+
+/**
+ * Every player's prize, entry fee, side bets and net amount, in finishing
+ * order. Amounts are plain numbers so spreadsheets can add them up.
+ */
+export function payoutsToCSV(
+  rounds: Round[],
+  players: Player[],
+  entryFee: number,
+  sideBets: SideBet[],
+  format: TournamentFormat,
+  options: PayoutOptions
+): string {
+  const nameOf = createNameLookup(players);
+  const sideBetTotals = calculateSideBetTotals(sideBets, rounds);
+  const rows: CSVCell[][] = [['Rank', 'Player', 'Team', 'Prize', 'Entry Fee', 'Side Bets', 'Net Amount']];
+  const addRow = (place: string, player: string, team: string, prize: number, fee: number, net: number) => {
+    rows.push([
+      place,
+      nameOf(player),
+      team,
+      prize.toFixed(2),
+      (-fee).toFixed(2),
+      (sideBetTotals[player] || 0).toFixed(2),
+      net.toFixed(2),
+    ]);
+  };
+
+  if (format === '12-player') {
+    const payouts = calculate12PlayerPayoutsWithSideBets(rounds, entryFee, sideBets, options);
+    calculateTeamPrizePlacings(rounds, entryFee, options).forEach((entry) => {
+      entry.item.players.forEach((player) => {
+        addRow(formatPlace(entry), player, formatTeam(entry.item.players, nameOf), entry.prize, entryFee, payouts[player]);
+      });
+    });
+    Object.entries(options.substitutes ?? {}).forEach(([player, original]) => {
+      addRow('', player, `Substitute for ${nameOf(original)}`, 0, 0, payouts[player] ?? 0);
+    });
+  } else {
+    const payouts = calculatePayoutsWithSideBets(rounds, entryFee, sideBets, options);
+    calculatePrizePlacings(rounds, entryFee, options).forEach((entry) => {
+      const [player] = entry.item;
+      addRow(formatPlace(entry), player, '', entry.prize, entryFee, payouts[player]);
+    });
+    // Withdrawn players and substitutes aren't placed; they pay their share of the fee
+    Object.keys(options.partialEntries ?? {}).forEach((player) => {
+      const net = payouts[player] ?? 0;
+      addRow('', player, '', 0, (sideBetTotals[player] || 0) - net, net);
+    });
+  }
+
+  return toCSV(rows);
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { UNDO_LIMIT, createUndoHistory, recordChange, redoChange, undoChange } from './undo';
+
+describe('undo history', () => {
+  it('should undo and redo changes in order', () => {
+    let history = createUndoHistory<number>();
+    history = recordChange(history, 1);
+    history = recordChange(history, 2);
+
+    const first = undoChange(history, 3)!;
+    expect(first.state).toBe(2);
+    const second = undoChange(first.history, first.state)!;
+    expect(second.state).toBe(1);
+    expect(undoChange(second.history, second.state)).toBeNull();
+
+    const redone = redoChange(second.history, second.state)!;
+    expect(redone.state).toBe(2);
+    expect(redoChange(redone.history, redone.state)!.state).toBe(3);
+  });
+
+  it('should drop the redo steps after a new change', () => {
+    let history = recordChange(createUndoHistory<string>(), 'a');
+    const undone = undoChange(history, 'b')!;
+    history = recordChange(undone.history, undone.state);
+
+    expect(redoChange(history, 'c')).toBeNull();
+    expect(undoChange(history, 'c')!.state).toBe('a');
+  });
+
+  it('should keep at most the undo limit', () => {
+    let history = createUndoHistory<number>();
+    for (let i = 0; i < UNDO_LIMIT + 10; i++) {
+      history = recordChange(history, i);
+    }
+    expect(history.past).toHaveLength(UNDO_LIMIT);
+    expect(history.past[0]).toBe(10);
+  });
+});
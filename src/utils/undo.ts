@@ -0,0 +1,53 @@
+// Oldest snapshots are dropped beyond this many undo steps
+export const UNDO_LIMIT = 100;
+
+// Snapshots before (`past`, oldest first) and after (`future`, nearest
+// first) the current state
+export interface UndoHistory<T> {
+  past: T[];
+  future: T[];
+}
+
+export function createUndoHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Records the state as it was before a change. Anything that had been
+ * undone can no longer be redone.
+ */
+export function recordChange<T>(history: UndoHistory<T>, current: T): UndoHistory<T> {
+  return { past: [...history.past, current].slice(-UNDO_LIMIT), future: [] };
+}
+
+/**
+ * Steps back one change. Returns the state to restore and the updated
+ * history, or null if there is nothing to undo.
+ */
+export function undoChange<T>(
+  history: UndoHistory<T>,
+  current: T
+): { state: T; history: UndoHistory<T> } | null {
+  if (history.past.length === 0) return null;
+
+  return {
+    state: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+  };
+}
+
+/**
+ * Steps forward one undone change. Returns the state to restore and the
+ * updated history, or null if there is nothing to redo.
+ */
+export function redoChange<T>(
+  history: UndoHistory<T>,
+  current: T
+): { state: T; history: UndoHistory<T> } | null {
+  if (history.future.length === 0) return null;
+
+  return {
+    state: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+  };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { compressToEncodedURIComponent } from 'lz-string';
+import { deserializeState, parseState, serializeState, STATE_VERSION, type TournamentState } from './urlState';
+
+const names = ['Alice', 'Bob', 'Carol', 'Dave', 'Erin', 'Frank', 'Grace', 'Heidi', 'Ivan'];
+
+const fullState: TournamentState = {
+  sessionId: 'abc123',
+  stage: 'playoffs',
+  format: '8-player',
+  players: names.map((name) => ({ id: name.toLowerCase(), name })),
+  rounds: [
+    {
+      roundNumber: 1,
+      games: [
+        { id: 1, team1: ['alice', 'bob'], team2: ['carol', 'dave'], team1Score: 21, team2Score: 15, court: 1 },
+        {
+          id: 2,
+          team1: ['erin', 'frank'],
+          team2: ['grace', 'heidi'],
+          bestOf: 3,
+          matchGames: [
+            { team1Score: 21, team2Score: 19 },
+            { team1Score: 18, team2Score: 21 },
+          ],
+        },
+      ],
+      byes: ['ivan'],
+    },
+    {
+      roundNumber: 2,
+      games: [{ id: 3, team1: ['alice', 'carol'], team2: ['bob', 'ivan'] }],
+    },
+  ],
+  currentRound: 1,
+  sideBets: [
+    { id: 10, team1: ['alice', 'bob'], team2: ['carol', 'dave'], amount: 5, winner: null, gameId: 1 },
+    {
+      id: 11,
+      team1: ['erin', 'frank'],
+      team2: ['grace', 'heidi'],
+      amount: 0,
+      winner: 2,
+      type: 'pool',
+      stakes: [{ player: 'ivan', side: 1, stake: 2.5 }],
+    },
+    { id: 12, team1: ['alice', 'bob'], team2: ['carol', 'dave'], amount: 2, winner: null, type: 'odds', odds: [3, 1] },
+  ],
+  customPairing: false,
+  customTeams: [],
+  courtCount: 2,
+  pairingMode: 'americano',
+  totalRounds: 9,
+  playoff: {
+    seeds: [['alice', 'heidi'], ['bob', 'grace']],
+    games: [{ id: 4, stage: 'final', team1: ['alice', 'heidi'], team2: ['bob', 'grace'], team1Score: 21, team2Score: 9 }],
+  },
+  prizeConfig: { entryFee: 2, split: { type: 'percentage', places: [50, 37.5, 12.5] } },
+  tiebreakers: ['point-differential'],
+  scoringRules: { target: 15, winByTwo: false, cap: 21 },
+  matchLength: 3,
+  withdrawals: [{ player: 'dave' }, { player: 'frank', substitute: 'ivan' }],
+  drawSeed: 123456789,
+  balanceOpponents: true,
+};
+
+// Links as written before versioning: base64 over URI-encoded JSON
+const legacyEncode = (state: unknown) => btoa(encodeURIComponent(JSON.stringify(state)));
+
+describe('URL state', () => {
+  it('should round-trip the full tournament state', () => {
+    const encoded = serializeState(fullState);
+    expect(encoded.startsWith(`${STATE_VERSION}.`)).toBe(true);
+    expect(deserializeState(encoded)).toEqual(fullState);
+  });
+
+  it('should explain why a link with an inconsistent tournament is rejected', () => {
+    const state: TournamentState = {
+      ...fullState,
+      rounds: [{ roundNumber: 1, games: [{ id: 1, team1: ['alice', 'sub'], team2: ['carol', 'dave'] }] }],
+    };
+    expect(() => parseState(serializeState(state))).toThrow(
+      'Round 1, game 1, team 1 has "sub", who is not in the player list'
+    );
+    expect(deserializeState(serializeState(state))).toBeNull();
+  });
+
+  it('should be much shorter than the plain JSON link', () => {
+    expect(serializeState(fullState).length).toBeLessThan(legacyEncode(fullState).length / 2);
+  });
+
+  it('should read links made before versioning', () => {
+    const legacy = {
+      stage: 'playing',
+      format: '8-player',
+      playerNames: ['Alice', 'Bob', 'Carol', 'Dave', 'Erin'],
+      rounds: [
+        {
+          roundNumber: 1,
+          games: [{ id: 1, team1: ['Alice', 'Bob'], team2: ['Carol', 'Dave'], team1Score: 21, team2Score: 15 }],
+          byes: ['Erin'],
+        },
+      ],
+      currentRound: 0,
+      sideBets: [
+        { id: 1, team1: ['Alice', 'Bob'], team2: ['Carol', 'Dave'], amount: 0, winner: 1, type: 'pool', stakes: [{ player: 'Erin', side: 1, stake: 2 }] },
+      ],
+      customTeams: [['Alice', 'Bob']],
+      playoff: { seeds: [['Alice', 'Bob'], ['Carol', 'Dave']], games: [] },
+    };
+
+    expect(deserializeState(legacyEncode(legacy))).toEqual({
+      stage: 'playing',
+      format: '8-player',
+      players: [
+        { id: 'p1', name: 'Alice' },
+        { id: 'p2', name: 'Bob' },
+        { id: 'p3', name: 'Carol' },
+        { id: 'p4', name: 'Dave' },
+        { id: 'p5', name: 'Erin' },
+      ],
+      rounds: [
+        {
+          roundNumber: 1,
+          games: [{ id: 1, team1: ['p1', 'p2'], team2: ['p3', 'p4'], team1Score: 21, team2Score: 15 }],
+          byes: ['p5'],
+        },
+      ],
+      currentRound: 0,
+      sideBets: [
+        { id: 1, team1: ['p1', 'p2'], team2: ['p3', 'p4'], amount: 0, winner: 1, type: 'pool', stakes: [{ player: 'p5', side: 1, stake: 2 }] },
+      ],
+      customTeams: [['p1', 'p2']],
+      playoff: { seeds: [['p1', 'p2'], ['p3', 'p4']], games: [] },
+    });
+  });
+
+  it('should give players ids when reading version 2 links', () => {
+    const packed = {
+      v: 2,
+      st: 'playing',
+      f: '8-player',
+      n: ['Alice', 'Bob', 'Carol', 'Dave'],
+      r: [[1, [[1, 0, 1, 2, 3, 0, 1, 21, 15]]]],
+      c: 0,
+      b: [{ i: 1, p: [0, 1, 2, 3], a: 5, w: null, g: 1 }],
+    };
+    const state = parseState(`2.${compressToEncodedURIComponent(JSON.stringify(packed))}`);
+
+    expect(state.players.map(({ id }) => id)).toEqual(['p1', 'p2', 'p3', 'p4']);
+    expect(state.rounds[0].games[0]).toEqual({ id: 1, team1: ['p1', 'p2'], team2: ['p3', 'p4'], team1Score: 21, team2Score: 15 });
+    expect(state.sideBets[0]).toMatchObject({ team1: ['p1', 'p2'], team2: ['p3', 'p4'], gameId: 1 });
+  });
+
+  it('should treat the oldest links as 8-player tournaments', () => {
+    const oldest = {
+      stage: 'playing',
+      playerNames: names.slice(0, 8),
+      rounds: [],
+      currentRound: 0,
+      sideBets: [],
+    };
+    expect(deserializeState(legacyEncode(oldest))).toEqual({
+      stage: 'playing',
+      format: '8-player',
+      players: names.slice(0, 8).map((name, index) => ({ id: `p${index + 1}`, name })),
+      rounds: [],
+      currentRound: 0,
+      sideBets: [],
+    });
+  });
+
+  it('should reject corrupted links and links from newer versions', () => {
+    expect(() => parseState('not a link')).toThrow('The link is incomplete or corrupted');
+    expect(() => parseState(`${STATE_VERSION + 1}.abc`)).toThrow('newer version');
+    expect(deserializeState('not a link')).toBeNull();
+    expect(deserializeState(`${STATE_VERSION}.garbage`)).toBeNull();
+    expect(deserializeState(`${STATE_VERSION + 1}.${serializeState(fullState).split('.')[1]}`)).toBeNull();
+  });
+});
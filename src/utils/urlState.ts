@@ -1,24 +1,312 @@
-import type { Round, SideBet, TournamentFormat } from './scheduler';
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import type { Game, Round, TournamentFormat } from './scheduler';
+import type { SideBet, SideBetType } from './sideBets';
+import type { DynamicPairingMode } from './dynamicPairing';
+import type { PlayoffBracket, PlayoffStage } from './playoffs';
+import type { MatchLength } from './match';
+import type { PrizeConfig } from './prizes';
+import type { ScoringRules } from './scoring';
+import { assertTournamentState } from './stateValidation';
+import { createPlayers, type Player } from './players';
+import type { Withdrawal } from './withdrawals';
+import type { Tiebreaker } from './tiebreakers';
 
 export interface TournamentState {
-  stage: 'input' | 'playing' | 'results';
+  sessionId?: string; // Entry in the local tournament history
+  stage: 'input' | 'playing' | 'playoffs' | 'results';
   format?: TournamentFormat;
-  playerNames: string[];
+  players: Player[];
   rounds: Round[];
   currentRound: number;
   sideBets: SideBet[];
   customPairing?: boolean;
   customTeams?: Array<[string, string]>;
+  courtCount?: number;
+  pairingMode?: DynamicPairingMode;
+  totalRounds?: number;
+  playoff?: PlayoffBracket | null;
+  prizeConfig?: PrizeConfig;
+  tiebreakers?: Tiebreaker[];
+  scoringRules?: ScoringRules;
+  matchLength?: MatchLength;
+  withdrawals?: Withdrawal[];
+  drawSeed?: number; // Seed the schedule was drawn from (see createRandom)
+  balanceOpponents?: boolean; // Drawn by the opponent-balancing search rather than the usual generator
+}
+
+// Bump when the link format changes, and add a migration from the old version
+export const STATE_VERSION = 3;
+
+// State as saved by any version. Before version 3 players were identified
+// by name, with the names in `playerNames` rather than `players`.
+type StoredState = Omit<TournamentState, 'players'> & { players?: Player[]; playerNames?: string[] };
+
+// Players are stored as their index in `players` where possible
+type PackedPlayer = number | string;
+
+// [id, team 1 player 1, team 1 player 2, team 2 player 1, team 2 player 2,
+//  court (0 for none), best of (1 or 3), ...scores]. Scores are the two
+// sides' points for each game played, in order.
+type PackedGame = [number, PackedPlayer, PackedPlayer, PackedPlayer, PackedPlayer, number, 1 | 3, ...number[]];
+
+type PackedRound = [number, PackedGame[], PackedPlayer[]?];
+
+interface PackedSideBet {
+  i: number;
+  p: PackedPlayer[]; // Team 1 then team 2
+  a: number;
+  w: 1 | 2 | null;
+  g?: number;
+  t?: SideBetType;
+  s?: number;
+  o?: [number, number];
+  k?: Array<[PackedPlayer, 1 | 2, number]>;
+}
+
+interface PackedState {
+  v: number;
+  id?: string;
+  st: TournamentState['stage'];
+  f?: TournamentFormat;
+  n: string[];
+  i?: string[]; // Player ids, in the same order as the names (from version 3)
+  r: PackedRound[];
+  c: number;
+  b: PackedSideBet[];
+  cp?: boolean;
+  ct?: PackedPlayer[][];
+  cc?: number;
+  pm?: DynamicPairingMode;
+  tr?: number;
+  po?: { s: PackedPlayer[][]; g: Array<[PlayoffStage, ...PackedGame]>; b?: 3 } | null;
+  pz?: PrizeConfig;
+  tb?: Tiebreaker[];
+  sr?: ScoringRules;
+  ml?: MatchLength;
+  wd?: Array<[PackedPlayer, PackedPlayer?]>; // Withdrawn player, then any substitute
+  ds?: number;
+  bo?: boolean;
+}
+
+function packGame(game: Game, pack: (player: string) => PackedPlayer): PackedGame {
+  const scores = game.bestOf === 3
+    ? (game.matchGames ?? []).flatMap(({ team1Score, team2Score }) => [team1Score, team2Score])
+    : game.team1Score !== undefined && game.team2Score !== undefined
+      ? [game.team1Score, game.team2Score]
+      : [];
+  return [
+    game.id,
+    ...(game.team1.map(pack) as [PackedPlayer, PackedPlayer]),
+    ...(game.team2.map(pack) as [PackedPlayer, PackedPlayer]),
+    game.court ?? 0,
+    game.bestOf ?? 1,
+    ...scores,
+  ];
+}
+
+function unpackGame(packed: PackedGame, unpack: (player: PackedPlayer) => string): Game {
+  const [id, a, b, c, d, court, bestOf, ...scores] = packed;
+  const game: Game = { id, team1: [unpack(a), unpack(b)], team2: [unpack(c), unpack(d)] };
+  if (court) game.court = court;
+
+  if (bestOf === 3) {
+    game.bestOf = 3;
+    game.matchGames = [];
+    for (let i = 0; i + 1 < scores.length; i += 2) {
+      game.matchGames.push({ team1Score: scores[i], team2Score: scores[i + 1] });
+    }
+  } else if (scores.length >= 2) {
+    game.team1Score = scores[0];
+    game.team2Score = scores[1];
+  }
+  return game;
+}
+
+/**
+ * Shrinks state for a link: players become indices into `players`, games
+ * become flat arrays and keys are shortened
+ */
+function packState(state: TournamentState): PackedState {
+  const ids = state.players.map(({ id }) => id);
+  const pack = (player: string): PackedPlayer => {
+    const index = ids.indexOf(player);
+    return index === -1 ? player : index;
+  };
+
+  return {
+    v: STATE_VERSION,
+    id: state.sessionId,
+    st: state.stage,
+    f: state.format,
+    n: state.players.map(({ name }) => name),
+    i: ids,
+    r: state.rounds.map((round): PackedRound => {
+      const games = round.games.map((game) => packGame(game, pack));
+      return round.byes ? [round.roundNumber, games, round.byes.map(pack)] : [round.roundNumber, games];
+    }),
+    c: state.currentRound,
+    b: state.sideBets.map((bet) => ({
+      i: bet.id,
+      p: [...bet.team1, ...bet.team2].map(pack),
+      a: bet.amount,
+      w: bet.winner,
+      g: bet.gameId,
+      t: bet.type,
+      s: bet.spread,
+      o: bet.odds,
+      k: bet.stakes?.map(({ player, side, stake }): [PackedPlayer, 1 | 2, number] => [pack(player), side, stake]),
+    })),
+    cp: state.customPairing,
+    ct: state.customTeams?.map((team) => team.map(pack)),
+    cc: state.courtCount,
+    pm: state.pairingMode,
+    tr: state.totalRounds,
+    po: state.playoff && {
+      s: state.playoff.seeds.map((team) => team.map(pack)),
+      g: state.playoff.games.map((game): [PlayoffStage, ...PackedGame] => [game.stage, ...packGame(game, pack)]),
+      b: state.playoff.bestOf,
+    },
+    pz: state.prizeConfig,
+    tb: state.tiebreakers,
+    sr: state.scoringRules,
+    ml: state.matchLength,
+    wd: state.withdrawals?.map(({ player, substitute }): [PackedPlayer, PackedPlayer?] =>
+      substitute === undefined ? [pack(player)] : [pack(player), pack(substitute)]
+    ),
+    ds: state.drawSeed,
+    bo: state.balanceOpponents,
+  };
+}
+
+/**
+ * Expands a packed link. Version 2 links have no player ids, so their
+ * players are left as names for the migration to convert.
+ */
+function unpackState(packed: PackedState): StoredState {
+  const unpack = (player: PackedPlayer): string =>
+    typeof player === 'number' ? (packed.i ?? packed.n)[player] : player;
+  const unpackTeam = (team: PackedPlayer[]): [string, string] => [unpack(team[0]), unpack(team[1])];
+
+  return {
+    sessionId: packed.id,
+    stage: packed.st,
+    format: packed.f,
+    ...(packed.i
+      ? { players: packed.n.map((name, index) => ({ id: packed.i![index], name })) }
+      : { playerNames: packed.n }),
+    rounds: packed.r.map(([roundNumber, games, byes]) => {
+      const round: Round = { roundNumber, games: games.map((game) => unpackGame(game, unpack)) };
+      if (byes) round.byes = byes.map(unpack);
+      return round;
+    }),
+    currentRound: packed.c,
+    sideBets: packed.b.map((bet) => {
+      const sideBet: SideBet = {
+        id: bet.i,
+        team1: unpackTeam(bet.p.slice(0, 2)),
+        team2: unpackTeam(bet.p.slice(2, 4)),
+        amount: bet.a,
+        winner: bet.w,
+      };
+      if (bet.g !== undefined) sideBet.gameId = bet.g;
+      if (bet.t !== undefined) sideBet.type = bet.t;
+      if (bet.s !== undefined) sideBet.spread = bet.s;
+      if (bet.o !== undefined) sideBet.odds = bet.o;
+      if (bet.k !== undefined) {
+        sideBet.stakes = bet.k.map(([player, side, stake]) => ({ player: unpack(player), side, stake }));
+      }
+      return sideBet;
+    }),
+    customPairing: packed.cp,
+    customTeams: packed.ct?.map(unpackTeam),
+    courtCount: packed.cc,
+    pairingMode: packed.pm,
+    totalRounds: packed.tr,
+    playoff: packed.po && {
+      seeds: packed.po.s.map(unpackTeam),
+      games: packed.po.g.map(([stage, ...game]) => ({ ...unpackGame(game, unpack), stage })),
+      ...(packed.po.b ? { bestOf: packed.po.b } : {}),
+    },
+    prizeConfig: packed.pz,
+    tiebreakers: packed.tb,
+    scoringRules: packed.sr,
+    matchLength: packed.ml,
+    withdrawals: packed.wd?.map(([player, substitute]) =>
+      substitute === undefined
+        ? { player: unpack(player) }
+        : { player: unpack(player), substitute: unpack(substitute) }
+    ),
+    drawSeed: packed.ds,
+    balanceOpponents: packed.bo,
+  };
+}
+
+/**
+ * Rewrites every reference to a player: teams, byes, backers, custom teams
+ * and playoff seeds
+ */
+function mapPlayerRefs(state: StoredState, map: (player: string) => string): StoredState {
+  const mapTeam = (team: [string, string]): [string, string] => [map(team[0]), map(team[1])];
+  const mapGame = <G extends Pick<Game, 'team1' | 'team2'>>(game: G): G => ({
+    ...game,
+    team1: mapTeam(game.team1),
+    team2: mapTeam(game.team2),
+  });
+
+  return {
+    ...state,
+    rounds: state.rounds.map((round) => ({
+      ...round,
+      games: round.games.map(mapGame),
+      ...(round.byes ? { byes: round.byes.map(map) } : {}),
+    })),
+    sideBets: state.sideBets.map((bet) => ({
+      ...mapGame(bet),
+      ...(bet.stakes ? { stakes: bet.stakes.map((stake) => ({ ...stake, player: map(stake.player) })) } : {}),
+    })),
+    ...(state.customTeams ? { customTeams: state.customTeams.map(mapTeam) } : {}),
+    ...(state.playoff
+      ? { playoff: { ...state.playoff, seeds: state.playoff.seeds.map(mapTeam), games: state.playoff.games.map(mapGame) } }
+      : {}),
+  };
+}
+
+// MIGRATIONS[n] upgrades state saved by version n to version n + 1
+const MIGRATIONS: Record<number, (state: StoredState) => StoredState> = {
+  // Version 1 links are plain JSON; the earliest ones predate `format`,
+  // when every tournament was 8-player
+  1: (state) => ({ ...state, format: state.format ?? '8-player' }),
+  // Version 3 gives each player an id, so names can change without
+  // breaking games, stats or bets
+  2: ({ playerNames = [], ...state }) => {
+    const players = createPlayers(playerNames);
+    const ids = new Map(players.map(({ id, name }) => [name, id]));
+    return { ...mapPlayerRefs(state, (name) => ids.get(name) ?? name), players };
+  },
+};
+
+/**
+ * Reads the state stored in a link of the given version, before migration
+ */
+function decodePayload(version: number, payload: string): StoredState {
+  try {
+    if (version === 1) {
+      return JSON.parse(decodeURIComponent(atob(payload)));
+    }
+    return unpackState(JSON.parse(decompressFromEncodedURIComponent(payload)));
+  } catch {
+    throw new Error('The link is incomplete or corrupted');
+  }
 }
 
 /**
- * Serializes tournament state to URL-safe string
+ * Serializes tournament state to a compact, URL-safe string, prefixed with
+ * the link format version (e.g. "3.…")
  */
 export function serializeState(state: TournamentState): string {
   try {
-    const json = JSON.stringify(state);
-    // Use base64 encoding to make it URL-safe
-    return btoa(encodeURIComponent(json));
+    const json = JSON.stringify(packState(state));
+    return `${STATE_VERSION}.${compressToEncodedURIComponent(json)}`;
   } catch (error) {
     console.error('Failed to serialize state:', error);
     return '';
@@ -26,26 +314,50 @@ export function serializeState(state: TournamentState): string {
 }
 
 /**
- * Deserializes tournament state from URL string
+ * Decodes tournament state from a URL string, migrating links made by
+ * older versions (version 1 links are unprefixed base64 JSON). Throws an
+ * error describing the problem if the link is unreadable or the tournament
+ * in it is inconsistent.
  */
-export function deserializeState(encoded: string): TournamentState | null {
+export function parseState(encoded: string): TournamentState {
+  const match = /^(\d+)\.(.*)$/s.exec(encoded);
+  const version = match ? parseInt(match[1]) : 1;
+  if (version > STATE_VERSION) {
+    throw new Error('The link was made by a newer version of the app');
+  }
+
+  return migrateState(decodePayload(version, match ? match[2] : encoded), version);
+}
+
+/**
+ * Brings state saved by an older version of the app up to date, then
+ * checks it. Throws an error describing the first problem if the
+ * tournament is inconsistent.
+ */
+export function migrateState(state: StoredState, version: number): TournamentState {
+  if (version > STATE_VERSION) {
+    throw new Error('The tournament was saved by a newer version of the app');
+  }
+
+  let migrated: unknown = state;
   try {
-    const json = decodeURIComponent(atob(encoded));
-    const state = JSON.parse(json);
-
-    // Validate the state structure
-    if (
-      state &&
-      typeof state.stage === 'string' &&
-      Array.isArray(state.playerNames) &&
-      Array.isArray(state.rounds) &&
-      typeof state.currentRound === 'number' &&
-      Array.isArray(state.sideBets)
-    ) {
-      return state as TournamentState;
+    for (let from = version; from < STATE_VERSION; from++) {
+      migrated = MIGRATIONS[from](migrated as StoredState);
     }
+  } catch {
+    throw new Error('The tournament data is incomplete or corrupted');
+  }
 
-    return null;
+  assertTournamentState(migrated);
+  return migrated;
+}
+
+/**
+ * Deserializes tournament state from URL string, or null if it can't be used
+ */
+export function deserializeState(encoded: string): TournamentState | null {
+  try {
+    return parseState(encoded);
   } catch (error) {
     console.error('Failed to deserialize state:', error);
     return null;
@@ -65,14 +377,15 @@ export function updateURL(state: TournamentState): void {
 }
 
 /**
- * Gets tournament state from URL
+ * Gets tournament state from URL, or null if there is none. Throws an error
+ * describing the problem if the link's state can't be used.
  */
 export function getStateFromURL(): TournamentState | null {
   const url = new URL(window.location.href);
   const encoded = url.searchParams.get('state');
 
   if (encoded) {
-    return deserializeState(encoded);
+    return parseState(encoded);
   }
 
   return null;
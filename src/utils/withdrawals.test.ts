@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { generateRoundRobinSchedule, type Round } from './scheduler';
+import type { SideBet } from './sideBets';
+import { createRandom } from './random';
+import {
+  getActivePlayers,
+  getEntryShares,
+  getWithdrawalPayoutOptions,
+  substitutePlayer,
+  withdrawPlayer,
+  type WithdrawalSettings,
+} from './withdrawals';
+
+const players = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'];
+
+const settings = (overrides: Partial<WithdrawalSettings> = {}): WithdrawalSettings => ({
+  format: '8-player',
+  players,
+  pairingMode: 'americano',
+  matchLength: 1,
+  courtCount: 2,
+  totalRounds: 5,
+  ...overrides,
+});
+
+const scoreRound = (round: Round): Round => ({
+  ...round,
+  games: round.games.map((game) => ({ ...game, team1Score: 21, team2Score: 15 })),
+});
+
+const gamePlayers = (rounds: Round[]) =>
+  rounds.flatMap((round) => round.games.flatMap((game) => [...game.team1, ...game.team2]));
+
+describe('substitutePlayer', () => {
+  const rounds: Round[] = [
+    { roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 9 }], byes: ['E'] },
+    { roundNumber: 2, games: [{ id: 2, team1: ['A', 'C'], team2: ['B', 'E'] }], byes: ['D'] },
+    { roundNumber: 3, games: [{ id: 3, team1: ['B', 'D'], team2: ['C', 'E'] }], byes: ['A'] },
+  ];
+  const sideBets: SideBet[] = [
+    { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], amount: 1, winner: null, gameId: 1 },
+    { id: 2, team1: ['A', 'C'], team2: ['B', 'E'], amount: 1, winner: null, gameId: 2 },
+    {
+      id: 3,
+      team1: ['A', 'C'],
+      team2: ['B', 'E'],
+      amount: 0,
+      winner: null,
+      gameId: 2,
+      type: 'pool',
+      stakes: [{ player: 'A', side: 1, stake: 2 }],
+    },
+  ];
+
+  it('should put the substitute into every game and bye still to come', () => {
+    const change = substitutePlayer(rounds, sideBets, 'A', 'S');
+    expect(change.rounds[0]).toEqual(rounds[0]);
+    expect(change.rounds[1].games[0].team1).toEqual(['S', 'C']);
+    expect(change.rounds[2].byes).toEqual(['S']);
+  });
+
+  it('should move pool bets to the new line-up and cancel bets between the players', () => {
+    const change = substitutePlayer(rounds, sideBets, 'A', 'S');
+    expect(change.cancelledBets).toBe(1);
+    expect(change.sideBets.map(({ id }) => id)).toEqual([1, 3]);
+    expect(change.sideBets[1].team1).toEqual(['S', 'C']);
+    expect(change.sideBets[1].stakes).toEqual([{ player: 'A', side: 1, stake: 2 }]);
+  });
+});
+
+describe('withdrawPlayer', () => {
+  it('should keep scored rounds and redraw the rest without the player', () => {
+    const schedule = generateRoundRobinSchedule(players);
+    const rounds = [scoreRound(schedule[0]), scoreRound(schedule[1]), ...schedule.slice(2)];
+    const change = withdrawPlayer(rounds, [], 'I', settings());
+
+    expect(change.rounds.slice(0, 2)).toEqual(rounds.slice(0, 2));
+    expect(gamePlayers(change.rounds.slice(2))).not.toContain('I');
+    expect(gamePlayers(change.rounds)).toHaveLength(gamePlayers(rounds).length);
+    expect(change.rounds.map(({ roundNumber }) => roundNumber)).toEqual(change.rounds.map((_, index) => index + 1));
+
+    const ids = change.rounds.flatMap((round) => round.games.map(({ id }) => id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should redraw the same games from the same seeded generator', () => {
+    const rounds = generateRoundRobinSchedule(players, undefined, createRandom(1));
+    const redraw = () => withdrawPlayer(rounds, [], 'I', settings({ random: createRandom(2) })).rounds;
+    expect(redraw()).toEqual(redraw());
+  });
+
+  it('should drop the player\'s unplayed games in a round under way and cancel their side bets', () => {
+    const rounds: Round[] = [
+      {
+        roundNumber: 1,
+        games: [
+          { id: 1, team1: ['A', 'B'], team2: ['C', 'D'], team1Score: 21, team2Score: 19 },
+          { id: 2, team1: ['E', 'F'], team2: ['G', 'H'] },
+        ],
+        byes: ['I'],
+      },
+    ];
+    const sideBets: SideBet[] = [{ id: 1, team1: ['E', 'F'], team2: ['G', 'H'], amount: 1, winner: null, gameId: 2 }];
+    const change = withdrawPlayer(rounds, sideBets, 'E', settings());
+
+    expect(change.rounds).toEqual([{ ...rounds[0], games: [rounds[0].games[0]], byes: ['I', 'F', 'G', 'H'] }]);
+    expect(change.sideBets).toEqual([]);
+    expect(change.cancelledBets).toBe(1);
+  });
+
+  it('should draw the next Americano round for the remaining players', () => {
+    const eight = players.slice(0, 8);
+    const rounds: Round[] = [
+      scoreRound({
+        roundNumber: 1,
+        games: [
+          { id: 1, team1: ['A', 'B'], team2: ['C', 'D'] },
+          { id: 2, team1: ['E', 'F'], team2: ['G', 'H'] },
+        ],
+      }),
+    ];
+    const change = withdrawPlayer(rounds, [], 'H', settings({ format: 'dynamic', players: eight }));
+
+    // 7 players fill one court, so each later round is a single game
+    expect(change.totalRounds).toBe(6);
+    expect(change.rounds).toHaveLength(2);
+    expect(change.rounds[1].games).toHaveLength(1);
+    expect(change.rounds[1].byes).toHaveLength(3);
+    expect(gamePlayers(change.rounds.slice(1))).not.toContain('H');
+  });
+
+  it('should refuse the team format and too few players', () => {
+    expect(() => withdrawPlayer([], [], 'A', settings({ format: '12-player' }))).toThrow(
+      'Partners are fixed in the team format, so bring in a substitute instead'
+    );
+    expect(() => withdrawPlayer([], [], 'A', settings({ players: ['A', 'B', 'C', 'D'] }))).toThrow(
+      'At least 4 players are needed to carry on'
+    );
+  });
+});
+
+describe('getEntryShares', () => {
+  it('should charge by games scheduled compared with a full entrant', () => {
+    const rounds: Round[] = [
+      { roundNumber: 1, games: [{ id: 1, team1: ['A', 'B'], team2: ['C', 'D'] }] },
+      { roundNumber: 2, games: [{ id: 2, team1: ['S', 'B'], team2: ['C', 'D'] }] },
+      { roundNumber: 3, games: [{ id: 3, team1: ['S', 'B'], team2: ['C', 'D'] }] },
+    ];
+    expect(getEntryShares(rounds, [{ player: 'A', substitute: 'S' }])).toEqual({ A: 1 / 3, S: 2 / 3 });
+  });
+});
+
+describe('getWithdrawalPayoutOptions', () => {
+  it('should credit every substitute in a chain to the original player in the team format', () => {
+    const withdrawals = [{ player: 'A', substitute: 'S' }, { player: 'S', substitute: 'T' }];
+    expect(getWithdrawalPayoutOptions('12-player', [], withdrawals)).toEqual({
+      substitutes: { S: 'A', T: 'A' },
+    });
+    expect(getActivePlayers(['A', 'B', 'S', 'T'], withdrawals)).toEqual(['B', 'T']);
+  });
+});
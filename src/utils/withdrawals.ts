@@ -0,0 +1,246 @@
+import { scheduleCourts } from './courtScheduler';
+import {
+  areRoundsComplete,
+  countDrawnRounds,
+  generateDynamicRound,
+  type DynamicPairingMode,
+} from './dynamicPairing';
+import { getGameScores, withMatchLength, type MatchLength } from './match';
+import {
+  MIN_SOCIAL_PLAYERS,
+  generateNextSocialRound,
+  getNextGameId,
+  type Game,
+  type PayoutOptions,
+  type Round,
+  type TournamentFormat,
+} from './scheduler';
+import type { SideBet } from './sideBets';
+
+// A player who left part-way through. With a substitute, the substitute
+// took over their remaining games; without one, the rounds they hadn't
+// started were redrawn for everyone else.
+export interface Withdrawal {
+  player: string;
+  substitute?: string;
+}
+
+export interface WithdrawalSettings {
+  format: TournamentFormat;
+  players: string[]; // Everyone still playing, including the player leaving
+  pairingMode: DynamicPairingMode;
+  matchLength: MatchLength;
+  courtCount: number;
+  totalRounds: number; // Dynamic format only
+  random?: () => number; // Seeded generator for the redraw (see createRandomAt)
+}
+
+export interface ScheduleChange {
+  rounds: Round[];
+  sideBets: SideBet[];
+  cancelledBets: number; // Side bets called off by the change
+}
+
+const isStarted = (game: Game) => getGameScores(game).length > 0;
+const involves = (game: Pick<Game, 'team1' | 'team2'>, player: string) =>
+  game.team1.includes(player) || game.team2.includes(player);
+
+/**
+ * Players who have left the tournament
+ */
+export function getWithdrawnPlayers(withdrawals: Withdrawal[]): string[] {
+  return withdrawals.map(({ player }) => player);
+}
+
+/**
+ * Players still taking part, in entry order
+ */
+export function getActivePlayers(players: string[], withdrawals: Withdrawal[]): string[] {
+  const withdrawn = getWithdrawnPlayers(withdrawals);
+  return players.filter((player) => !withdrawn.includes(player));
+}
+
+/**
+ * Puts a substitute into every game the player hasn't started, including
+ * sit-outs in rounds that haven't begun. Pool bets on those games follow
+ * the new line-up; other bets on them were between the players on court,
+ * so they are cancelled.
+ */
+export function substitutePlayer(
+  rounds: Round[],
+  sideBets: SideBet[],
+  player: string,
+  substitute: string
+): ScheduleChange {
+  const swap = (team: [string, string]): [string, string] => [
+    team[0] === player ? substitute : team[0],
+    team[1] === player ? substitute : team[1],
+  ];
+  const changedGames = new Set<number>();
+
+  const updatedRounds = rounds.map((round) => {
+    const roundStarted = round.games.some(isStarted);
+    return {
+      ...round,
+      games: round.games.map((game) => {
+        if (isStarted(game) || !involves(game, player)) return game;
+        changedGames.add(game.id);
+        return { ...game, team1: swap(game.team1), team2: swap(game.team2) };
+      }),
+      ...(round.byes && {
+        byes: roundStarted ? round.byes : round.byes.map((bye) => (bye === player ? substitute : bye)),
+      }),
+    };
+  });
+
+  const affected = (bet: SideBet) => bet.gameId !== undefined && changedGames.has(bet.gameId);
+  const updatedBets = sideBets
+    .filter((bet) => !affected(bet) || bet.type === 'pool')
+    .map((bet) => (affected(bet) ? { ...bet, team1: swap(bet.team1), team2: swap(bet.team2) } : bet));
+
+  return {
+    rounds: updatedRounds,
+    sideBets: updatedBets,
+    cancelledBets: sideBets.length - updatedBets.length,
+  };
+}
+
+/**
+ * Takes a player out of the rest of an individual-format tournament.
+ * Scored games stand. In a round that is under way, the player's unplayed
+ * games are dropped and the other players in them sit out; rounds that
+ * haven't started are redrawn for the remaining players, keeping about the
+ * same number of games. In Americano and Mexicano the remaining rounds are
+ * drawn as usual, just without the player. Side bets on dropped games are
+ * cancelled.
+ */
+export function withdrawPlayer(
+  rounds: Round[],
+  sideBets: SideBet[],
+  player: string,
+  settings: WithdrawalSettings
+): ScheduleChange & { totalRounds: number } {
+  const { format, players, pairingMode, matchLength, courtCount, totalRounds, random = Math.random } = settings;
+  if (format === '12-player') {
+    throw new Error('Partners are fixed in the team format, so bring in a substitute instead');
+  }
+  const remaining = players.filter((id) => id !== player);
+  if (remaining.length < MIN_SOCIAL_PLAYERS) {
+    throw new Error(`At least ${MIN_SOCIAL_PLAYERS} players are needed to carry on`);
+  }
+
+  const droppedGames = new Set<number>();
+  let unstartedGames = 0;
+  const kept: Round[] = [];
+  rounds.forEach((round) => {
+    if (!round.games.some(isStarted)) {
+      round.games.forEach((game) => droppedGames.add(game.id));
+      unstartedGames += round.games.length;
+      return;
+    }
+
+    const dropped = round.games.filter((game) => !isStarted(game) && involves(game, player));
+    if (dropped.length === 0) {
+      kept.push(round);
+      return;
+    }
+    dropped.forEach((game) => droppedGames.add(game.id));
+    const sittingOut = dropped.flatMap((game) => [...game.team1, ...game.team2]).filter((id) => id !== player);
+    kept.push({
+      ...round,
+      games: round.games.filter((game) => !dropped.includes(game)),
+      byes: [...(round.byes ?? []), ...sittingOut],
+    });
+  });
+
+  const redrawn: Round[] = [];
+  let newTotal = totalRounds;
+  if (format === 'dynamic') {
+    // Count the round under way as drawn, even if part of it was dropped
+    const gamesPerRound = Math.floor(players.length / 4);
+    const keptGames = kept.reduce((sum, round) => sum + round.games.length, 0);
+    const roundsLeft = totalRounds - Math.ceil(keptGames / gamesPerRound);
+    newTotal = countDrawnRounds(remaining.length, kept) + Math.max(0, roundsLeft);
+    if (roundsLeft > 0 && areRoundsComplete(kept)) {
+      redrawn.push(generateDynamicRound(remaining, kept, pairingMode, random));
+    }
+  } else {
+    const roundCount = Math.ceil(unstartedGames / Math.floor(remaining.length / 4));
+    for (let i = 0; i < roundCount; i++) {
+      redrawn.push(generateNextSocialRound(remaining, [...kept, ...redrawn], random));
+    }
+  }
+
+  // Redrawn games continue on from the highest game id, so they can't be
+  // mistaken for the dropped games their side bets referred to
+  let gameId = getNextGameId(rounds);
+  const slots = scheduleCourts(withMatchLength(redrawn, matchLength), courtCount).map((slot) => ({
+    ...slot,
+    games: slot.games.map((game) => ({ ...game, id: gameId++ })),
+  }));
+
+  const updatedBets = sideBets.filter((bet) => bet.gameId === undefined || !droppedGames.has(bet.gameId));
+  return {
+    rounds: [...kept, ...slots].map((round, index) => ({ ...round, roundNumber: index + 1 })),
+    sideBets: updatedBets,
+    totalRounds: newTotal,
+    cancelledBets: sideBets.length - updatedBets.length,
+  };
+}
+
+/**
+ * Share of the entry fee owed by each withdrawn player and substitute:
+ * their scheduled games as a fraction of the most played by anyone who
+ * was in for the whole tournament
+ */
+export function getEntryShares(
+  rounds: Round[],
+  withdrawals: Withdrawal[]
+): { [player: string]: number } {
+  const partial = new Set(
+    withdrawals.flatMap(({ player, substitute }) => (substitute ? [player, substitute] : [player]))
+  );
+  const scheduled = new Map<string, number>();
+  rounds.forEach((round) => {
+    round.games.forEach((game) => {
+      [...game.team1, ...game.team2].forEach((id) => scheduled.set(id, (scheduled.get(id) ?? 0) + 1));
+    });
+  });
+  const fullCount = Math.max(
+    0,
+    ...Array.from(scheduled).filter(([id]) => !partial.has(id)).map(([, count]) => count)
+  );
+
+  return Object.fromEntries(
+    Array.from(partial).map((id) => [
+      id,
+      fullCount > 0 ? Math.min(1, (scheduled.get(id) ?? 0) / fullCount) : 0,
+    ])
+  );
+}
+
+/**
+ * Payout settings for withdrawals. In the team format a substitute plays
+ * on for the player they replaced, so the team keeps its record, prize and
+ * entry fee; in the individual formats everyone who played only part of
+ * the tournament pays a share of the fee and isn't placed for prizes.
+ */
+export function getWithdrawalPayoutOptions(
+  format: TournamentFormat,
+  rounds: Round[],
+  withdrawals: Withdrawal[] = []
+): Pick<PayoutOptions, 'partialEntries' | 'substitutes'> {
+  if (withdrawals.length === 0) return {};
+  if (format === '12-player') {
+    // A substitute can be replaced in turn; follow the chain back to the
+    // player who started
+    const replaced = new Map(
+      withdrawals.flatMap(({ player, substitute }) => (substitute ? [[substitute, player] as const] : []))
+    );
+    const original = (id: string): string => (replaced.has(id) ? original(replaced.get(id)!) : id);
+    return {
+      substitutes: Object.fromEntries(Array.from(replaced.keys()).map((id) => [id, original(id)])),
+    };
+  }
+  return { partialEntries: getEntryShares(rounds, withdrawals) };
+}